@@ -1,31 +1,115 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Note, Theme } from './types';
+import { Collection, Note, NoteSummary, Theme } from './types';
 import Home from './components/Home';
 import Editor from './components/Editor';
 import SplashScreen from './components/SplashScreen';
 import { THEMES } from './constants';
-import { RotateCcw } from 'lucide-react';
-import { Filesystem, Directory, Encoding } from '@capacitor/filesystem';
+import { generateId } from './utils';
+import { AlertTriangle } from 'lucide-react';
 import { Capacitor } from '@capacitor/core';
 import { App as CapacitorApp } from '@capacitor/app';
 import { StatusBar, Style } from '@capacitor/status-bar';
-
-const FILENAME = 'frame_notes_db.json';
+import { internalizeLegacyMedia, collectMediaGarbage, collectRawMediaRefs } from './services/mediaStore';
+import { LoadedVault, QuarantinedNote } from './services/schema';
+import { loadQuarantine, saveQuarantine } from './services/quarantine';
+import { describeSaveError } from './services/persistence';
+import { createDefaultRepository, NoteLoadResult } from './services/noteRepository';
+import { createHiddenVault, VaultStatus } from './services/hiddenVault';
+import { createHiddenNoteRepository } from './services/hiddenNoteRepository';
+import { loadLegacyNotes, retireLegacyStorage } from './services/legacyStorage';
+import { VaultArchive, ImportConflictStrategy, exportVault, readVaultArchive, importVault, countConflicts } from './services/vaultArchive';
+import { openExportStream, dateStamp } from './services/exportFile';
+import ImportVaultDialog from './components/ImportVaultDialog';
+import HiddenVaultGate from './components/HiddenVaultGate';
+import AppLockScreen from './components/AppLockScreen';
+import AppLockSettings from './components/AppLockSettings';
+import { IndexedText, createSearchIndex, textOf } from './services/searchIndex';
+import { createSearchTextStore } from './services/searchTextStore';
+import { countTags, loadCollections, saveCollections, renameTag } from './services/tags';
+import { recordVersion, clearHistory, collectHistoryMediaRefs } from './services/noteHistory';
+import { findExpired, isTrashed, loadRetentionDays, saveRetentionDays } from './services/trash';
+import { AppLockConfig, loadAppLock, checkPin, enableAppLock, disableAppLock, setIdleTimeout } from './services/appLock';
 
 const App: React.FC = () => {
   const [showSplash, setShowSplash] = useState(true);
   const [view, setView] = useState<'home' | 'edit'>('home');
-  const [notes, setNotes] = useState<Note[]>([]);
+  // Home works off the index only; full notes are loaded one at a time when opened
+  const [notes, setNotes] = useState<NoteSummary[]>([]);
   const [activeNote, setActiveNote] = useState<Note | null>(null);
   const [theme, setTheme] = useState<Theme>('dark');
+  const [quarantine, setQuarantine] = useState<QuarantinedNote[]>([]);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  // `storage` holds hidden notes as encrypted stubs; `repository` encrypts and decrypts them on the way through
+  const [storage] = useState(createDefaultRepository);
+  const [repository] = useState(() => createHiddenNoteRepository(storage, createHiddenVault()));
+  const [searchIndex] = useState(createSearchIndex);
+  const [searchTexts] = useState(createSearchTextStore);
+  const [collections, setCollections] = useState<Collection[]>([]);
+  const [vaultStatus, setVaultStatus] = useState<VaultStatus>('locked');
+  const [showVaultPrompt, setShowVaultPrompt] = useState(false);
+
+  // App lock: `undefined` until its settings are read, `null` when turned off
+  const [appLock, setAppLock] = useState<AppLockConfig | null | undefined>(undefined);
+  const [isAppLocked, setIsAppLocked] = useState(true);
+  const [hasUnlocked, setHasUnlocked] = useState(false);
+  const [showAppLockSettings, setShowAppLockSettings] = useState(false);
+  // Covers the UI while backgrounded so the recents switcher shows nothing
+  const [isObscured, setIsObscured] = useState(false);
   
   // Refs for listeners to access current state
   const viewRef = useRef(view);
   useEffect(() => { viewRef.current = view; }, [view]);
+  const activeNoteRef = useRef(activeNote);
+  useEffect(() => { activeNoteRef.current = activeNote; }, [activeNote]);
+  const appLockRef = useRef(appLock);
+  useEffect(() => { appLockRef.current = appLock; }, [appLock]);
+
+  // Days a deleted note stays in the Trash before the startup purge
+  const [retentionDays, setRetentionDays] = useState(loadRetentionDays);
 
-  // Undo State
-  const [deletedNote, setDeletedNote] = useState<Note | null>(null);
-  const [undoTimer, setUndoTimer] = useState<ReturnType<typeof setTimeout> | null>(null);
+  // Transient status message (exports, imports)
+  const [notice, setNotice] = useState<string | null>(null);
+  const noticeTimer = useRef<ReturnType<typeof setTimeout> | null>(null);
+  const [pendingImport, setPendingImport] = useState<VaultArchive | null>(null);
+
+  // Search text isn't in the summaries. Visible notes' text is kept in a side store, so only
+  // notes changed since it was written are read, one at a time in the background. Hidden notes
+  // are read without their media while the vault is open, and never stored.
+  const textQueue = useRef(new Map<string, NoteSummary>());
+  const lockedText = useRef(new Set<string>());
+  const isLoadingText = useRef(false);
+
+  const indexText = (entry: IndexedText, isHidden: boolean) => {
+    searchIndex.put(entry);
+    if (!isHidden) searchTexts.set(entry);
+  };
+
+  const syncSearch = async (list: NoteSummary[]) => {
+    const stale = new Set(searchIndex.sync(list));
+    searchTexts.retain(new Set(list.filter(n => !n.isHidden).map(n => n.id)));
+    list.forEach(summary => {
+      if (!stale.has(summary.id) || lockedText.current.has(summary.id)) return;
+      const stored = summary.isHidden ? undefined : searchTexts.get(summary.id);
+      if (stored?.updatedAt === summary.updatedAt) searchIndex.put({ ...stored, title: summary.title });
+      else textQueue.current.set(summary.id, summary);
+    });
+
+    if (isLoadingText.current) return;
+    isLoadingText.current = true;
+    try {
+      while (textQueue.current.size > 0) {
+        const [id, summary] = textQueue.current.entries().next().value!;
+        textQueue.current.delete(id);
+        const result = await repository.readSearchText(id);
+        if (result === 'locked') lockedText.current.add(id);
+        else if (result) indexText(result, !!summary.isHidden);
+      }
+    } catch (e) {
+      console.warn("Search: loading note text failed", e);
+    } finally {
+      isLoadingText.current = false;
+    }
+  };
 
   // 1. Initialize Android Specifics
   useEffect(() => {
@@ -57,70 +141,151 @@ const App: React.FC = () => {
     }
   }, []);
 
-  // 2. Storage: Load Strategy (Filesystem Priority -> LocalStorage Fallback)
+  // 2. Storage: Load Strategy (Repository index, after a one-off import of legacy storage)
   useEffect(() => {
+    // Home mirrors the repository's summaries; every put/delete flows back through here
+    const unwatch = repository.watch(list => {
+      syncSearch(list);
+      setNotes(list);
+    });
+
     const loadData = async () => {
-      let loaded = false;
+      // Load Theme
+      const savedTheme = localStorage.getItem('frame_notes_theme') as Theme;
+      if (savedTheme && THEMES[savedTheme]) {
+        setTheme(savedTheme);
+      }
+      setCollections(await loadCollections());
+      // Before the first listing, so its sync finds the saved text
+      await searchTexts.load();
 
-      // Try Filesystem first (Source of Truth)
-      if (Capacitor.isNativePlatform()) {
-        try {
-          const result = await Filesystem.readFile({
-            path: FILENAME,
-            directory: Directory.Data,
-            encoding: Encoding.UTF8
-          });
-          if (result.data) {
-            setNotes(JSON.parse(result.data as string));
-            loaded = true;
-          }
-        } catch (e) {
-          console.log("Filesystem: DB not found, checking backup.");
+      const listing = await repository.list();
+      const newlyQuarantined: QuarantinedNote[] = [...listing.quarantined];
+      let legacy: LoadedVault | null = null;
+      try {
+        legacy = await loadLegacyNotes();
+        if (legacy) {
+          // First run on this backend: move old localStorage / single-file data over.
+          // Hidden notes go in as they are and get encrypted once a vault passphrase exists.
+          for (const note of await internalizeLegacyMedia(legacy.notes)) await storage.put(note);
+          newlyQuarantined.push(...legacy.quarantined);
         }
+      } catch (e) {
+        console.error("Vault Migration Error", e);
+        setSaveError(describeSaveError(e));
+        return;
       }
 
-      // Fallback to LocalStorage if Filesystem failed or empty (or if Web)
-      if (!loaded) {
-        const savedNotes = localStorage.getItem('frame_notes_data');
-        if (savedNotes) {
-          try {
-            setNotes(JSON.parse(savedNotes));
-          } catch (e) { console.error("LS Error", e); }
+      // Quarantine: persist rejected notes before anything is rewritten without them
+      const existingQuarantine = await loadQuarantine();
+      const allQuarantined = [...existingQuarantine, ...newlyQuarantined];
+      try {
+        if (newlyQuarantined.length > 0) {
+          await saveQuarantine(allQuarantined);
+          for (const entry of listing.quarantined) await repository.delete(entry.id);
         }
+        if (legacy) await retireLegacyStorage();
+      } catch (e) {
+        console.error("Vault Write Error", e);
+        setSaveError(describeSaveError(e));
+        return;
       }
-      
-      // Load Theme
-      const savedTheme = localStorage.getItem('frame_notes_theme') as Theme;
-      if (savedTheme && THEMES[savedTheme]) {
-        setTheme(savedTheme);
+
+      setQuarantine(allQuarantined);
+      setVaultStatus(await repository.vaultStatus());
+
+      // Trash: purge notes past the retention period, so their media is collected below
+      try {
+        const { notes: summaries } = await repository.list();
+        for (const expired of findExpired(summaries, loadRetentionDays())) await repository.delete(expired.id);
+      } catch (e) {
+        console.warn("Trash: purge failed", e);
+      }
+
+      // Media: drop assets no note (or saved version of one) references any more.
+      // GC only runs here, when the index gives us the complete set of live references.
+      try {
+        const { notes: summaries } = await repository.list();
+        const referenced = new Set(summaries.flatMap(s => s.media));
+        collectRawMediaRefs(allQuarantined, referenced);
+        await collectHistoryMediaRefs(new Set(summaries.map(s => s.id)), referenced);
+        await collectMediaGarbage(referenced);
+      } catch (e) {
+        console.warn("Media Store: maintenance failed", e);
       }
     };
 
     loadData();
+    return unwatch;
   }, []);
 
-  // 3. Storage: Save Strategy (Write to Both)
+  // 3. Storage: Save Strategy (one record per note, written through the repository)
+  // Failed writes by target, re-run from the error banner
+  const failedWrites = useRef(new Map<string, () => Promise<void>>());
+
+  const trackWrite = (key: string, run: () => Promise<void>): Promise<void> => {
+    return run()
+      .then(() => {
+        failedWrites.current.delete(key);
+        if (failedWrites.current.size === 0) setSaveError(null);
+      })
+      .catch(e => {
+        console.error("Vault Write Error", key, e);
+        failedWrites.current.set(key, run);
+        setSaveError(describeSaveError(e));
+      });
+  };
+
+  const handleRetrySave = () => {
+    Array.from(failedWrites.current.entries()).forEach(([key, run]) => trackWrite(key, run));
+  };
+
+  // 4. Backgrounding: lock the hidden vault and the app, and blank the screen for the recents switcher
   useEffect(() => {
-    // Immediate LocalStorage update
-    localStorage.setItem('frame_notes_data', JSON.stringify(notes));
+    const handleBackground = () => {
+      setIsObscured(true);
+      if (appLockRef.current) setIsAppLocked(true);
+      handleLockVault();
+    };
+    const handleForeground = () => setIsObscured(false);
 
-    // Persistent Filesystem update
-    const persistData = async () => {
-      if (Capacitor.isNativePlatform()) {
-        try {
-          await Filesystem.writeFile({
-            path: FILENAME,
-            data: JSON.stringify(notes),
-            directory: Directory.Data,
-            encoding: Encoding.UTF8
-          });
-        } catch (e) {
-          console.error("Filesystem Write Error", e);
-        }
-      }
+    if (Capacitor.isNativePlatform()) {
+      const listeners = [
+        CapacitorApp.addListener('pause', handleBackground),
+        CapacitorApp.addListener('resume', handleForeground),
+      ];
+      return () => { listeners.forEach(listener => listener.then(handle => handle.remove())); };
+    }
+    const handleVisibility = () => {
+      if (document.visibilityState === 'hidden') handleBackground();
+      else handleForeground();
+    };
+    document.addEventListener('visibilitychange', handleVisibility);
+    return () => document.removeEventListener('visibilitychange', handleVisibility);
+  }, []);
+
+  // 5. App lock: read the settings, then re-lock after the configured idle time
+  useEffect(() => {
+    loadAppLock().then(config => {
+      setAppLock(config);
+      setIsAppLocked(!!config);
+    });
+  }, []);
+
+  useEffect(() => {
+    if (!appLock || !appLock.idleMinutes || isAppLocked) return;
+    let lastActivity = Date.now();
+    const markActive = () => { lastActivity = Date.now(); };
+    const events = ['pointerdown', 'keydown', 'wheel', 'touchmove'];
+    events.forEach(event => window.addEventListener(event, markActive, { passive: true }));
+    const timer = setInterval(() => {
+      if (Date.now() - lastActivity >= appLock.idleMinutes * 60 * 1000) setIsAppLocked(true);
+    }, 10000);
+    return () => {
+      events.forEach(event => window.removeEventListener(event, markActive));
+      clearInterval(timer);
     };
-    persistData();
-  }, [notes]);
+  }, [appLock, isAppLocked]);
 
   // Save theme preference
   useEffect(() => {
@@ -129,70 +294,257 @@ const App: React.FC = () => {
 
   // --- Handlers ---
 
+  const quarantineEntry = async (entry: QuarantinedNote) => {
+    const updated = [...quarantine, entry];
+    setQuarantine(updated);
+    try {
+      await saveQuarantine(updated);
+      await repository.delete(entry.id);
+    } catch (e) { console.error("Quarantine Write Error", e); }
+  };
+
+  // Opens the stored copy of a note; the in-memory active note wins when it is the same one
+  const fetchNote = async (id: string): Promise<Note | null> => {
+    if (activeNote?.id === id) return activeNote;
+    let result: NoteLoadResult;
+    try {
+      result = await repository.get(id);
+    } catch (e) {
+      console.error("Note Read Error", id, e);
+      showNotice('This frame could not be read, try again');
+      return null;
+    }
+    if (result.status === 'ok') return result.note;
+    if (result.status === 'locked') {
+      showNotice('Unlock hidden frames first');
+    } else if (result.status === 'quarantined') {
+      await quarantineEntry(result.entry);
+    } else if (window.confirm('This frame\'s file could not be found. Remove it from the list?')) {
+      console.warn("Note missing, dropping from index", id);
+      trackWrite(`note:${id}`, () => repository.delete(id));
+    }
+    return null;
+  };
+
   const handleCreateNote = () => {
     setActiveNote(null);
     setView('edit');
   };
 
-  const handleSelectNote = (note: Note) => {
+  const handleSelectNote = async (summary: NoteSummary) => {
+    const note = await fetchNote(summary.id);
+    if (!note) return;
+    // Opening a frame marks a version boundary in its history
+    recordVersion(note, true).catch(e => console.warn("History: snapshot failed", e));
     setActiveNote(note);
     setView('edit');
   };
 
   const handleSaveNote = (updatedNote: Note) => {
-    setNotes(prev => {
-      const exists = prev.find(n => n.id === updatedNote.id);
-      if (exists) {
-        return prev.map(n => n.id === updatedNote.id ? updatedNote : n);
-      } else {
-        return [updatedNote, ...prev];
-      }
-    });
-    // Keep active note synced
-    if (activeNote?.id === updatedNote.id) {
-        setActiveNote(updatedNote); 
-    }
+    // Index right away so search doesn't wait for the write (or the encryption of hidden notes)
+    indexText(textOf(updatedNote), !!updatedNote.isHidden);
+    trackWrite(`note:${updatedNote.id}`, () => repository.put(updatedNote));
+    recordVersion(updatedNote).catch(e => console.warn("History: snapshot failed", e));
+  };
+
+  // Editor saves also adopt brand-new notes as the active note so later autosaves keep their id
+  const handleEditorSave = (updatedNote: Note) => {
+    handleSaveNote(updatedNote);
+    setActiveNote(updatedNote);
   };
   
-  const handleToggleHideNote = (note: Note) => {
-      const updatedNote = { ...note, isHidden: !note.isHidden };
-      handleSaveNote(updatedNote);
+  const handleToggleHideNote = async (summary: NoteSummary) => {
+      const note = await fetchNote(summary.id);
+      if (note) handleSaveNote({ ...note, isHidden: !note.isHidden });
+  };
+
+  const handleTogglePinNote = async (summary: NoteSummary) => {
+      const note = await fetchNote(summary.id);
+      if (note) handleSaveNote({ ...note, isPinned: !note.isPinned });
   };
 
-  const handleTogglePinNote = (note: Note) => {
-      const updatedNote = { ...note, isPinned: !note.isPinned };
-      handleSaveNote(updatedNote);
+  const handleSetNoteTags = async (summary: NoteSummary, tags: string[]) => {
+      const note = await fetchNote(summary.id);
+      if (note) handleSaveNote({ ...note, tags });
   };
 
-  const handleDeleteNote = (noteId: string) => {
-    const noteToDelete = notes.find(n => n.id === noteId);
+  const updateCollections = (next: Collection[]) => {
+      setCollections(next);
+      saveCollections(next).catch(e => console.error("Collections Save Error", e));
+  };
+
+  const handleSaveCollection = (name: string, tags: string[]) => {
+      updateCollections([...collections, { id: generateId(), name, tags }]);
+  };
+
+  const handleDeleteCollection = (id: string) => {
+      updateCollections(collections.filter(c => c.id !== id));
+  };
+
+  // Rewrites the tag on every note that carries it; locked hidden notes can't be read and keep the old name
+  const handleRenameTag = async (from: string, to: string) => {
+      const tagged = notes.filter(n => n.tags.includes(from));
+      for (const summary of tagged) {
+          const note = await fetchNote(summary.id);
+          if (note) handleSaveNote({ ...note, tags: renameTag(note.tags || [], from, to) });
+      }
+      updateCollections(collections.map(c => ({ ...c, tags: renameTag(c.tags, from, to) })));
+      showNotice(`Renamed #${from} to #${to} in ${tagged.length} ${tagged.length === 1 ? 'frame' : 'frames'}`);
+  };
+
+  // Deleting moves the note to the Trash; the Editor passes its latest state so unsaved edits survive
+  const handleDeleteNote = async (noteId: string, latest?: Note) => {
+    const noteToDelete = latest || await fetchNote(noteId);
     if (!noteToDelete) return;
 
-    setDeletedNote(noteToDelete);
-    setNotes(prev => prev.filter(n => n.id !== noteId));
-    
+    handleSaveNote({ ...noteToDelete, deletedAt: Date.now() });
+    showNotice('Moved to Trash');
+
     if (activeNote?.id === noteId) {
         setActiveNote(null);
         setView('home');
     }
+  };
+
+  const handleRestoreNote = async (summary: NoteSummary) => {
+      const note = await fetchNote(summary.id);
+      if (!note) return;
+      const { deletedAt, ...restored } = note;
+      handleSaveNote(restored);
+  };
+
+  const handleRestoreAll = async (summaries: NoteSummary[]) => {
+      for (const summary of summaries) await handleRestoreNote(summary);
+      showNotice(`Restored ${summaries.length} ${summaries.length === 1 ? 'frame' : 'frames'}`);
+  };
+
+  // Permanent: media goes with the next startup's garbage collection
+  // One note at a time: every delete rewrites the index
+  const handleDeleteForever = async (ids: string[]) => {
+      for (const id of ids) {
+          clearHistory(id).catch(e => console.warn("History: clear failed", e));
+          await trackWrite(`note:${id}`, () => repository.delete(id));
+      }
+  };
+
+  const handleSetRetention = (days: number) => {
+      setRetentionDays(days);
+      saveRetentionDays(days);
+  };
+
+  const handleVaultPassphrase = async (passphrase: string): Promise<string | null> => {
+      // Hidden notes become readable, so their text can be loaded on the next sync
+      lockedText.current.clear();
+      const failure = vaultStatus === 'unset'
+          ? await repository.setupVault(passphrase)
+          : await repository.unlockVault(passphrase);
+      if (!failure) {
+          setVaultStatus('unlocked');
+          setShowVaultPrompt(false);
+      }
+      return failure;
+  };
+
+  // Drops every decrypted copy: keys, held media, and any hidden note on screen
+  const handleLockVault = async () => {
+      if (activeNoteRef.current?.isHidden) {
+          setActiveNote(null);
+          setView('home');
+      }
+      setShowVaultPrompt(false);
+      await repository.lockVault();
+      // Decrypted text leaves the search index too, even for a hidden note with no title
+      const { notes: stubs } = await repository.list();
+      stubs.filter(n => n.sealed).forEach(n => searchIndex.remove(n.id));
+      setVaultStatus(await repository.vaultStatus());
+  };
+
+  const handleUnlockApp = async (pin: string): Promise<string | null> => {
+      if (!appLock) return null;
+      const result = await checkPin(appLock, pin);
+      setAppLock(result.config);
+      if (result.error) return result.error;
+      setIsAppLocked(false);
+      setHasUnlocked(true);
+      return null;
+  };
+
+  const handleEnableAppLock = async (pin: string, idleMinutes: number) => {
+      setAppLock(await enableAppLock(pin, idleMinutes));
+      setIsAppLocked(false);
+      setHasUnlocked(true);
+  };
 
-    if (undoTimer) clearTimeout(undoTimer);
-    const timer = setTimeout(() => {
-        setDeletedNote(null);
-        setUndoTimer(null);
-    }, 5000);
-    setUndoTimer(timer);
-  };
-
-  const handleUndoDelete = () => {
-      if (deletedNote) {
-          setNotes(prev => [deletedNote, ...prev]);
-          setDeletedNote(null);
-          if (undoTimer) {
-              clearTimeout(undoTimer);
-              setUndoTimer(null);
+  const handleDisableAppLock = async (pin: string): Promise<string | null> => {
+      if (!appLock) return null;
+      const result = await checkPin(appLock, pin);
+      setAppLock(result.config);
+      if (result.error) return result.error;
+      try {
+          await disableAppLock();
+      } catch (e) {
+          console.error("App Lock Error", e);
+          return 'Could not turn off app lock';
+      }
+      setAppLock(null);
+      return null;
+  };
+
+  const handleSetIdleTimeout = (idleMinutes: number) => {
+      if (!appLock) return;
+      setIdleTimeout(appLock, idleMinutes)
+          .then(setAppLock)
+          .catch(e => console.error("App Lock Error", e));
+  };
+
+  const handleDismissQuarantined = (entry: QuarantinedNote) => {
+      const remaining = quarantine.filter(q => q !== entry);
+      setQuarantine(remaining);
+      saveQuarantine(remaining).catch(e => console.error("Quarantine Write Error", e));
+  };
+
+  const showNotice = (message: string) => {
+      setNotice(message);
+      if (noticeTimer.current) clearTimeout(noticeTimer.current);
+      noticeTimer.current = setTimeout(() => setNotice(null), 4000);
+  };
+
+  const handleExportVault = async () => {
+      showNotice('Exporting vault...');
+      try {
+          const stream = await openExportStream(`frame-notes-vault-${dateStamp()}.zip`, 'application/zip');
+          try {
+              await exportVault(storage, stream.write);
+          } catch (e) {
+              await stream.abort();
+              throw e;
           }
+          showNotice(`Vault exported to ${await stream.close()}`);
+      } catch (e) {
+          console.error("Vault Export Error", e);
+          showNotice('Export failed');
+      }
+  };
+
+  const handleImportVault = async (file: File) => {
+      try {
+          setPendingImport(await readVaultArchive(file));
+      } catch (e) {
+          console.error("Vault Import Error", e);
+          showNotice((e as Error)?.message || 'Could not read archive');
+      }
+  };
+
+  const handleConfirmImport = async (strategy: ImportConflictStrategy) => {
+      if (!pendingImport) throw new Error('Nothing to import');
+      const summary = await importVault(storage, pendingImport, strategy);
+      // Unreadable archive entries are kept, like any other note that fails validation
+      if (pendingImport.quarantined.length > 0) {
+          const updated = [...quarantine, ...pendingImport.quarantined];
+          setQuarantine(updated);
+          await saveQuarantine(updated);
       }
+      return summary;
   };
 
   const handleBackToHome = () => {
@@ -206,6 +558,12 @@ const App: React.FC = () => {
     return <SplashScreen onFinish={() => setShowSplash(false)} />;
   }
 
+  // Nothing renders behind the lock until the first successful unlock
+  const isLockScreenUp = !!appLock && isAppLocked;
+  if (appLock === undefined || (isLockScreenUp && !hasUnlocked)) {
+    return appLock ? <AppLockScreen lockedUntil={appLock.lockedUntil} onSubmit={handleUnlockApp} /> : <div className="min-h-screen bg-black" />;
+  }
+
   return (
     <div className="font-sans antialiased text-white h-full min-h-screen">
       {view === 'home' ? (
@@ -218,33 +576,104 @@ const App: React.FC = () => {
           onToggleHideNote={handleToggleHideNote}
           onTogglePinNote={handleTogglePinNote}
           onDeleteNote={handleDeleteNote}
+          quarantine={quarantine}
+          onDismissQuarantined={handleDismissQuarantined}
+          onExportVault={handleExportVault}
+          onImportVault={handleImportVault}
+          vaultStatus={vaultStatus}
+          onSubmitVaultPassphrase={handleVaultPassphrase}
+          onLockVault={handleLockVault}
+          onOpenAppLock={() => setShowAppLockSettings(true)}
+          searchIndex={searchIndex}
+          collections={collections}
+          onSetNoteTags={handleSetNoteTags}
+          onRenameTag={handleRenameTag}
+          onSaveCollection={handleSaveCollection}
+          onDeleteCollection={handleDeleteCollection}
+          retentionDays={retentionDays}
+          onSetRetention={handleSetRetention}
+          onRestoreNote={handleRestoreNote}
+          onRestoreAll={handleRestoreAll}
+          onDeleteForever={handleDeleteForever}
         />
       ) : (
         <Editor 
           note={activeNote}
-          onSave={handleSaveNote}
+          onSave={handleEditorSave}
           onBack={handleBackToHome}
           currentTheme={theme}
           onDeleteNote={handleDeleteNote}
+          saveError={saveError}
+          onNotice={showNotice}
+          isVaultUnlocked={vaultStatus === 'unlocked'}
+          onRequestVaultUnlock={() => setShowVaultPrompt(true)}
+          knownTags={countTags(notes.filter(n => !isTrashed(n)))}
         />
       )}
 
-      {/* Global Undo Toast */}
-      {deletedNote && (
-          <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-[60] animate-in slide-in-from-bottom-10 fade-in duration-300">
-              <button 
-                onClick={handleUndoDelete}
-                className={`flex items-center gap-3 px-6 py-3 rounded-full shadow-2xl backdrop-blur-md border ${themeColors.border} ${themeColors.surface} text-white hover:scale-105 active:scale-95 transition-transform`}
-              >
-                  <span className="text-sm font-medium">Deleted</span>
-                  <div className="h-4 w-px bg-white/20"></div>
-                  <div className="flex items-center gap-1.5 text-cyan-400">
-                      <RotateCcw size={14} />
-                      <span className="text-sm font-bold uppercase tracking-wider">Undo</span>
-                  </div>
-              </button>
+      {/* Persistent Save Error Banner */}
+      {saveError && (
+          <div className="fixed top-[calc(0.5rem+env(safe-area-inset-top))] left-4 right-4 z-[65] flex justify-center pointer-events-none">
+              <div className="pointer-events-auto flex items-center gap-3 px-4 py-2.5 rounded-full bg-red-950/90 border border-red-500/30 backdrop-blur-md shadow-2xl animate-in fade-in slide-in-from-top-4">
+                  <AlertTriangle size={14} className="text-red-400 shrink-0" />
+                  <span className="text-xs text-red-200 font-medium">{saveError} — changes are not saved</span>
+                  <button
+                    onClick={handleRetrySave}
+                    className="text-[10px] font-bold uppercase tracking-wider text-red-300 hover:text-white transition-colors"
+                  >
+                      Retry
+                  </button>
+              </div>
+          </div>
+      )}
+
+      {pendingImport && (
+          <ImportVaultDialog
+            archive={pendingImport}
+            conflicts={countConflicts(pendingImport, new Set(notes.map(n => n.id)))}
+            onConfirm={handleConfirmImport}
+            onClose={() => setPendingImport(null)}
+          />
+      )}
+
+      {showVaultPrompt && vaultStatus !== 'unlocked' && (
+          <div className="fixed inset-0 z-[70] bg-black/80 backdrop-blur-sm flex items-center justify-center px-4 animate-in fade-in duration-300">
+              <HiddenVaultGate
+                mode={vaultStatus === 'unset' ? 'unset' : 'locked'}
+                onSubmit={handleVaultPassphrase}
+                onCancel={() => setShowVaultPrompt(false)}
+              />
+          </div>
+      )}
+
+      {showAppLockSettings && (
+          <AppLockSettings
+            config={appLock}
+            onEnable={handleEnableAppLock}
+            onDisable={handleDisableAppLock}
+            onSetIdleTimeout={handleSetIdleTimeout}
+            onClose={() => setShowAppLockSettings(false)}
+          />
+      )}
+
+      {/* Notice Toast */}
+      {notice && (
+          <div className="fixed bottom-8 left-1/2 -translate-x-1/2 z-[60] max-w-[90%] animate-in slide-in-from-bottom-10 fade-in duration-300">
+              <div className={`px-6 py-3 rounded-full shadow-2xl backdrop-blur-md border ${themeColors.border} ${themeColors.surface} text-sm font-medium text-white truncate`}>
+                  {notice}
+              </div>
           </div>
       )}
+
+      {/* App Lock (opaque, above everything; the app stays mounted underneath) */}
+      {isLockScreenUp && appLock && (
+          <AppLockScreen lockedUntil={appLock.lockedUntil} onSubmit={handleUnlockApp} />
+      )}
+
+      {/* Privacy Cover for the recents switcher */}
+      {isObscured && !isLockScreenUp && (
+          <div className="fixed inset-0 z-[95] bg-black" />
+      )}
     </div>
   );
 };
@@ -0,0 +1,114 @@
+import React, { useState, useEffect } from 'react';
+import { APP_NAME } from '../constants';
+import { PIN_MAX_LENGTH, PIN_MIN_LENGTH } from '../services/appLock';
+import { Delete, ArrowRight, Lock } from 'lucide-react';
+
+interface AppLockScreenProps {
+  lockedUntil: number;
+  // Resolves to an error message, or null once the app is unlocked
+  onSubmit: (pin: string) => Promise<string | null>;
+}
+
+const KEYS = ['1', '2', '3', '4', '5', '6', '7', '8', '9', 'back', '0', 'enter'];
+
+const formatWait = (ms: number): string => {
+  const seconds = Math.ceil(ms / 1000);
+  return seconds >= 60 ? `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}` : `${seconds}s`;
+};
+
+const AppLockScreen: React.FC<AppLockScreenProps> = ({ lockedUntil, onSubmit }) => {
+  const [pin, setPin] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [now, setNow] = useState(Date.now());
+
+  // Countdown while locked out
+  useEffect(() => {
+    if (lockedUntil <= Date.now()) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [lockedUntil]);
+
+  const waitMs = Math.max(0, lockedUntil - now);
+  const isLockedOut = waitMs > 0;
+
+  const submit = async () => {
+    if (isChecking || isLockedOut || pin.length < PIN_MIN_LENGTH) return;
+    setIsChecking(true);
+    const failure = await onSubmit(pin);
+    setIsChecking(false);
+    setPin('');
+    setError(failure);
+    setNow(Date.now());
+    if (failure && navigator.vibrate) navigator.vibrate(80);
+  };
+
+  const press = (key: string) => {
+    if (isChecking || isLockedOut) return;
+    if (key === 'back') setPin(current => current.slice(0, -1));
+    else if (key === 'enter') submit();
+    else if (pin.length < PIN_MAX_LENGTH) setPin(current => current + key);
+  };
+
+  // Keep keystrokes from reaching an editor field left focused underneath
+  useEffect(() => {
+    (document.activeElement as HTMLElement | null)?.blur();
+  }, []);
+
+  // Hardware keyboards (and the web build)
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      if (/^\d$/.test(e.key)) press(e.key);
+      else if (e.key === 'Backspace') press('back');
+      else if (e.key === 'Enter') press('enter');
+    };
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  });
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black flex flex-col items-center justify-center gap-10 px-8 pt-[env(safe-area-inset-top)] pb-[env(safe-area-inset-bottom)] select-none">
+      <div className="flex flex-col items-center gap-3">
+        <Lock size={20} className="text-cyan-400" />
+        <span className="text-[10px] font-bold uppercase tracking-[0.3em] text-neutral-500">{APP_NAME}</span>
+      </div>
+
+      {/* PIN dots */}
+      <div className="flex flex-col items-center gap-4 h-12">
+        <div className="flex gap-3">
+          {Array.from({ length: Math.max(PIN_MIN_LENGTH, pin.length) }).map((_, i) => (
+            <div
+              key={i}
+              className={`w-2.5 h-2.5 rounded-full border transition-colors ${i < pin.length ? 'bg-white border-white' : 'border-white/30'}`}
+            />
+          ))}
+        </div>
+        <p className={`text-xs ${error || isLockedOut ? 'text-red-400' : 'text-neutral-600'}`}>
+          {isLockedOut ? `Too many attempts · try again in ${formatWait(waitMs)}` : error || 'Enter PIN'}
+        </p>
+      </div>
+
+      {/* Keypad */}
+      <div className={`grid grid-cols-3 gap-4 transition-opacity ${isLockedOut ? 'opacity-30' : 'opacity-100'}`}>
+        {KEYS.map(key => (
+          <button
+            key={key}
+            onClick={() => press(key)}
+            disabled={isLockedOut || isChecking}
+            className={`w-[4.5rem] h-[4.5rem] rounded-full flex items-center justify-center text-2xl font-light transition-all active:scale-90 ${
+              key === 'enter'
+                ? 'text-cyan-400 active:bg-cyan-400/10'
+                : key === 'back'
+                  ? 'text-neutral-500 active:bg-white/5'
+                  : 'text-white bg-[#141414] border border-white/5 active:bg-[#1A1A1A]'
+            }`}
+          >
+            {key === 'back' ? <Delete size={22} /> : key === 'enter' ? <ArrowRight size={24} /> : key}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default AppLockScreen;
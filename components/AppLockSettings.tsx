@@ -0,0 +1,149 @@
+import React, { useState } from 'react';
+import { AppLockConfig, IDLE_TIMEOUT_OPTIONS, PIN_MAX_LENGTH, PIN_MIN_LENGTH, isValidPin } from '../services/appLock';
+import { X, ShieldCheck } from 'lucide-react';
+
+interface AppLockSettingsProps {
+  config: AppLockConfig | null;
+  onEnable: (pin: string, idleMinutes: number) => Promise<void>;
+  // Resolves to an error message, or null once the lock is off
+  onDisable: (pin: string) => Promise<string | null>;
+  onSetIdleTimeout: (idleMinutes: number) => void;
+  onClose: () => void;
+}
+
+const timeoutLabel = (minutes: number) => minutes === 0 ? 'Never' : `${minutes} min`;
+
+const pinInputClass = "w-full rounded-xl bg-[#141414] border border-white/5 px-4 py-3 text-sm text-white tracking-[0.3em] placeholder-neutral-700 placeholder:tracking-normal outline-none focus:bg-[#1A1A1A] transition-colors";
+
+const AppLockSettings: React.FC<AppLockSettingsProps> = ({ config, onEnable, onDisable, onSetIdleTimeout, onClose }) => {
+  const [pin, setPin] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [idleMinutes, setIdleMinutes] = useState(config?.idleMinutes ?? 5);
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const digitsOnly = (value: string) => value.replace(/\D/g, '').slice(0, PIN_MAX_LENGTH);
+
+  const handleEnable = async () => {
+    if (!isValidPin(pin)) {
+      setError(`Use ${PIN_MIN_LENGTH}-${PIN_MAX_LENGTH} digits`);
+      return;
+    }
+    if (pin !== confirm) {
+      setError('PINs do not match');
+      return;
+    }
+    setIsWorking(true);
+    setError(null);
+    try {
+      await onEnable(pin, idleMinutes);
+      onClose();
+    } catch (e) {
+      console.error("App Lock Error", e);
+      setError('Could not save the PIN');
+    }
+    setIsWorking(false);
+  };
+
+  const handleDisable = async () => {
+    setIsWorking(true);
+    setError(null);
+    const failure = await onDisable(pin);
+    setIsWorking(false);
+    setPin('');
+    if (failure) setError(failure);
+    else onClose();
+  };
+
+  const handleTimeout = (minutes: number) => {
+    setIdleMinutes(minutes);
+    if (config) onSetIdleTimeout(minutes);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/80 backdrop-blur-sm flex items-end sm:items-center justify-center animate-in fade-in duration-300">
+      <div className="w-full sm:max-w-md flex flex-col bg-[#111] border border-white/10 rounded-t-2xl sm:rounded-2xl shadow-2xl pb-[env(safe-area-inset-bottom)]">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-white/5">
+          <div className="flex items-center gap-2 text-cyan-400">
+            <ShieldCheck size={16} />
+            <span className="text-[10px] font-bold uppercase tracking-[0.2em]">App Lock</span>
+          </div>
+          <button onClick={onClose} disabled={isWorking} className="p-2 -mr-2 text-neutral-500 hover:text-white transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-5 flex flex-col gap-4">
+          <div className="flex flex-col gap-2">
+            <span className="text-[10px] uppercase tracking-widest text-neutral-500 font-bold">Lock after inactivity</span>
+            <div className="grid grid-cols-4 gap-2">
+              {IDLE_TIMEOUT_OPTIONS.map(minutes => (
+                <button
+                  key={minutes}
+                  onClick={() => handleTimeout(minutes)}
+                  className={`rounded-xl border py-2.5 text-xs font-bold transition-colors ${idleMinutes === minutes ? 'border-cyan-400/50 bg-cyan-400/5 text-cyan-400' : 'border-white/5 bg-[#141414] text-neutral-300 hover:bg-[#1A1A1A]'}`}
+                >
+                  {timeoutLabel(minutes)}
+                </button>
+              ))}
+            </div>
+            <span className="text-xs text-neutral-500">The app always locks when you leave it.</span>
+          </div>
+
+          {config ? (
+            <input
+              type="password"
+              inputMode="numeric"
+              value={pin}
+              onChange={(e) => setPin(digitsOnly(e.target.value))}
+              placeholder="Current PIN to turn off"
+              className={pinInputClass}
+            />
+          ) : (
+            <>
+              <input
+                type="password"
+                inputMode="numeric"
+                autoFocus
+                value={pin}
+                onChange={(e) => setPin(digitsOnly(e.target.value))}
+                placeholder={`New PIN (${PIN_MIN_LENGTH}-${PIN_MAX_LENGTH} digits)`}
+                className={pinInputClass}
+              />
+              <input
+                type="password"
+                inputMode="numeric"
+                value={confirm}
+                onChange={(e) => setConfirm(digitsOnly(e.target.value))}
+                placeholder="Confirm PIN"
+                className={pinInputClass}
+              />
+            </>
+          )}
+
+          {error && <p className="text-xs text-red-400">{error}</p>}
+
+          {config ? (
+            <button
+              onClick={handleDisable}
+              disabled={isWorking || pin.length < PIN_MIN_LENGTH}
+              className="w-full py-3 rounded-full border border-red-500/30 text-red-400 text-xs font-bold uppercase tracking-widest active:scale-95 transition-transform disabled:opacity-50"
+            >
+              {isWorking ? 'Checking...' : 'Turn off app lock'}
+            </button>
+          ) : (
+            <button
+              onClick={handleEnable}
+              disabled={isWorking || !pin}
+              className="w-full py-3 rounded-full bg-cyan-500 text-black text-xs font-bold uppercase tracking-widest active:scale-95 transition-transform disabled:opacity-50"
+            >
+              {isWorking ? 'Saving...' : 'Turn on app lock'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AppLockSettings;
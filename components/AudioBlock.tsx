@@ -0,0 +1,103 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Block } from '../types';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { WAVEFORM_BARS, formatDuration } from '../services/audio';
+import { Play, Pause } from 'lucide-react';
+
+interface AudioBlockProps {
+  block: Block;
+  themeAccent: string;
+}
+
+// Clips added before their waveform could be computed get an even strip
+const FLAT_WAVEFORM = Array(WAVEFORM_BARS).fill(0.3);
+
+const AudioBlock: React.FC<AudioBlockProps> = ({ block, themeAccent }) => {
+  const url = useMediaUrl(block.content);
+  const audioRef = useRef<HTMLAudioElement>(null);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [position, setPosition] = useState(0);
+  const [duration, setDuration] = useState(block.duration || 0);
+
+  const waveform = block.waveform?.length ? block.waveform : FLAT_WAVEFORM;
+  const progress = duration > 0 ? Math.min(1, position / duration) : 0;
+
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    const handleTime = () => setPosition(audio.currentTime);
+    const handleEnded = () => { setIsPlaying(false); setPosition(0); };
+    // Recorded WebM often reports Infinity until played; the stored duration covers that
+    const handleMetadata = () => { if (Number.isFinite(audio.duration)) setDuration(audio.duration); };
+    audio.addEventListener('timeupdate', handleTime);
+    audio.addEventListener('ended', handleEnded);
+    audio.addEventListener('loadedmetadata', handleMetadata);
+    return () => {
+      audio.removeEventListener('timeupdate', handleTime);
+      audio.removeEventListener('ended', handleEnded);
+      audio.removeEventListener('loadedmetadata', handleMetadata);
+    };
+  }, [url]);
+
+  const togglePlay = () => {
+    const audio = audioRef.current;
+    if (!audio) return;
+    if (audio.paused) {
+      audio.play().then(() => setIsPlaying(true)).catch(e => console.warn('Audio playback failed', e));
+    } else {
+      audio.pause();
+      setIsPlaying(false);
+    }
+  };
+
+  const seek = (fraction: number) => {
+    const audio = audioRef.current;
+    if (!audio || !duration) return;
+    audio.currentTime = fraction * duration;
+    setPosition(audio.currentTime);
+  };
+
+  return (
+    <div
+      className="flex items-center gap-4 rounded-2xl bg-white/5 border border-white/10 px-4 py-3"
+      // Scrubbing must not start a block drag
+      onMouseDown={(e) => e.stopPropagation()}
+      onTouchStart={(e) => e.stopPropagation()}
+    >
+      <audio ref={audioRef} src={url || undefined} preload="metadata" />
+      <button
+        onClick={togglePlay}
+        disabled={!url}
+        className={`shrink-0 p-3 rounded-full bg-white/10 hover:bg-white/20 transition-colors disabled:opacity-30 ${themeAccent}`}
+      >
+        {isPlaying ? <Pause size={18} fill="currentColor" /> : <Play size={18} fill="currentColor" />}
+      </button>
+
+      <div className="relative flex-grow h-10 flex items-center gap-[2px]">
+        {waveform.map((peak, i) => (
+          <div
+            key={i}
+            className={`flex-1 rounded-full transition-colors ${i / waveform.length < progress ? `${themeAccent} bg-current` : 'bg-white/20'}`}
+            style={{ height: `${Math.max(8, peak * 100)}%` }}
+          />
+        ))}
+        <input
+          type="range"
+          min={0}
+          max={1}
+          step={0.001}
+          value={progress}
+          onChange={(e) => seek(Number(e.target.value))}
+          disabled={!duration}
+          className="absolute inset-0 w-full h-full opacity-0 cursor-pointer"
+        />
+      </div>
+
+      <span className="shrink-0 text-[10px] font-bold tracking-wider text-neutral-400 tabular-nums">
+        {isPlaying || position > 0 ? `${formatDuration(position)} / ` : ''}{formatDuration(duration)}
+      </span>
+    </div>
+  );
+};
+
+export default AudioBlock;
@@ -0,0 +1,134 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { formatDuration, pickRecordingType } from '../services/audio';
+import { X, Mic, Pause, Play, Square } from 'lucide-react';
+
+interface AudioRecorderProps {
+  onComplete: (recording: Blob) => void;
+  onClose: () => void;
+}
+
+type RecorderState = 'idle' | 'recording' | 'paused';
+
+const AudioRecorder: React.FC<AudioRecorderProps> = ({ onComplete, onClose }) => {
+  const [state, setState] = useState<RecorderState>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const recorderRef = useRef<MediaRecorder | null>(null);
+  const streamRef = useRef<MediaStream | null>(null);
+  const chunksRef = useRef<Blob[]>([]);
+  // Recorded time before the current run, plus when that run started
+  const clockRef = useRef({ banked: 0, since: 0 });
+
+  const releaseMicrophone = () => {
+    streamRef.current?.getTracks().forEach(track => track.stop());
+    streamRef.current = null;
+  };
+
+  // Closing mid-recording discards it and frees the microphone
+  useEffect(() => () => {
+    const recorder = recorderRef.current;
+    if (recorder && recorder.state !== 'inactive') {
+      recorder.onstop = null;
+      recorder.stop();
+    }
+    releaseMicrophone();
+  }, []);
+
+  useEffect(() => {
+    if (state !== 'recording') return;
+    const timer = setInterval(() => {
+      const { banked, since } = clockRef.current;
+      setElapsed(banked + (Date.now() - since) / 1000);
+    }, 250);
+    return () => clearInterval(timer);
+  }, [state]);
+
+  const start = async () => {
+    setError(null);
+    try {
+      const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+      streamRef.current = stream;
+      const type = pickRecordingType();
+      const recorder = new MediaRecorder(stream, type ? { mimeType: type } : undefined);
+      chunksRef.current = [];
+      recorder.ondataavailable = (e) => { if (e.data.size > 0) chunksRef.current.push(e.data); };
+      recorder.onstop = () => {
+        releaseMicrophone();
+        onComplete(new Blob(chunksRef.current, { type: recorder.mimeType || type || 'audio/webm' }));
+      };
+      recorder.start(1000);
+      recorderRef.current = recorder;
+      clockRef.current = { banked: 0, since: Date.now() };
+      setState('recording');
+    } catch (e) {
+      console.error("Audio Recorder Error", e);
+      releaseMicrophone();
+      setError(e instanceof DOMException && e.name === 'NotAllowedError'
+        ? 'Microphone access was denied'
+        : 'Recording is not available on this device');
+    }
+  };
+
+  const pause = () => {
+    recorderRef.current?.pause();
+    clockRef.current.banked += (Date.now() - clockRef.current.since) / 1000;
+    setElapsed(clockRef.current.banked);
+    setState('paused');
+  };
+
+  const resume = () => {
+    recorderRef.current?.resume();
+    clockRef.current.since = Date.now();
+    setState('recording');
+  };
+
+  const stop = () => recorderRef.current?.stop();
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/80 backdrop-blur-sm flex items-end sm:items-center justify-center animate-in fade-in duration-300">
+      <div className="w-full sm:max-w-md flex flex-col bg-[#111] border border-white/10 rounded-t-2xl sm:rounded-2xl shadow-2xl pb-[env(safe-area-inset-bottom)]">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-white/5">
+          <div className="flex items-center gap-2 text-cyan-400">
+            <Mic size={16} />
+            <span className="text-[10px] font-bold uppercase tracking-[0.2em]">Voice Memo</span>
+          </div>
+          <button onClick={onClose} className="p-2 -mr-2 text-neutral-500 hover:text-white transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-8 flex flex-col items-center gap-6">
+          <div className="flex items-center gap-3">
+            <span className={`w-2.5 h-2.5 rounded-full ${state === 'recording' ? 'bg-red-500 animate-pulse' : 'bg-neutral-700'}`} />
+            <span className="text-4xl font-light tracking-wider text-white tabular-nums">{formatDuration(elapsed)}</span>
+          </div>
+          <span className="text-[10px] uppercase tracking-widest text-neutral-500 font-bold">
+            {state === 'idle' ? 'Tap to record' : state === 'paused' ? 'Paused' : 'Recording'}
+          </span>
+
+          {state === 'idle' ? (
+            <button onClick={start} className="p-6 rounded-full bg-red-500 text-white shadow-[0_0_32px_rgba(239,68,68,0.4)] active:scale-95 transition-transform">
+              <Mic size={28} />
+            </button>
+          ) : (
+            <div className="flex items-center gap-6">
+              <button
+                onClick={state === 'recording' ? pause : resume}
+                className="p-4 rounded-full bg-white/10 text-white hover:bg-white/20 active:scale-95 transition-all"
+              >
+                {state === 'recording' ? <Pause size={22} /> : <Play size={22} />}
+              </button>
+              <button onClick={stop} className="p-6 rounded-full bg-cyan-500 text-black active:scale-95 transition-transform">
+                <Square size={24} fill="currentColor" />
+              </button>
+            </div>
+          )}
+
+          {error && <p className="text-xs text-red-400 text-center">{error}</p>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AudioRecorder;
@@ -1,14 +1,24 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { Block, DrawingPath } from '../types';
+import { Block, ChecklistItem, DrawingElement, Size, SketchAspect, SketchBackground } from '../types';
 import { Pencil, Maximize2, Trash2, GripVertical, ChevronUp, ChevronDown } from 'lucide-react';
 import DrawingCanvas from './DrawingCanvas';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { coverTransform, drawElements, drawingSpaceOf, drawingsInSpace, OVERLAY_STYLE } from '../services/drawing';
+import { FormatResult, InlineFormat, LineKind, insertLink, lineKindAt, toggleInline, toggleLineKind } from '../services/richText';
+import RichText from './RichText';
+import ChecklistBlock from './ChecklistBlock';
+import AudioBlock from './AudioBlock';
+import { DEFAULT_ASPECT, DEFAULT_BACKGROUND, SKETCH_ASPECTS, SKETCH_BACKGROUNDS, aspectRatio, drawSketchBackground, sketchSpace, storeSketchPreview } from '../services/sketch';
+import FormatToolbar from './FormatToolbar';
 
 interface BlockRenderProps {
   block: Block;
   index: number;
   isEditing: boolean;
   onUpdate: (id: string, content: string) => void;
-  onUpdateDrawings: (id: string, drawings: DrawingPath[]) => void;
+  onUpdateDrawings: (id: string, drawings: DrawingElement[], drawingSpace: Size, width: number, height: number) => void;
+  onUpdateChecklist: (id: string, items: ChecklistItem[], collapseChecked: boolean) => void;
+  onUpdateSketch: (id: string, changes: Partial<Block>) => void;
   onDelete: (id: string) => void;
   onDragStart: (e: React.DragEvent<HTMLDivElement>, position: number) => void;
   onDragEnter: (e: React.DragEvent<HTMLDivElement>, position: number) => void;
@@ -19,12 +29,21 @@ interface BlockRenderProps {
   isLast: boolean;
 }
 
+const BACKGROUND_LABELS: Record<SketchBackground, string> = {
+  transparent: 'None',
+  surface: 'Fill',
+  grid: 'Grid',
+  dots: 'Dots',
+};
+
 export const BlockRender: React.FC<BlockRenderProps> = ({ 
   block, 
   index,
   isEditing, 
   onUpdate, 
   onUpdateDrawings,
+  onUpdateChecklist,
+  onUpdateSketch,
   onDelete, 
   onDragStart,
   onDragEnter,
@@ -37,9 +56,21 @@ export const BlockRender: React.FC<BlockRenderProps> = ({
   const [isDrawingMode, setIsDrawingMode] = useState(false);
   const containerRef = useRef<HTMLDivElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const backgroundRef = useRef<HTMLCanvasElement>(null);
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const videoRef = useRef<HTMLVideoElement>(null);
   const [isDragging, setIsDragging] = useState(false);
+  const mediaUrl = useMediaUrl(block.type === 'image' || block.type === 'video' ? block.content : null);
+  // Intrinsic size of the loaded image or video
+  const [mediaSize, setMediaSize] = useState<Size | null>(null);
+  // The frame's CSS size and pixel density, tracked so drawings follow rotation, breakpoints and zoom
+  const [frame, setFrame] = useState<{ width: number; height: number; dpr: number } | null>(null);
+
+  // Text blocks show their Markdown source while focused and the formatted text otherwise
+  const [isTextFocused, setIsTextFocused] = useState(false);
+  const [caret, setCaret] = useState(0);
+  const pendingSelection = useRef<FormatResult | null>(null);
+  const showSource = isEditing && (isTextFocused || !block.content.trim());
 
   // Auto-resize textarea
   useEffect(() => {
@@ -47,7 +78,24 @@ export const BlockRender: React.FC<BlockRenderProps> = ({
       textareaRef.current.style.height = 'auto';
       textareaRef.current.style.height = textareaRef.current.scrollHeight + 'px';
     }
-  }, [block.content, block.type]);
+  }, [block.content, block.type, showSource]);
+
+  // Entering from the formatted view focuses the source with the caret at the end
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!isTextFocused || !textarea || document.activeElement === textarea) return;
+    textarea.focus();
+    textarea.setSelectionRange(textarea.value.length, textarea.value.length);
+  }, [isTextFocused]);
+
+  // Restore the selection a toolbar action asked for once its content has rendered
+  useEffect(() => {
+    const selection = pendingSelection.current;
+    if (!selection || !textareaRef.current) return;
+    pendingSelection.current = null;
+    textareaRef.current.setSelectionRange(selection.start, selection.end);
+    setCaret(selection.start);
+  }, [block.content]);
 
   // Video Autoplay when Visible (Intersection Observer)
   useEffect(() => {
@@ -72,55 +120,102 @@ export const BlockRender: React.FC<BlockRenderProps> = ({
     }
   }, [block.type]);
 
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const measure = () => setFrame({ width: container.offsetWidth, height: container.offsetHeight, dpr: window.devicePixelRatio || 1 });
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(container);
+    // Zoom and moving to another screen change the density without resizing the frame
+    window.addEventListener('resize', measure);
+    return () => {
+      observer.disconnect();
+      window.removeEventListener('resize', measure);
+    };
+  }, [block.type]);
+
+  // What the block shows, in the units drawingsInSpace expects. Until media has loaded,
+  // older drawings fall back to the frame they were drawn in, which maps them unchanged.
+  const getMediaSpace = (): Size => {
+    if (block.type === 'sketch') return sketchSpace(block.aspect);
+    if (block.drawingSpace) return block.drawingSpace;
+    if (mediaSize?.width && mediaSize.height) return mediaSize;
+    if (block.width && block.height) return { width: block.width, height: block.height };
+    return { width: frame?.width || 1, height: frame?.height || 1 };
+  };
+
   // Render Drawings on read-only canvas (High DPI supported)
   useEffect(() => {
-    if ((block.type === 'image' || block.type === 'video') && canvasRef.current && block.drawings && !isDrawingMode) {
+    if ((block.type === 'image' || block.type === 'video' || block.type === 'sketch') && canvasRef.current && block.drawings && !isDrawingMode && frame) {
       const canvas = canvasRef.current;
       const ctx = canvas.getContext('2d');
       if (!ctx) return;
 
-      // Handle DPI scaling
-      const dpr = window.devicePixelRatio || 1;
-      const rect = containerRef.current?.getBoundingClientRect();
-      const width = rect?.width || canvas.clientWidth;
-      const height = rect?.height || canvas.clientHeight;
-      
       // Set resolution matches physical pixels
-      canvas.width = width * dpr;
-      canvas.height = height * dpr;
+      canvas.width = frame.width * frame.dpr;
+      canvas.height = frame.height * frame.dpr;
 
-      // Scale context
-      ctx.scale(dpr, dpr);
-      
-      ctx.clearRect(0, 0, width, height);
-      ctx.lineCap = 'round';
-      ctx.lineJoin = 'round';
+      // Map the drawing space onto the frame the way the media is fitted into it
+      const media = getMediaSpace();
+      const t = coverTransform(drawingSpaceOf(block, media), frame);
+      ctx.setTransform(frame.dpr * t.scale, 0, 0, frame.dpr * t.scale, frame.dpr * t.x, frame.dpr * t.y);
+      drawElements(ctx, drawingsInSpace(block, media), OVERLAY_STYLE);
+    }
+  }, [block.drawings, block.drawingSpace, block.width, block.height, block.aspect, block.type, isDrawingMode, frame, mediaSize]);
 
-      block.drawings.forEach(path => {
-        if (path.points.length < 2) return;
-        
-        if (path.color === 'eraser') {
-            ctx.globalCompositeOperation = 'destination-out';
-            ctx.lineWidth = path.width * 2;
-        } else {
-            ctx.globalCompositeOperation = 'source-over';
-            ctx.strokeStyle = path.color;
-            ctx.lineWidth = path.width;
-            ctx.shadowBlur = 4;
-            ctx.shadowColor = path.color;
-        }
+  // Sketch background lives on its own canvas so the eraser only ever removes ink
+  useEffect(() => {
+    const canvas = backgroundRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (block.type !== 'sketch' || !canvas || !ctx) return;
+    const dpr = window.devicePixelRatio || 1;
+    const width = canvas.clientWidth;
+    const height = canvas.clientHeight;
+    canvas.width = width * dpr;
+    canvas.height = height * dpr;
+    ctx.scale(dpr, dpr);
+    drawSketchBackground(ctx, block.background || DEFAULT_BACKGROUND, width, height);
+  }, [block.type, block.background, block.aspect, frame]);
 
-        ctx.beginPath();
-        ctx.moveTo(path.points[0].x, path.points[0].y);
-        for (let i = 1; i < path.points.length; i++) {
-          ctx.lineTo(path.points[i].x, path.points[i].y);
-        }
-        ctx.stroke();
-        ctx.shadowBlur = 0;
-        ctx.globalCompositeOperation = 'source-over';
-      });
+  // Every sketch change re-renders the stored preview used for Home covers
+  const saveSketch = async (changes: Partial<Block>) => {
+    let content = block.content;
+    try {
+      content = await storeSketchPreview({ ...block, ...changes });
+    } catch (e) {
+      console.warn("Sketch preview failed", block.id, e);
     }
-  }, [block.drawings, block.type, isDrawingMode]);
+    onUpdateSketch(block.id, { ...changes, content });
+  };
+
+  // Older sketches move into the sketch space first; in it the ink keeps its place
+  const handleAspectChange = (aspect: SketchAspect) => {
+    const width = containerRef.current?.offsetWidth || block.width || 0;
+    const drawings = drawingsInSpace(block, sketchSpace(block.aspect));
+    saveSketch({ aspect, width, height: width / aspectRatio(aspect), drawings, drawingSpace: sketchSpace(aspect) });
+  };
+
+  // Drawing mode always edits in the block's own space; saving records it with the frame size
+  const renderDrawingCanvas = (onSave: (drawings: DrawingElement[], drawingSpace: Size, width: number, height: number) => void) => {
+    const container = containerRef.current;
+    if (!container) return null;
+    const media = getMediaSpace();
+    const space = drawingSpaceOf(block, media);
+    return (
+      <DrawingCanvas
+        space={space}
+        width={container.offsetWidth}
+        height={container.offsetHeight}
+        initialDrawings={drawingsInSpace(block, media)}
+        onSave={(drawings) => {
+            onSave(drawings, space, container.offsetWidth, container.offsetHeight);
+            setIsDrawingMode(false);
+        }}
+        onCancel={() => setIsDrawingMode(false)}
+      />
+    );
+  };
 
   const handleDragStartInternal = (e: React.DragEvent<HTMLDivElement>) => {
       setIsDragging(true);
@@ -132,37 +227,145 @@ export const BlockRender: React.FC<BlockRenderProps> = ({
       onDragEnd(e);
   };
 
+  const applyFormat = (format: (content: string, start: number, end: number) => FormatResult) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const result = format(block.content, textarea.selectionStart, textarea.selectionEnd);
+    pendingSelection.current = result;
+    onUpdate(block.id, result.content);
+  };
+
   // Content Renderer
   const renderContent = () => {
     if (block.type === 'text') {
+        const textClass = `w-full text-lg leading-relaxed font-light tracking-wide transition-all duration-300 ${isEditing ? 'border-l-2 border-white/10 pl-4' : 'pl-0'}`;
+        if (!showSource) {
+            return (
+                <div
+                    onClick={() => isEditing && setIsTextFocused(true)}
+                    className={`${textClass} whitespace-pre-wrap break-words ${isEditing ? 'cursor-text' : ''}`}
+                >
+                    <RichText content={block.content} themeAccent={themeAccent} />
+                </div>
+            );
+        }
         return (
-            <textarea
-                ref={textareaRef}
-                value={block.content}
-                onChange={(e) => onUpdate(block.id, e.target.value)}
-                placeholder="Start writing..."
-                // Prevent drag start when selecting text
-                onMouseDown={(e) => e.stopPropagation()} 
-                onTouchStart={(e) => e.stopPropagation()}
-                className={`w-full bg-transparent resize-none outline-none text-lg leading-relaxed font-light tracking-wide placeholder-white/20 transition-all duration-300 ${isEditing ? 'border-l-2 border-white/10 pl-4' : 'pl-0'}`}
-                style={{ minHeight: '1.5em' }}
+            <div className="relative">
+                {isTextFocused && (
+                    <div className="absolute bottom-full left-0 right-0 mb-2 z-20 flex">
+                        <FormatToolbar
+                            lineKind={lineKindAt(block.content, caret)}
+                            onInline={(format: InlineFormat) => applyFormat((c, s, e) => toggleInline(c, s, e, format))}
+                            onLink={() => applyFormat(insertLink)}
+                            onLineKind={(kind: Exclude<LineKind, 'paragraph'>) => applyFormat((c, s, e) => toggleLineKind(c, s, e, kind))}
+                        />
+                    </div>
+                )}
+                <textarea
+                    ref={textareaRef}
+                    value={block.content}
+                    onChange={(e) => onUpdate(block.id, e.target.value)}
+                    onSelect={(e) => setCaret(e.currentTarget.selectionStart)}
+                    onFocus={() => setIsTextFocused(true)}
+                    onBlur={() => setIsTextFocused(false)}
+                    placeholder="Start writing..."
+                    // Prevent drag start when selecting text
+                    onMouseDown={(e) => e.stopPropagation()} 
+                    onTouchStart={(e) => e.stopPropagation()}
+                    className={`${textClass} bg-transparent resize-none outline-none placeholder-white/20`}
+                    style={{ minHeight: '1.5em' }}
+                />
+            </div>
+        );
+    }
+
+    if (block.type === 'checklist') {
+        return (
+            <ChecklistBlock
+                block={block}
+                isEditing={isEditing}
+                themeAccent={themeAccent}
+                onChange={(items, collapseChecked) => onUpdateChecklist(block.id, items, collapseChecked)}
             />
         );
     }
 
+    if (block.type === 'sketch') {
+        const background = block.background || DEFAULT_BACKGROUND;
+        return (
+          <div className="flex flex-col gap-2">
+            <div
+              ref={containerRef}
+              className={`relative w-full rounded-sm overflow-hidden select-none ${isEditing && !isDrawingMode ? 'cursor-crosshair' : ''}`}
+              style={{ aspectRatio: aspectRatio(block.aspect) }}
+              onClick={() => isEditing && !isDrawingMode && setIsDrawingMode(true)}
+            >
+              <canvas ref={backgroundRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+              {!isDrawingMode && (
+                  <canvas
+                    ref={canvasRef}
+                    className="absolute inset-0 pointer-events-none w-full h-full"
+                    style={{ width: '100%', height: '100%' }}
+                  />
+              )}
+              {isEditing && !isDrawingMode && !block.drawings?.length && (
+                  <div className="absolute inset-0 flex items-center justify-center gap-2 text-[10px] font-bold uppercase tracking-[0.2em] text-white/30 pointer-events-none">
+                    <Pencil size={14} /> Tap to sketch
+                  </div>
+              )}
+              {isDrawingMode && renderDrawingCanvas((drawings, drawingSpace, width, height) => saveSketch({ drawings, drawingSpace, width, height }))}
+            </div>
+
+            {isEditing && !isDrawingMode && (
+              <div className="flex flex-wrap items-center gap-1.5 opacity-0 group-hover:opacity-100 focus-within:opacity-100 transition-opacity">
+                {SKETCH_ASPECTS.map(aspect => (
+                    <button
+                      key={aspect}
+                      onClick={() => handleAspectChange(aspect)}
+                      className={`px-2.5 py-1 rounded-full border text-[10px] font-bold tracking-wider transition-colors ${(block.aspect || DEFAULT_ASPECT) === aspect ? 'border-cyan-400/50 bg-cyan-400/10 text-cyan-400' : 'border-white/10 bg-[#141414] text-neutral-400 hover:text-white'}`}
+                    >
+                        {aspect}
+                    </button>
+                ))}
+                <div className="w-px h-4 bg-white/10 mx-1" />
+                {SKETCH_BACKGROUNDS.map(option => (
+                    <button
+                      key={option}
+                      onClick={() => saveSketch({ background: option })}
+                      className={`px-2.5 py-1 rounded-full border text-[10px] font-bold uppercase tracking-wider transition-colors ${background === option ? 'border-cyan-400/50 bg-cyan-400/10 text-cyan-400' : 'border-white/10 bg-[#141414] text-neutral-400 hover:text-white'}`}
+                    >
+                        {BACKGROUND_LABELS[option]}
+                    </button>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+    }
+
+    if (block.type === 'audio') {
+        return <AudioBlock block={block} themeAccent={themeAccent} />;
+    }
+
     if (block.type === 'image' || block.type === 'video') {
         return (
           <div className="relative w-full rounded-sm overflow-hidden shadow-lg bg-neutral-900 aspect-square sm:aspect-video transition-transform duration-500 select-none" ref={containerRef}>
             {block.type === 'image' ? (
-               <img src={block.content} alt="Note asset" className="w-full h-full object-cover" />
+               <img
+                 src={mediaUrl || undefined}
+                 alt="Note asset"
+                 onLoad={(e) => setMediaSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+                 className="w-full h-full object-cover"
+               />
             ) : (
                <video 
                  ref={videoRef}
-                 src={block.content} 
+                 src={mediaUrl || undefined} 
                  controls={false} 
                  muted 
                  playsInline 
                  loop 
+                 onLoadedMetadata={(e) => setMediaSize({ width: e.currentTarget.videoWidth, height: e.currentTarget.videoHeight })}
                  className="w-full h-full object-cover" 
                />
             )}
@@ -189,18 +392,7 @@ export const BlockRender: React.FC<BlockRenderProps> = ({
             )}
             
             {/* Drawing Mode Overlay (Absolute position inside this relative container) */}
-            {isDrawingMode && containerRef.current && (
-               <DrawingCanvas
-                  width={containerRef.current.offsetWidth}
-                  height={containerRef.current.offsetHeight}
-                  initialPaths={block.drawings || []}
-                  onSave={(paths) => {
-                      onUpdateDrawings(block.id, paths);
-                      setIsDrawingMode(false);
-                  }}
-                  onCancel={() => setIsDrawingMode(false)}
-               />
-            )}
+            {isDrawingMode && renderDrawingCanvas((drawings, drawingSpace, width, height) => onUpdateDrawings(block.id, drawings, drawingSpace, width, height))}
           </div>
         );
     }
@@ -0,0 +1,178 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Block, ChecklistItem } from '../types';
+import { generateId } from '../utils';
+import { Square, CheckSquare, ChevronUp, ChevronDown, ListIndentIncrease, ListIndentDecrease, X, Plus, ListChecks } from 'lucide-react';
+
+interface ChecklistBlockProps {
+  block: Block;
+  isEditing: boolean;
+  themeAccent: string;
+  onChange: (items: ChecklistItem[], collapseChecked: boolean) => void;
+}
+
+export const createChecklistItem = (indent = 0): ChecklistItem => ({ id: generateId(), text: '', checked: false, indent });
+
+const ChecklistBlock: React.FC<ChecklistBlockProps> = ({ block, isEditing, themeAccent, onChange }) => {
+  const items = block.items || [];
+  const collapseChecked = !!block.collapseChecked;
+  const [showCompleted, setShowCompleted] = useState(false);
+  const inputRefs = useRef(new Map<string, HTMLInputElement>());
+  const focusAfterRender = useRef<string | null>(null);
+
+  // Collapsed lists show open items in order, then the completed ones
+  const open = collapseChecked ? items.filter(item => !item.checked) : items;
+  const completed = collapseChecked ? items.filter(item => item.checked) : [];
+  const done = items.filter(item => item.checked).length;
+
+  useEffect(() => {
+    const id = focusAfterRender.current;
+    if (!id) return;
+    focusAfterRender.current = null;
+    inputRefs.current.get(id)?.focus();
+  }, [items]);
+
+  const setItems = (next: ChecklistItem[]) => onChange(next, collapseChecked);
+
+  const updateItem = (id: string, patch: Partial<ChecklistItem>) =>
+    setItems(items.map(item => item.id === id ? { ...item, ...patch } : item));
+
+  const insertAfter = (id: string | null, indent = 0) => {
+    const item = createChecklistItem(indent);
+    const index = id ? items.findIndex(i => i.id === id) + 1 : items.length;
+    focusAfterRender.current = item.id;
+    setItems([...items.slice(0, index), item, ...items.slice(index)]);
+  };
+
+  const removeItem = (id: string, focusPrevious = false) => {
+    const index = items.findIndex(item => item.id === id);
+    if (focusPrevious && index > 0) focusAfterRender.current = items[index - 1].id;
+    setItems(items.filter(item => item.id !== id));
+  };
+
+  // An item can only be indented under one above it
+  const setIndent = (id: string, indent: number) => {
+    if (indent === 1 && items[0]?.id === id) return;
+    updateItem(id, { indent });
+  };
+
+  // Reorders within the visible group, so a collapsed list never swaps across the fold
+  const moveItem = (id: string, direction: -1 | 1) => {
+    const group = open.some(item => item.id === id) ? open : completed;
+    const position = group.findIndex(item => item.id === id);
+    const neighbour = group[position + direction];
+    if (!neighbour) return;
+    const from = items.findIndex(item => item.id === id);
+    const to = items.findIndex(item => item.id === neighbour.id);
+    const next = [...items];
+    [next[from], next[to]] = [next[to], next[from]];
+    setItems(next);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>, item: ChecklistItem) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      insertAfter(item.id, item.indent);
+    } else if (e.key === 'Backspace' && !item.text) {
+      e.preventDefault();
+      if (item.indent) setIndent(item.id, 0);
+      else removeItem(item.id, true);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      setIndent(item.id, e.shiftKey ? 0 : 1);
+    }
+  };
+
+  const renderItem = (item: ChecklistItem, group: ChecklistItem[], position: number) => (
+    <div key={item.id} className={`group/item flex items-center gap-3 ${item.indent ? 'ml-8' : ''}`}>
+      <button
+        onClick={() => updateItem(item.id, { checked: !item.checked })}
+        disabled={!isEditing}
+        className={`shrink-0 transition-colors ${item.checked ? themeAccent : 'text-white/30 hover:text-white/60'}`}
+      >
+        {item.checked ? <CheckSquare size={20} strokeWidth={1.5} /> : <Square size={20} strokeWidth={1.5} />}
+      </button>
+      <input
+        ref={(el) => { if (el) inputRefs.current.set(item.id, el); else inputRefs.current.delete(item.id); }}
+        type="text"
+        value={item.text}
+        readOnly={!isEditing}
+        onChange={(e) => updateItem(item.id, { text: e.target.value })}
+        onKeyDown={(e) => handleKeyDown(e, item)}
+        placeholder="List item"
+        className={`flex-grow min-w-0 bg-transparent outline-none text-lg font-light tracking-wide placeholder-white/20 transition-colors ${item.checked ? 'line-through text-white/40' : 'text-white'}`}
+      />
+      {isEditing && (
+        <div className="flex items-center gap-0.5 shrink-0 opacity-0 group-hover/item:opacity-100 focus-within:opacity-100 transition-opacity">
+          <button
+            onClick={() => setIndent(item.id, item.indent ? 0 : 1)}
+            className="p-1 text-white/20 hover:text-white/80"
+          >
+            {item.indent ? <ListIndentDecrease size={14} /> : <ListIndentIncrease size={14} />}
+          </button>
+          {position > 0 && (
+            <button onClick={() => moveItem(item.id, -1)} className="p-1 text-white/20 hover:text-white/80">
+              <ChevronUp size={14} />
+            </button>
+          )}
+          {position < group.length - 1 && (
+            <button onClick={() => moveItem(item.id, 1)} className="p-1 text-white/20 hover:text-white/80">
+              <ChevronDown size={14} />
+            </button>
+          )}
+          <button onClick={() => removeItem(item.id)} className="p-1 text-red-500/30 hover:text-red-500 transition-colors">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+    </div>
+  );
+
+  return (
+    // Keeps text selection inside inputs from starting a block drag
+    <div
+      className={`flex flex-col gap-2 ${isEditing ? 'border-l-2 border-white/10 pl-4' : ''}`}
+      onMouseDown={(e) => e.stopPropagation()}
+      onTouchStart={(e) => e.stopPropagation()}
+    >
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-2 text-[10px] uppercase tracking-widest text-neutral-500 font-bold">
+          <ListChecks size={12} /> {done}/{items.length}
+        </span>
+        {isEditing && (
+          <button
+            onClick={() => onChange(items, !collapseChecked)}
+            className={`text-[10px] uppercase tracking-widest font-bold transition-colors ${collapseChecked ? themeAccent : 'text-neutral-600 hover:text-neutral-400'}`}
+          >
+            Collapse completed
+          </button>
+        )}
+      </div>
+
+      {open.map((item, position) => renderItem(item, open, position))}
+
+      {isEditing && (
+        <button
+          onClick={() => insertAfter(null)}
+          className="flex items-center gap-3 text-white/20 hover:text-white/60 transition-colors"
+        >
+          <Plus size={20} strokeWidth={1.5} />
+          <span className="text-lg font-light tracking-wide">Add item</span>
+        </button>
+      )}
+
+      {completed.length > 0 && (
+        <>
+          <button
+            onClick={() => setShowCompleted(!showCompleted)}
+            className="flex items-center gap-2 mt-1 text-[10px] uppercase tracking-widest text-neutral-500 hover:text-neutral-300 font-bold transition-colors"
+          >
+            {showCompleted ? <ChevronUp size={12} /> : <ChevronDown size={12} />} {completed.length} completed
+          </button>
+          {showCompleted && completed.map((item, position) => renderItem(item, completed, position))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ChecklistBlock;
@@ -1,25 +1,87 @@
 import React, { useRef, useState, useEffect } from 'react';
-import { DrawingPath, Point } from '../types';
+import { DrawingElement, DrawingLabel, Point, ShapeKind, Size } from '../types';
 import { NEON_COLORS } from '../constants';
-import { Eraser, Undo, X, Check, Palette } from 'lucide-react';
+import { applySimilarity, applyTransform, constrainEnd, coverTransform, drawElements, DrawStyle, elementBounds, hitTest, isEraserPath, isInLasso, simplifyPoints, Similarity, LABEL_LINE_HEIGHT, LABEL_SIZES, labelFont, SHAPE_KINDS } from '../services/drawing';
+import { useUndoHistory } from '../hooks/useUndoHistory';
+import { Eraser, Undo, Redo, X, Check, Palette, Minus, MoveUpRight, Square, Circle, Type, Magnet, MousePointer2, RotateCw, Scaling, Trash2 } from 'lucide-react';
+
+// Stronger glow and a wider eraser while editing
+const EDITOR_STYLE: DrawStyle = { glow: 8, eraserScale: 4 };
+
+type Tool = 'select' | 'pen' | 'eraser' | ShapeKind | 'text';
+
+// Pixel erasing paints an eraser stroke; object erasing removes whatever it touches
+type EraserMode = 'pixel' | 'object';
+
+const ERASER_MODES: { mode: EraserMode; label: string }[] = [
+  { mode: 'pixel', label: 'Pixel' },
+  { mode: 'object', label: 'Object' },
+];
+
+// What the pointer that is down is doing. Transforms replay on the elements as they were
+// when the gesture began, so a drag is one undo step however long it runs.
+type Gesture =
+  | { kind: 'draw' }
+  | { kind: 'lasso' }
+  | { kind: 'erase'; key: string; last: Point }
+  | { kind: 'move' | 'scale' | 'rotate'; key: string; start: Point; pivot: Point; indices: number[]; originals: DrawingElement[] };
+
+const SHAPE_ICONS: Record<ShapeKind, React.ElementType> = {
+  line: Minus,
+  arrow: MoveUpRight,
+  rect: Square,
+  ellipse: Circle,
+};
+
+const SIZE_LABELS = ['S', 'M', 'L'];
+
+const MIN_BRUSH = 1;
+const MAX_BRUSH = 24;
+
+// How near a tap must land to pick an element, and the smallest a selection scales to
+const HIT_SLOP = 8;
+const MIN_SCALE = 0.1;
 
 interface DrawingCanvasProps {
-  initialPaths: DrawingPath[];
-  onSave: (paths: DrawingPath[]) => void;
+  initialDrawings: DrawingElement[]; // in `space` coordinates
+  onSave: (drawings: DrawingElement[]) => void;
   onCancel: () => void;
-  width: number;
+  space: Size;   // the block's drawing space, shown object-cover in the frame
+  width: number; // frame size in CSS pixels
   height: number;
 }
 
-const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ initialPaths, onSave, onCancel, width, height }) => {
+const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ initialDrawings, onSave, onCancel, space, width, height }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
-  const [paths, setPaths] = useState<DrawingPath[]>(initialPaths);
+  const history = useUndoHistory<DrawingElement[]>(initialDrawings);
+  const elements = history.value;
   const [isDrawing, setIsDrawing] = useState(false);
+  // Pen and eraser: the stroke so far. Shapes: start and (constrained) end point.
   const [currentPoints, setCurrentPoints] = useState<Point[]>([]);
   const [selectedColor, setSelectedColor] = useState(NEON_COLORS[0]);
-  const [tool, setTool] = useState<'pen' | 'eraser'>('pen');
-  const [brushSize] = useState(3);
+  const [tool, setTool] = useState<Tool>('pen');
+  const [eraserMode, setEraserMode] = useState<EraserMode>('pixel');
+  // Indices into `elements`; cleared whenever the list is replaced wholesale
+  const [selection, setSelection] = useState<number[]>([]);
+  const [shapeKind, setShapeKind] = useState<ShapeKind>('arrow');
+  const [constrain, setConstrain] = useState(false);
+  const [labelSize, setLabelSize] = useState(LABEL_SIZES[1]);
+  const [pendingLabel, setPendingLabel] = useState<{ at: Point; text: string } | null>(null);
+  const [brushSize, setBrushSize] = useState(3);
+  const [opacity, setOpacity] = useState(1);
   const [showColorPicker, setShowColorPicker] = useState(false);
+  // The pointer drawing the current stroke; other fingers are ignored until it lifts
+  const pointerRef = useRef<number | null>(null);
+  const gestureRef = useRef<Gesture | null>(null);
+  // Numbers each gesture so its updates coalesce into one undo step
+  const sessionRef = useRef(0);
+  // Committed drawings rendered once per change; live input is drawn over a copy
+  const cacheRef = useRef<HTMLCanvasElement | null>(null);
+
+  const isShapeTool = SHAPE_KINDS.includes(tool as ShapeKind);
+  // Space to frame. Everything is stored in space units, so brush and label sizes picked
+  // in CSS pixels are divided by its scale.
+  const view = coverTransform(space, { width, height });
 
   // High DPI Setup
   useEffect(() => {
@@ -27,176 +89,388 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ initialPaths, onSave, onC
     if (!canvas) return;
 
     const dpr = window.devicePixelRatio || 1;
-    
+
     // Set actual size in memory (scaled to account for extra pixel density)
     canvas.width = width * dpr;
     canvas.height = height * dpr;
-    
-    // Normalize coordinate system to use css pixels
+
+    const cache = cacheRef.current || (cacheRef.current = document.createElement('canvas'));
+    cache.width = canvas.width;
+    cache.height = canvas.height;
+    const cacheCtx = cache.getContext('2d');
+    if (cacheCtx) {
+      // Map space coordinates to physical pixels
+      cacheCtx.setTransform(dpr * view.scale, 0, 0, dpr * view.scale, dpr * view.x, dpr * view.y);
+      drawElements(cacheCtx, elements, EDITOR_STYLE);
+    }
     const ctx = canvas.getContext('2d');
-    if (ctx) ctx.scale(dpr, dpr);
+    if (ctx) ctx.setTransform(dpr * view.scale, 0, 0, dpr * view.scale, dpr * view.x, dpr * view.y);
 
-    // Initial render of existing paths
     renderCanvas();
-  }, [width, height, paths]); // Re-render when size or paths change
+  }, [width, height, space.width, space.height, elements]); // Re-render when size or drawings change
 
-  const renderCanvas = () => {
+  const renderCanvas = (draft?: DrawingElement) => {
     const canvas = canvasRef.current;
     if (!canvas) return;
     const ctx = canvas.getContext('2d');
     if (!ctx) return;
-    
+
     // Clear the canvas (use scaled dimensions to clear everything)
     ctx.save();
     ctx.setTransform(1, 0, 0, 1, 0, 0);
     ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (cacheRef.current) ctx.drawImage(cacheRef.current, 0, 0);
     ctx.restore();
 
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-
-    paths.forEach(path => {
-      if (path.points.length < 2) return;
-      
-      if (path.color === 'eraser') {
-          ctx.globalCompositeOperation = 'destination-out';
-          ctx.lineWidth = path.width * 4;
-      } else {
-          ctx.globalCompositeOperation = 'source-over';
-          ctx.strokeStyle = path.color;
-          ctx.shadowBlur = 8;
-          ctx.shadowColor = path.color;
-          ctx.lineWidth = path.width;
-      }
+    if (draft) drawElements(ctx, [draft], EDITOR_STYLE);
+  };
 
-      ctx.beginPath();
-      ctx.moveTo(path.points[0].x, path.points[0].y);
-      for (let i = 1; i < path.points.length; i++) {
-        ctx.lineTo(path.points[i].x, path.points[i].y);
-      }
-      ctx.stroke();
-      ctx.shadowBlur = 0;
-      ctx.globalCompositeOperation = 'source-over';
-    });
+  const draftElement = (points: Point[]): DrawingElement => {
+    const strokeWidth = brushSize / view.scale;
+    const style = tool === 'eraser'
+      ? { color: 'eraser', width: strokeWidth }
+      : { color: selectedColor, width: strokeWidth, ...(opacity < 1 && { opacity }) };
+    return isShapeTool
+      ? { kind: tool as ShapeKind, from: points[0], to: points[1], ...style }
+      : { points, ...style };
+  };
+
+  // Lasso outline, dashed over the committed drawings
+  const renderLasso = (points: Point[]) => {
+    renderCanvas();
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!ctx) return;
+    ctx.save();
+    ctx.lineWidth = 1.5 / view.scale;
+    ctx.setLineDash([6 / view.scale, 4 / view.scale]);
+    ctx.strokeStyle = 'rgba(34, 211, 238, 0.8)';
+    ctx.beginPath();
+    points.forEach((p, i) => i === 0 ? ctx.moveTo(p.x, p.y) : ctx.lineTo(p.x, p.y));
+    ctx.closePath();
+    ctx.stroke();
+    ctx.restore();
   };
 
-  // Render current stroke (live)
+  // Render current stroke (live), smoothed the same way it will be saved
   useEffect(() => {
     if (!isDrawing || currentPoints.length < 2) return;
+    const gesture = gestureRef.current;
+    if (gesture?.kind === 'lasso') renderLasso(currentPoints);
+    else if (gesture?.kind === 'draw') renderCanvas(draftElement(currentPoints));
+  }, [currentPoints, isDrawing]);
+
+  const getPoint = (e: PointerEvent): Point => {
     const canvas = canvasRef.current;
-    const ctx = canvas?.getContext('2d');
-    if (!ctx) return;
+    if (!canvas) return { x: 0, y: 0 };
+    const rect = canvas.getBoundingClientRect();
+    const point: Point = {
+      x: (e.clientX - rect.left - view.x) / view.scale,
+      y: (e.clientY - rect.top - view.y) / view.scale,
+    };
+    // Only a stylus reports real pressure; mice and fingers draw an even line
+    if (e.pointerType === 'pen') {
+      point.pressure = e.pressure;
+      point.tiltX = e.tiltX;
+      point.tiltY = e.tiltY;
+    }
+    return point;
+  };
 
-    const lastPoint = currentPoints[currentPoints.length - 2];
-    const newPoint = currentPoints[currentPoints.length - 1];
+  const buildLabel = (): DrawingLabel | null =>
+    pendingLabel && pendingLabel.text.trim()
+      ? { kind: 'text', at: pendingLabel.at, text: pendingLabel.text.trim(), color: selectedColor, fontSize: labelSize / view.scale }
+      : null;
 
-    ctx.lineCap = 'round';
-    ctx.lineJoin = 'round';
-    
-    if (tool === 'eraser') {
-        ctx.globalCompositeOperation = 'destination-out';
-        ctx.lineWidth = brushSize * 4;
-    } else {
-        ctx.globalCompositeOperation = 'source-over';
-        ctx.strokeStyle = selectedColor;
-        ctx.shadowBlur = 8;
-        ctx.shadowColor = selectedColor;
-        ctx.lineWidth = brushSize;
+  const commitLabel = () => {
+    const label = buildLabel();
+    if (label) history.update(prev => [...prev, label]);
+    setPendingLabel(null);
+  };
+
+  const selectTool = (next: Tool) => {
+    commitLabel();
+    setSelection([]);
+    setTool(next);
+  };
+
+  // --- Selection ---
+
+  const selectionBounds = tool === 'select' ? elementBounds(selection.map(i => elements[i]).filter(Boolean)) : null;
+
+  // Topmost element under the point; eraser strokes can't be picked
+  const elementAt = (point: Point): number => {
+    const tolerance = HIT_SLOP / view.scale;
+    for (let i = elements.length - 1; i >= 0; i--) {
+      if (!isEraserPath(elements[i]) && hitTest(elements[i], point, tolerance)) return i;
     }
+    return -1;
+  };
 
-    ctx.beginPath();
-    ctx.moveTo(lastPoint.x, lastPoint.y);
-    ctx.lineTo(newPoint.x, newPoint.y);
-    ctx.stroke();
-    
-    ctx.shadowBlur = 0;
-    ctx.globalCompositeOperation = 'source-over';
-  }, [currentPoints, isDrawing, selectedColor, tool, brushSize]);
+  const startTransform = (kind: 'move' | 'scale' | 'rotate', start: Point, indices: number[]) => {
+    const bounds = elementBounds(indices.map(i => elements[i]));
+    if (!bounds) return;
+    gestureRef.current = {
+      kind,
+      key: `${kind}:${++sessionRef.current}`,
+      start,
+      pivot: { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 },
+      indices,
+      originals: elements,
+    };
+  };
 
+  // Drag inside the selection moves it; a tap on ink picks it; anywhere else starts a lasso
+  const startSelecting = (point: Point) => {
+    const slop = HIT_SLOP / view.scale;
+    const b = selectionBounds;
+    if (b && point.x >= b.minX - slop && point.x <= b.maxX + slop && point.y >= b.minY - slop && point.y <= b.maxY + slop) {
+      startTransform('move', point, selection);
+      return;
+    }
+    const hit = elementAt(point);
+    if (hit >= 0) {
+      setSelection([hit]);
+      startTransform('move', point, [hit]);
+      return;
+    }
+    setSelection([]);
+    gestureRef.current = { kind: 'lasso' };
+  };
 
-  const getPoint = (e: React.MouseEvent | React.TouchEvent): Point => {
-    const canvas = canvasRef.current;
-    if (!canvas) return { x: 0, y: 0 };
-    const rect = canvas.getBoundingClientRect();
-    
-    let clientX, clientY;
-    if ('touches' in e) {
-      clientX = e.touches[0].clientX;
-      clientY = e.touches[0].clientY;
+  const transformSelection = (gesture: Extract<Gesture, { kind: 'move' | 'scale' | 'rotate' }>, point: Point) => {
+    const { start, pivot } = gesture;
+    const t: Similarity = { pivot, scale: 1, rotation: 0, dx: 0, dy: 0 };
+    if (gesture.kind === 'move') {
+      t.dx = point.x - start.x;
+      t.dy = point.y - start.y;
+    } else if (gesture.kind === 'scale') {
+      const from = Math.hypot(start.x - pivot.x, start.y - pivot.y);
+      if (from > 0) t.scale = Math.max(MIN_SCALE, Math.hypot(point.x - pivot.x, point.y - pivot.y) / from);
     } else {
-      clientX = (e as React.MouseEvent).clientX;
-      clientY = (e as React.MouseEvent).clientY;
+      t.rotation = Math.atan2(point.y - pivot.y, point.x - pivot.x) - Math.atan2(start.y - pivot.y, start.x - pivot.x);
     }
+    history.update(
+      () => gesture.originals.map((element, i) => gesture.indices.includes(i) ? applySimilarity(element, t) : element),
+      gesture.key,
+    );
+  };
 
-    return {
-      x: clientX - rect.left,
-      y: clientY - rect.top
-    };
+  const recolorSelection = (color: string) => {
+    history.update(prev => prev.map((element, i) => selection.includes(i) ? { ...element, color } : element));
+  };
+
+  const deleteSelection = () => {
+    history.update(prev => prev.filter((_, i) => !selection.includes(i)));
+    setSelection([]);
   };
 
-  const startDrawing = (e: React.MouseEvent | React.TouchEvent) => {
-    if ((e.target as HTMLElement).tagName === 'BUTTON') return;
+  // Removes every element the eraser passes over, sampling the gap between move events
+  // so a quick swipe can't skip a thin stroke
+  const eraseAlong = (gesture: Extract<Gesture, { kind: 'erase' }>, points: Point[]) => {
+    const radius = brushSize * EDITOR_STYLE.eraserScale / 2 / view.scale;
+    const samples: Point[] = [];
+    let last = gesture.last;
+    points.forEach(p => {
+      const steps = Math.max(1, Math.ceil(Math.hypot(p.x - last.x, p.y - last.y) / radius));
+      for (let i = 1; i <= steps; i++) {
+        samples.push({ x: last.x + (p.x - last.x) * i / steps, y: last.y + (p.y - last.y) * i / steps });
+      }
+      last = p;
+    });
+    gesture.last = last;
+    history.update(prev => {
+      const next = prev.filter(element => isEraserPath(element) || !samples.some(p => hitTest(element, p, radius)));
+      return next.length === prev.length ? prev : next;
+    }, gesture.key);
+  };
+
+  // --- Pointer input ---
+
+  const startDrawing = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!e.isPrimary || pointerRef.current !== null) return;
     e.preventDefault();
+    const point = getPoint(e.nativeEvent);
+    // Each tap with the text tool places a new label; the one being typed is kept
+    if (tool === 'text') {
+      commitLabel();
+      setPendingLabel({ at: { x: point.x, y: point.y }, text: '' });
+      return;
+    }
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointerRef.current = e.pointerId;
+    if (tool === 'select') {
+      startSelecting(point);
+    } else if (tool === 'eraser' && eraserMode === 'object') {
+      const gesture: Gesture = { kind: 'erase', key: `erase:${++sessionRef.current}`, last: point };
+      gestureRef.current = gesture;
+      eraseAlong(gesture, [point]);
+    } else {
+      gestureRef.current = { kind: 'draw' };
+    }
     setIsDrawing(true);
-    const point = getPoint(e);
     setCurrentPoints([point]);
   };
 
-  const draw = (e: React.MouseEvent | React.TouchEvent) => {
-    if (!isDrawing) return;
-    e.preventDefault(); 
-    const point = getPoint(e);
-    setCurrentPoints(prev => [...prev, point]);
+  // Scale and rotate handles capture the pointer themselves and share the move and up handlers
+  const startHandle = (kind: 'scale' | 'rotate') => (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!e.isPrimary || pointerRef.current !== null) return;
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    pointerRef.current = e.pointerId;
+    startTransform(kind, getPoint(e.nativeEvent), selection);
+    setIsDrawing(true);
+  };
+
+  const draw = (e: React.PointerEvent<Element>) => {
+    if (!isDrawing || e.pointerId !== pointerRef.current) return;
+    e.preventDefault();
+    const gesture = gestureRef.current;
+    if (gesture.kind === 'move' || gesture.kind === 'scale' || gesture.kind === 'rotate') {
+      transformSelection(gesture, getPoint(e.nativeEvent));
+      return;
+    }
+    if (gesture.kind === 'draw' && isShapeTool) {
+      const point = getPoint(e.nativeEvent);
+      // Shift works like the constrain toggle where there is a keyboard
+      const snapped = constrain || e.shiftKey;
+      setCurrentPoints(prev => [prev[0], snapped ? constrainEnd(tool as ShapeKind, prev[0], point) : point]);
+      return;
+    }
+    // A stylus reports far more samples than move events; keep them all
+    const events = e.nativeEvent.getCoalescedEvents?.() || [];
+    const points = (events.length ? events : [e.nativeEvent]).map(getPoint);
+    if (gesture.kind === 'erase') {
+      eraseAlong(gesture, points);
+      return;
+    }
+    setCurrentPoints(prev => [...prev, ...points]);
   };
 
-  const stopDrawing = () => {
-    if (!isDrawing) return;
+  const stopDrawing = (e: React.PointerEvent<Element>) => {
+    if (!isDrawing || e.pointerId !== pointerRef.current) return;
+    pointerRef.current = null;
     setIsDrawing(false);
-    
-    if (currentPoints.length > 1) {
-      setPaths(prev => [...prev, {
-        points: currentPoints,
-        color: tool === 'eraser' ? 'eraser' : selectedColor,
-        width: brushSize
-      }]);
+    const gesture = gestureRef.current;
+    gestureRef.current = null;
+
+    if (gesture?.kind === 'lasso') {
+      setSelection(elements.flatMap((element, i) => !isEraserPath(element) && isInLasso(element, currentPoints) ? [i] : []));
+      renderCanvas();
+    } else if (gesture?.kind === 'draw' && currentPoints.length > 1) {
+      const points = isShapeTool ? currentPoints : simplifyPoints(currentPoints);
+      history.update(prev => [...prev, draftElement(points)]);
     }
     setCurrentPoints([]);
   };
 
-  // Safe Save Wrapper
+  // Indices point into the list being replaced, so the selection goes with it
+  const undo = () => { history.undo(); setSelection([]); };
+  const redo = () => { history.redo(); setSelection([]); };
+
+  const pickColor = (color: string) => {
+    setSelectedColor(color);
+    if (tool === 'eraser') setTool('pen');
+    if (tool === 'select' && selection.length) recolorSelection(color);
+  };
+
+  // Safe Save Wrapper (a label still being typed is kept)
   const handleSave = () => {
-    onSave(paths);
+    const label = buildLabel();
+    onSave(label ? [...elements, label] : elements);
   };
 
+  const labelAnchor = pendingLabel && applyTransform(pendingLabel.at, view);
+
+  // Selection box in frame pixels, padded so thin strokes stay easy to grab
+  const selectionBox = selectionBounds && {
+    left: selectionBounds.minX * view.scale + view.x - HIT_SLOP,
+    top: selectionBounds.minY * view.scale + view.y - HIT_SLOP,
+    width: (selectionBounds.maxX - selectionBounds.minX) * view.scale + HIT_SLOP * 2,
+    height: (selectionBounds.maxY - selectionBounds.minY) * view.scale + HIT_SLOP * 2,
+  };
+
+  const handleEvents = { onPointerMove: draw, onPointerUp: stopDrawing, onPointerCancel: stopDrawing, onLostPointerCapture: stopDrawing };
+
+  const ShapeIcon = SHAPE_ICONS[isShapeTool ? tool as ShapeKind : shapeKind];
+
   return (
     <div className="absolute inset-0 z-50 flex flex-col justify-between animate-in fade-in duration-300 pointer-events-none">
-      {/* 
-         Canvas Layer 
+      {/*
+         Canvas Layer
       */}
       <canvas
         ref={canvasRef}
         // Style width/height controls the display size (CSS pixels)
         style={{ width: '100%', height: '100%', touchAction: 'none' }}
-        className="absolute inset-0 cursor-crosshair pointer-events-auto"
-        onMouseDown={startDrawing}
-        onMouseMove={draw}
-        onMouseUp={stopDrawing}
-        onMouseLeave={stopDrawing}
-        onTouchStart={startDrawing}
-        onTouchMove={draw}
-        onTouchEnd={stopDrawing}
+        className={`absolute inset-0 pointer-events-auto ${tool === 'text' ? 'cursor-text' : tool === 'select' ? 'cursor-default' : 'cursor-crosshair'}`}
+        onPointerDown={startDrawing}
+        onPointerMove={draw}
+        onPointerUp={stopDrawing}
+        onPointerCancel={stopDrawing}
+        onLostPointerCapture={stopDrawing}
       />
-      
+
+      {/* Selection box with scale (corner) and rotate (top) handles */}
+      {selectionBox && (
+        <div
+          className="absolute border border-dashed border-cyan-400/80 rounded-md pointer-events-none"
+          style={selectionBox}
+        >
+          <div
+            onPointerDown={startHandle('rotate')}
+            {...handleEvents}
+            style={{ touchAction: 'none' }}
+            className="absolute left-1/2 -top-9 -translate-x-1/2 w-7 h-7 flex items-center justify-center rounded-full bg-neutral-900 border border-cyan-400/60 text-cyan-400 shadow-lg pointer-events-auto cursor-grab"
+          >
+            <RotateCw size={14} />
+          </div>
+          <div
+            onPointerDown={startHandle('scale')}
+            {...handleEvents}
+            style={{ touchAction: 'none' }}
+            className="absolute -right-3.5 -bottom-3.5 w-7 h-7 flex items-center justify-center rounded-full bg-cyan-400 text-black shadow-[0_0_10px_rgba(34,211,238,0.5)] pointer-events-auto cursor-nwse-resize"
+          >
+            <Scaling size={14} />
+          </div>
+        </div>
+      )}
+
+      {/* Label being typed, styled like the rendered label */}
+      {labelAnchor && (
+        <input
+          key={`${pendingLabel.at.x},${pendingLabel.at.y}`}
+          autoFocus
+          value={pendingLabel.text}
+          onChange={(e) => setPendingLabel({ ...pendingLabel, text: e.target.value })}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitLabel();
+            if (e.key === 'Escape') setPendingLabel(null);
+          }}
+          placeholder="Label"
+          className="absolute bg-transparent border-0 outline-none p-0 m-0 pointer-events-auto placeholder:text-white/30"
+          style={{
+            left: labelAnchor.x,
+            top: labelAnchor.y,
+            width: `calc(100% - ${labelAnchor.x}px)`,
+            font: labelFont(labelSize),
+            lineHeight: LABEL_LINE_HEIGHT,
+            color: selectedColor,
+            textShadow: `0 0 8px ${selectedColor}`,
+          }}
+        />
+      )}
+
       {/* Header Actions */}
       <div className="flex justify-between p-4 pointer-events-auto z-50">
-         <button 
-           onClick={(e) => { e.stopPropagation(); onCancel(); }} 
+         <button
+           onClick={(e) => { e.stopPropagation(); onCancel(); }}
            className="group flex items-center justify-center w-10 h-10 rounded-full bg-black/40 backdrop-blur-md border border-white/10 text-white/70 hover:bg-red-500/20 hover:text-red-400 hover:border-red-500/30 transition-all active:scale-95 shadow-lg"
          >
             <X size={20} />
          </button>
-         <button 
-           onClick={(e) => { e.stopPropagation(); handleSave(); }} 
+         <button
+           onClick={(e) => { e.stopPropagation(); handleSave(); }}
            className="group flex items-center justify-center w-10 h-10 rounded-full bg-cyan-500 text-black shadow-[0_0_15px_rgba(34,211,238,0.4)] hover:scale-110 active:scale-95 transition-all"
          >
             <Check size={22} strokeWidth={3} />
@@ -204,59 +478,185 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ initialPaths, onSave, onC
       </div>
 
       {/* Toolbar */}
-      <div className="absolute bottom-6 left-1/2 -translate-x-1/2 pointer-events-auto z-50 w-auto max-w-[90%]">
+      <div className="absolute bottom-6 left-1/2 -translate-x-1/2 pointer-events-auto z-50 w-auto max-w-[95%]">
         <div className="flex flex-col items-center gap-3">
-            
-            {/* Color Tray (Expandable or Fixed) */}
-            <div className={`flex items-center gap-2 bg-neutral-900/90 backdrop-blur-xl border border-white/10 rounded-full p-2 shadow-2xl transition-all duration-300 ${showColorPicker ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4 pointer-events-none absolute bottom-full mb-2'}`}>
-                {NEON_COLORS.map(color => (
-                    <button
-                        key={color}
-                        onClick={(e) => { e.stopPropagation(); setSelectedColor(color); setTool('pen'); }}
-                        className={`w-6 h-6 rounded-full transition-all border border-white/10 ${selectedColor === color && tool === 'pen' ? 'scale-125 ring-2 ring-white' : 'hover:scale-110'}`}
-                        style={{ backgroundColor: color }}
+
+            {/* Color and brush tray (Expandable or Fixed) */}
+            <div className={`flex flex-col gap-3 bg-neutral-900/90 backdrop-blur-xl border border-white/10 rounded-2xl p-3 shadow-2xl transition-all duration-300 ${showColorPicker ? 'opacity-100 translate-y-0' : 'opacity-0 translate-y-4 pointer-events-none absolute bottom-full mb-2'}`}>
+                <div className="flex items-center justify-center gap-2">
+                    {NEON_COLORS.map(color => (
+                        <button
+                            key={color}
+                            onClick={(e) => { e.stopPropagation(); pickColor(color); }}
+                            className={`w-6 h-6 rounded-full transition-all border border-white/10 ${selectedColor === color && tool !== 'eraser' ? 'scale-125 ring-2 ring-white' : 'hover:scale-110'}`}
+                            style={{ backgroundColor: color }}
+                        />
+                    ))}
+                </div>
+                <label className="flex items-center gap-3">
+                    <span className="w-14 text-[10px] font-bold uppercase tracking-wider text-neutral-500">Size</span>
+                    <input
+                        type="range"
+                        min={MIN_BRUSH}
+                        max={MAX_BRUSH}
+                        value={brushSize}
+                        onChange={(e) => setBrushSize(Number(e.target.value))}
+                        className="flex-grow accent-cyan-400"
                     />
-                ))}
+                    <span className="w-8 text-right text-[10px] font-bold text-neutral-400 tabular-nums">{brushSize}</span>
+                </label>
+                {/* Below 100% the ink works like a highlighter */}
+                <label className="flex items-center gap-3">
+                    <span className="w-14 text-[10px] font-bold uppercase tracking-wider text-neutral-500">Opacity</span>
+                    <input
+                        type="range"
+                        min={0.1}
+                        max={1}
+                        step={0.05}
+                        value={opacity}
+                        onChange={(e) => setOpacity(Number(e.target.value))}
+                        className="flex-grow accent-cyan-400"
+                    />
+                    <span className="w-8 text-right text-[10px] font-bold text-neutral-400 tabular-nums">{Math.round(opacity * 100)}%</span>
+                </label>
             </div>
 
+            {/* Shape kinds and the constrain toggle */}
+            {isShapeTool && (
+              <div className="flex items-center gap-1 bg-neutral-900/90 backdrop-blur-xl border border-white/10 rounded-full p-1.5 shadow-2xl animate-in fade-in duration-200">
+                {SHAPE_KINDS.map(kind => {
+                  const Icon = SHAPE_ICONS[kind];
+                  return (
+                    <button
+                      key={kind}
+                      onClick={(e) => { e.stopPropagation(); setShapeKind(kind); setTool(kind); }}
+                      className={`p-2 rounded-full transition-all active:scale-90 ${tool === kind ? 'text-cyan-400 bg-white/10' : 'text-neutral-400 hover:text-white'}`}
+                    >
+                      <Icon size={16} />
+                    </button>
+                  );
+                })}
+                <div className="w-px h-5 bg-white/10 mx-1" />
+                <button
+                  onClick={(e) => { e.stopPropagation(); setConstrain(!constrain); }}
+                  title="Constrain: 45° lines, squares and circles"
+                  className={`p-2 rounded-full transition-all active:scale-90 ${constrain ? 'text-cyan-400 bg-white/10' : 'text-neutral-400 hover:text-white'}`}
+                >
+                  <Magnet size={16} />
+                </button>
+              </div>
+            )}
+
+            {/* Eraser modes */}
+            {tool === 'eraser' && (
+              <div className="flex items-center gap-1 bg-neutral-900/90 backdrop-blur-xl border border-white/10 rounded-full p-1.5 shadow-2xl animate-in fade-in duration-200">
+                {ERASER_MODES.map(({ mode, label }) => (
+                  <button
+                    key={mode}
+                    onClick={(e) => { e.stopPropagation(); setEraserMode(mode); }}
+                    className={`px-3 h-8 rounded-full text-[10px] font-bold uppercase tracking-wider transition-all active:scale-90 ${eraserMode === mode ? 'text-cyan-400 bg-white/10' : 'text-neutral-400 hover:text-white'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {/* Selection actions; colors from the tray recolor it */}
+            {tool === 'select' && selection.length > 0 && (
+              <div className="flex items-center gap-1 bg-neutral-900/90 backdrop-blur-xl border border-white/10 rounded-full p-1.5 pl-4 shadow-2xl animate-in fade-in duration-200">
+                <span className="text-[10px] font-bold uppercase tracking-wider text-neutral-400 tabular-nums">{selection.length} selected</span>
+                <button
+                  onClick={(e) => { e.stopPropagation(); deleteSelection(); }}
+                  className="p-2 rounded-full transition-all active:scale-90 text-neutral-400 hover:text-red-400"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            )}
+
+            {/* Label sizes */}
+            {tool === 'text' && (
+              <div className="flex items-center gap-1 bg-neutral-900/90 backdrop-blur-xl border border-white/10 rounded-full p-1.5 shadow-2xl animate-in fade-in duration-200">
+                {LABEL_SIZES.map((size, i) => (
+                  <button
+                    key={size}
+                    onClick={(e) => { e.stopPropagation(); setLabelSize(size); }}
+                    className={`w-8 h-8 rounded-full text-[10px] font-bold tracking-wider transition-all active:scale-90 ${labelSize === size ? 'text-cyan-400 bg-white/10' : 'text-neutral-400 hover:text-white'}`}
+                  >
+                    {SIZE_LABELS[i]}
+                  </button>
+                ))}
+              </div>
+            )}
+
             {/* Main Tools */}
-            <div className="flex items-center gap-4 bg-neutral-900/80 backdrop-blur-2xl border border-white/10 rounded-full px-5 py-3 shadow-2xl">
-               
+            <div className="flex items-center gap-1 bg-neutral-900/80 backdrop-blur-2xl border border-white/10 rounded-full px-3 py-2.5 shadow-2xl">
+
                {/* Current Color Indicator / Toggle */}
-               <button 
+               <button
                   onClick={(e) => { e.stopPropagation(); setShowColorPicker(!showColorPicker); }}
-                  className="w-8 h-8 rounded-full border-2 border-white/20 transition-transform active:scale-90 relative"
+                  className="w-8 h-8 shrink-0 rounded-full border-2 border-white/20 transition-transform active:scale-90 relative"
                   style={{ backgroundColor: tool === 'eraser' ? 'transparent' : selectedColor }}
                >
                    {tool === 'eraser' && <div className="absolute inset-0 flex items-center justify-center"><Eraser size={14} className="text-white"/></div>}
-                   {tool === 'pen' && <div className="absolute inset-0 flex items-center justify-center opacity-0 hover:opacity-100 bg-black/30 rounded-full transition-opacity"><Palette size={14} className="text-white"/></div>}
+                   {tool !== 'eraser' && <div className="absolute inset-0 flex items-center justify-center opacity-0 hover:opacity-100 bg-black/30 rounded-full transition-opacity"><Palette size={14} className="text-white"/></div>}
                </button>
-               
+
                <div className="w-px h-6 bg-white/10" />
 
-               <button 
-                 onClick={(e) => { e.stopPropagation(); setTool('pen'); }} 
-                 className={`p-2 rounded-full transition-all active:scale-90 ${tool === 'pen' ? 'text-cyan-400 bg-white/10' : 'text-neutral-400 hover:text-white'}`}
+               <button
+                 onClick={(e) => { e.stopPropagation(); selectTool('select'); }}
+                 className={`p-1.5 rounded-full transition-all active:scale-90 ${tool === 'select' ? 'text-cyan-400 bg-white/10' : 'text-neutral-400 hover:text-white'}`}
+               >
+                 <MousePointer2 size={20} />
+               </button>
+
+               <button
+                 onClick={(e) => { e.stopPropagation(); selectTool('pen'); }}
+                 className={`p-1.5 rounded-full transition-all active:scale-90 ${tool === 'pen' ? 'text-cyan-400 bg-white/10' : 'text-neutral-400 hover:text-white'}`}
                >
                  <svg width="20" height="20" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M12 19l7-7 3 3-7 7-3-3z"></path><path d="M18 13l-1.5-7.5L2 2l3.5 14.5L13 18l5-5z"></path><path d="M2 2l7.586 7.586"></path><circle cx="11" cy="11" r="2"></circle></svg>
                </button>
 
-               <button 
-                 onClick={(e) => { e.stopPropagation(); setTool('eraser'); }} 
-                 className={`p-2 rounded-full transition-all active:scale-90 ${tool === 'eraser' ? 'text-white bg-white/10' : 'text-neutral-400 hover:text-white'}`}
+               <button
+                 onClick={(e) => { e.stopPropagation(); selectTool(shapeKind); }}
+                 className={`p-1.5 rounded-full transition-all active:scale-90 ${isShapeTool ? 'text-cyan-400 bg-white/10' : 'text-neutral-400 hover:text-white'}`}
+               >
+                 <ShapeIcon size={20} />
+               </button>
+
+               <button
+                 onClick={(e) => { e.stopPropagation(); selectTool('text'); }}
+                 className={`p-1.5 rounded-full transition-all active:scale-90 ${tool === 'text' ? 'text-cyan-400 bg-white/10' : 'text-neutral-400 hover:text-white'}`}
+               >
+                 <Type size={20} />
+               </button>
+
+               <button
+                 onClick={(e) => { e.stopPropagation(); selectTool('eraser'); }}
+                 className={`p-1.5 rounded-full transition-all active:scale-90 ${tool === 'eraser' ? 'text-white bg-white/10' : 'text-neutral-400 hover:text-white'}`}
                >
                  <Eraser size={20} />
                </button>
 
                <div className="w-px h-6 bg-white/10" />
 
-               <button 
-                 onClick={(e) => { e.stopPropagation(); setPaths(p => p.slice(0, -1)); }} 
-                 className={`p-2 rounded-full transition-all active:scale-90 ${paths.length === 0 ? 'text-neutral-600' : 'text-neutral-400 hover:text-white'}`}
-                 disabled={paths.length === 0}
+               <button
+                 onClick={(e) => { e.stopPropagation(); undo(); }}
+                 className={`p-1.5 rounded-full transition-all active:scale-90 ${history.canUndo ? 'text-neutral-400 hover:text-white' : 'text-neutral-600'}`}
+                 disabled={!history.canUndo}
                >
                  <Undo size={20} />
                </button>
+
+               <button
+                 onClick={(e) => { e.stopPropagation(); redo(); }}
+                 className={`p-1.5 rounded-full transition-all active:scale-90 ${history.canRedo ? 'text-neutral-400 hover:text-white' : 'text-neutral-600'}`}
+                 disabled={!history.canRedo}
+               >
+                 <Redo size={20} />
+               </button>
             </div>
         </div>
       </div>
@@ -264,4 +664,4 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({ initialPaths, onSave, onC
   );
 };
 
-export default DrawingCanvas;
\ No newline at end of file
+export default DrawingCanvas;
@@ -1,30 +1,56 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Note, Block, BlockType, Theme } from '../types';
+import { Note, Block, BlockType, ChecklistItem, DrawingElement, Size, Theme } from '../types';
 import { BlockRender } from './BlockRender';
 import { generateId } from '../utils';
-import { ArrowLeft, Image as ImageIcon, Type, MoreVertical, Share, Eye, EyeOff, Trash2, Pin, PinOff, Check } from 'lucide-react';
+import { toPlainText } from '../services/richText';
+import { useUndoHistory } from '../hooks/useUndoHistory';
+import { putMedia } from '../services/mediaStore';
+import { exportNoteAsMarkdown } from '../services/markdownExport';
+import { exportNoteAsPdf, exportNoteAsPoster } from '../services/posterExport';
+import { exportNoteAsHtml } from '../services/htmlExport';
+import { TagCount } from '../services/tags';
+import { recordVersion } from '../services/noteHistory';
+import TagEditor from './TagEditor';
+import HistoryPanel from './HistoryPanel';
+import { createChecklistItem } from './ChecklistBlock';
+import AudioRecorder from './AudioRecorder';
+import { analyzeAudio } from '../services/audio';
+import { DEFAULT_ASPECT, DEFAULT_BACKGROUND } from '../services/sketch';
+import { ArrowLeft, Image as ImageIcon, Type, MoreVertical, Share, Eye, EyeOff, Trash2, Pin, PinOff, Check, FileText, ImageDown, FileDown, FileCode, Tag, History, Undo2, Redo2, ListChecks, Mic, PenTool } from 'lucide-react';
 import { THEMES } from '../constants';
 
 interface EditorProps {
   note: Note | null;
   onSave: (note: Note) => void;
   onBack: () => void;
-  onDeleteNote: (id: string) => void;
+  onDeleteNote: (id: string, latest: Note) => void;
   currentTheme: Theme;
+  saveError?: string | null;
+  onNotice: (message: string) => void;
+  isVaultUnlocked: boolean;
+  onRequestVaultUnlock: () => void;
+  knownTags: TagCount[];
 }
 
-const Editor: React.FC<EditorProps> = ({ note, onSave, onBack, onDeleteNote, currentTheme }) => {
-  const [blocks, setBlocks] = useState<Block[]>(note?.blocks || []);
-  const [title, setTitle] = useState(note?.title || '');
+const Editor: React.FC<EditorProps> = ({ note, onSave, onBack, onDeleteNote, currentTheme, saveError, onNotice, isVaultUnlocked, onRequestVaultUnlock, knownTags }) => {
+  // Title and blocks share one undo history for the whole editing session
+  const history = useUndoHistory({ title: note?.title || '', blocks: note?.blocks || [] });
+  const { title, blocks } = history.value;
   const [isHidden, setIsHidden] = useState(note?.isHidden || false);
   const [isPinned, setIsPinned] = useState(note?.isPinned || false);
-  const [deletedBlock, setDeletedBlock] = useState<{ block: Block, index: number } | null>(null);
+  const [tags, setTags] = useState<string[]>(note?.tags || []);
+  const [showTagEditor, setShowTagEditor] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showRecorder, setShowRecorder] = useState(false);
   const [showMenu, setShowMenu] = useState(false);
-  const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'unsaved'>('saved');
+  const [saveStatus, setSaveStatus] = useState<'saved' | 'saving' | 'unsaved' | 'error'>('saved');
+  const [mediaError, setMediaError] = useState<string | null>(null);
 
   // Drag and Drop Refs
   const dragItem = useRef<number | null>(null);
   const dragOverItem = useRef<number | null>(null);
+  // One drag gesture is one undo step
+  const dragSession = useRef(0);
 
   const fileInputRef = useRef<HTMLInputElement>(null);
   const titleInputRef = useRef<HTMLInputElement>(null);
@@ -42,6 +68,30 @@ const Editor: React.FC<EditorProps> = ({ note, onSave, onBack, onDeleteNote, cur
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, [showMenu]);
 
+  // Persistence failures in App override the local debounce state until a save succeeds
+  const displayStatus = saveError ? 'error' : saveStatus;
+
+  // A failed upload takes over the save indicator for a moment
+  useEffect(() => {
+    if (!mediaError) return;
+    const timer = setTimeout(() => setMediaError(null), 4000);
+    return () => clearTimeout(timer);
+  }, [mediaError]);
+
+  // Current editor state as a Note; fields the editor doesn't manage are carried over from the stored note
+  const buildNote = (): Note => ({
+    ...note,
+    id: note?.id || generateId(),
+    title: title || '',
+    createdAt: note?.createdAt || Date.now(),
+    updatedAt: Date.now(),
+    blocks,
+    isPinned,
+    isHidden,
+    theme: currentTheme,
+    tags,
+  });
+
   // Auto-save logic
   useEffect(() => {
     setSaveStatus('saving');
@@ -52,73 +102,108 @@ const Editor: React.FC<EditorProps> = ({ note, onSave, onBack, onDeleteNote, cur
           return;
       }
       
-      const updatedNote: Note = {
-        id: note?.id || generateId(),
-        title: title || '',
-        createdAt: note?.createdAt || Date.now(),
-        updatedAt: Date.now(),
-        blocks,
-        isPinned,
-        isHidden,
-        theme: currentTheme,
-      };
-      
-      onSave(updatedNote);
+      onSave(buildNote());
       setSaveStatus('saved');
     }, 800);
     return () => clearTimeout(timer);
-  }, [blocks, title, isHidden, isPinned, currentTheme]);
+  }, [blocks, title, isHidden, isPinned, tags, currentTheme]);
+
+  // Every title/blocks mutation goes through these so it lands in the undo history.
+  // Updates sharing a coalesce key (typing in one field) merge into one step.
+  const setBlocks = (recipe: (prev: Block[]) => Block[], coalesceKey?: string) => {
+    history.update(curr => {
+      const next = recipe(curr.blocks);
+      return next === curr.blocks ? curr : { ...curr, blocks: next };
+    }, coalesceKey);
+  };
+
+  const setTitle = (next: string) => {
+    history.update(curr => curr.title === next ? curr : { ...curr, title: next }, 'title');
+  };
 
-  const addBlock = (type: BlockType, content: string = '') => {
-    const newBlock: Block = { id: generateId(), type, content, drawings: [] };
+  const addBlock = (type: BlockType, content: string = '', extra: Partial<Block> = {}) => {
+    const newBlock: Block = { id: generateId(), type, content, drawings: [], ...extra };
+    if (type === 'checklist') newBlock.items = [createChecklistItem()];
     setBlocks(prev => [...prev, newBlock]);
   };
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    if (fileInputRef.current) fileInputRef.current.value = '';
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      if (event.target?.result) {
-        const type = file.type.startsWith('video') ? 'video' : 'image';
-        addBlock(type, event.target.result as string);
+    try {
+      // Stored once as a binary asset; the block only keeps the media:// reference
+      const ref = await putMedia(file);
+      if (file.type.startsWith('audio')) {
+        addBlock('audio', ref, await analyzeAudio(file));
+        return;
       }
-    };
-    reader.readAsDataURL(file);
-    if (fileInputRef.current) fileInputRef.current.value = '';
+      const type = file.type.startsWith('video') ? 'video' : 'image';
+      addBlock(type, ref);
+    } catch (err) {
+      console.error("Media Store Error", err);
+      setMediaError('Could not add file');
+    }
+  };
+
+  const handleRecording = async (recording: Blob) => {
+    setShowRecorder(false);
+    if (recording.size === 0) return;
+    try {
+      const ref = await putMedia(recording);
+      addBlock('audio', ref, await analyzeAudio(recording));
+    } catch (err) {
+      console.error("Media Store Error", err);
+      onNotice('Could not save the recording');
+    }
+  };
+
+  // The state being replaced is snapshotted first, so a restore can itself be undone from History
+  const handleRestoreVersion = async (version: Note) => {
+    try {
+      await recordVersion(buildNote(), true);
+    } catch (e) {
+      console.warn("History Snapshot Error", e);
+    }
+    history.update(() => ({ title: version.title, blocks: version.blocks }));
+    setShowHistory(false);
+    onNotice('Version restored');
+  };
+
+  const handleCopyBlock = (block: Block) => {
+    setBlocks(prev => [...prev, { ...block, id: generateId() }]);
+    onNotice('Block copied to frame');
   };
 
   const updateBlock = (id: string, content: string) => {
-    setBlocks(prev => prev.map(b => b.id === id ? { ...b, content } : b));
+    setBlocks(prev => prev.map(b => b.id === id ? { ...b, content } : b), `text:${id}`);
   };
 
-  const updateBlockDrawings = (id: string, drawings: any[]) => {
-    setBlocks(prev => prev.map(b => b.id === id ? { ...b, drawings } : b));
+  const updateBlockDrawings = (id: string, drawings: DrawingElement[], drawingSpace: Size, width: number, height: number) => {
+    setBlocks(prev => prev.map(b => b.id === id ? { ...b, drawings, drawingSpace, width, height } : b));
   };
 
-  const deleteBlock = (id: string) => {
-    const index = blocks.findIndex(b => b.id === id);
-    if (index === -1) return;
-    setDeletedBlock({ block: blocks[index], index });
-    setBlocks(prev => prev.filter(b => b.id !== id));
-    setTimeout(() => setDeletedBlock(curr => curr?.block.id === id ? null : curr), 4000);
+  // Typing in an item is coalesced like text; checking, reordering and the rest are steps of their own
+  const updateChecklist = (id: string, items: ChecklistItem[], collapseChecked: boolean) => {
+    const previous = blocks.find(b => b.id === id);
+    const textOnly = !!previous && previous.collapseChecked === collapseChecked && previous.items?.length === items.length &&
+      previous.items.every((item, i) => item.id === items[i].id && item.checked === items[i].checked && item.indent === items[i].indent);
+    setBlocks(prev => prev.map(b => b.id === id ? { ...b, items, collapseChecked } : b), textOnly ? `checklist:${id}` : undefined);
   };
 
-  const restoreBlock = () => {
-      if (deletedBlock) {
-          setBlocks(prev => {
-              const newBlocks = [...prev];
-              newBlocks.splice(deletedBlock.index, 0, deletedBlock.block);
-              return newBlocks;
-          });
-          setDeletedBlock(null);
-      }
+  const updateSketch = (id: string, changes: Partial<Block>) => {
+    setBlocks(prev => prev.map(b => b.id === id ? { ...b, ...changes } : b));
+  };
+
+  const deleteBlock = (id: string) => {
+    setBlocks(prev => prev.filter(b => b.id !== id));
   };
 
   // --- Mobile Drag/Reorder Logic ---
   const handleDragStart = (e: React.DragEvent<HTMLDivElement>, position: number) => {
     dragItem.current = position;
+    dragSession.current += 1;
     e.dataTransfer.effectAllowed = 'move';
   };
 
@@ -137,7 +222,7 @@ const Editor: React.FC<EditorProps> = ({ note, onSave, onBack, onDeleteNote, cur
     newBlocks.splice(dragIndex, 1);
     newBlocks.splice(hoverIndex, 0, draggedBlock);
     
-    setBlocks(newBlocks);
+    setBlocks(() => newBlocks, `drag:${dragSession.current}`);
     dragItem.current = hoverIndex;
   };
 
@@ -153,11 +238,11 @@ const Editor: React.FC<EditorProps> = ({ note, onSave, onBack, onDeleteNote, cur
       const temp = newBlocks[index];
       newBlocks[index] = newBlocks[newIndex];
       newBlocks[newIndex] = temp;
-      setBlocks(newBlocks);
+      setBlocks(() => newBlocks);
   };
 
   const handleShare = async () => {
-    const textContent = blocks.filter(b => b.type === 'text').map(b => b.content).join('\n\n');
+    const textContent = blocks.filter(b => b.type === 'text').map(b => toPlainText(b.content)).join('\n\n');
     const shareData = { title: title, text: `${title}\n\n${textContent}` };
     try {
         if (navigator.share) await navigator.share(shareData);
@@ -165,6 +250,28 @@ const Editor: React.FC<EditorProps> = ({ note, onSave, onBack, onDeleteNote, cur
     setShowMenu(false);
   };
 
+  // Hidden frames are stored encrypted, so hiding needs an unlocked vault
+  const handleToggleHidden = () => {
+    setShowMenu(false);
+    if (!isHidden && !isVaultUnlocked) {
+        onRequestVaultUnlock();
+        return;
+    }
+    setIsHidden(!isHidden);
+  };
+
+  // Exports report progress and the saved location through App's notice toast
+  const handleExport = async (label: string, run: (note: Note) => Promise<string>) => {
+    setShowMenu(false);
+    onNotice(`Exporting ${label}...`);
+    try {
+        onNotice(`Exported to ${await run(buildNote())}`);
+    } catch (e) {
+        console.error(`${label} Export Error`, e);
+        onNotice(`${label} export failed`);
+    }
+  };
+
   return (
     <div className={`min-h-screen flex flex-col ${themeColors.bg} transition-colors duration-700 relative`}>
       {/* 
@@ -181,8 +288,8 @@ const Editor: React.FC<EditorProps> = ({ note, onSave, onBack, onDeleteNote, cur
         
         <div className="flex items-center gap-4">
            {/* Save Indicator */}
-           <div className={`text-[10px] uppercase tracking-widest font-semibold transition-opacity duration-500 ${saveStatus === 'saving' ? 'opacity-100 text-white/50' : 'opacity-0'}`}>
-              Saving...
+           <div className={`text-[10px] uppercase tracking-widest font-semibold transition-opacity duration-500 ${mediaError || displayStatus === 'error' ? 'opacity-100 text-red-400' : displayStatus === 'saving' ? 'opacity-100 text-white/50' : 'opacity-0'}`}>
+              {mediaError || (displayStatus === 'error' ? 'Not saved' : 'Saving...')}
            </div>
            
            {/* Context Menu */}
@@ -199,15 +306,38 @@ const Editor: React.FC<EditorProps> = ({ note, onSave, onBack, onDeleteNote, cur
                     <button onClick={handleShare} className="w-full flex items-center gap-3 px-4 py-3.5 text-sm text-neutral-300 hover:bg-white/5 hover:text-white transition-colors">
                         <Share size={16} /> Share Frame
                     </button>
+                    <button onClick={() => handleExport('Markdown', exportNoteAsMarkdown)} className="w-full flex items-center gap-3 px-4 py-3.5 text-sm text-neutral-300 hover:bg-white/5 hover:text-white transition-colors">
+                        <FileText size={16} /> Export Markdown
+                    </button>
+                    <button onClick={() => handleExport('Poster', n => exportNoteAsPoster(n, currentTheme))} className="w-full flex items-center gap-3 px-4 py-3.5 text-sm text-neutral-300 hover:bg-white/5 hover:text-white transition-colors">
+                        <ImageDown size={16} /> Export Poster
+                    </button>
+                    <button onClick={() => handleExport('Poster', n => exportNoteAsPoster(n, currentTheme, true))} className="w-full flex items-center gap-3 px-4 py-3.5 text-sm text-neutral-300 hover:bg-white/5 hover:text-white transition-colors">
+                        <ImageDown size={16} /> Full-Size Poster
+                    </button>
+                    <button onClick={() => handleExport('PDF', n => exportNoteAsPdf(n, currentTheme))} className="w-full flex items-center gap-3 px-4 py-3.5 text-sm text-neutral-300 hover:bg-white/5 hover:text-white transition-colors">
+                        <FileDown size={16} /> Export PDF
+                    </button>
+                    <button onClick={() => handleExport('HTML', n => exportNoteAsHtml(n, currentTheme))} className="w-full flex items-center gap-3 px-4 py-3.5 text-sm text-neutral-300 hover:bg-white/5 hover:text-white transition-colors">
+                        <FileCode size={16} /> Export HTML
+                    </button>
+                    <button onClick={() => { setShowTagEditor(true); setShowMenu(false); }} className="w-full flex items-center gap-3 px-4 py-3.5 text-sm text-neutral-300 hover:bg-white/5 hover:text-white transition-colors">
+                        <Tag size={16} /> Tags
+                    </button>
+                    {note && !isHidden && (
+                        <button onClick={() => { setShowHistory(true); setShowMenu(false); }} className="w-full flex items-center gap-3 px-4 py-3.5 text-sm text-neutral-300 hover:bg-white/5 hover:text-white transition-colors">
+                            <History size={16} /> History
+                        </button>
+                    )}
                     <button onClick={() => { setIsPinned(!isPinned); setShowMenu(false); }} className="w-full flex items-center gap-3 px-4 py-3.5 text-sm text-neutral-300 hover:bg-white/5 hover:text-white transition-colors">
                         {isPinned ? <PinOff size={16} /> : <Pin size={16} />} {isPinned ? "Unpin" : "Pin"}
                     </button>
-                    <button onClick={() => { setIsHidden(!isHidden); setShowMenu(false); }} className="w-full flex items-center gap-3 px-4 py-3.5 text-sm text-neutral-300 hover:bg-white/5 hover:text-white transition-colors">
+                    <button onClick={handleToggleHidden} className="w-full flex items-center gap-3 px-4 py-3.5 text-sm text-neutral-300 hover:bg-white/5 hover:text-white transition-colors">
                         {isHidden ? <EyeOff size={16} /> : <Eye size={16} />} {isHidden ? "Unhide" : "Hide"}
                     </button>
                     <div className="h-px bg-white/5 my-1" />
                     {note && (
-                        <button onClick={() => onDeleteNote(note.id)} className="w-full flex items-center gap-3 px-4 py-3.5 text-sm text-red-400 hover:bg-red-500/10 transition-colors">
+                        <button onClick={() => onDeleteNote(note.id, buildNote())} className="w-full flex items-center gap-3 px-4 py-3.5 text-sm text-red-400 hover:bg-red-500/10 transition-colors">
                             <Trash2 size={16} /> Delete
                         </button>
                     )}
@@ -225,9 +355,23 @@ const Editor: React.FC<EditorProps> = ({ note, onSave, onBack, onDeleteNote, cur
           value={title}
           onChange={(e) => setTitle(e.target.value)}
           placeholder="Frame Title"
-          className="w-full bg-transparent text-[2.5rem] leading-[1.1] font-bold outline-none placeholder-neutral-800 text-white mb-8"
+          className={`w-full bg-transparent text-[2.5rem] leading-[1.1] font-bold outline-none placeholder-neutral-800 text-white ${tags.length ? 'mb-3' : 'mb-8'}`}
         />
 
+        {tags.length > 0 && (
+            <div className="flex flex-wrap gap-2 mb-8">
+                {tags.map(tag => (
+                    <button
+                      key={tag}
+                      onClick={() => setShowTagEditor(true)}
+                      className={`text-[10px] font-bold tracking-wider ${themeColors.accent} opacity-70 hover:opacity-100 transition-opacity`}
+                    >
+                        #{tag}
+                    </button>
+                ))}
+            </div>
+        )}
+
         {/* Empty State: Centered Typography */}
         {blocks.length === 0 && !title && (
             <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
@@ -247,6 +391,8 @@ const Editor: React.FC<EditorProps> = ({ note, onSave, onBack, onDeleteNote, cur
               isEditing={true}
               onUpdate={updateBlock}
               onUpdateDrawings={updateBlockDrawings}
+              onUpdateChecklist={updateChecklist}
+              onUpdateSketch={updateSketch}
               onDelete={deleteBlock}
               onDragStart={handleDragStart}
               onDragEnter={handleDragEnter}
@@ -260,14 +406,28 @@ const Editor: React.FC<EditorProps> = ({ note, onSave, onBack, onDeleteNote, cur
         </div>
       </main>
 
-      {/* Undo Toast */}
-      {deletedBlock && (
-         <div className="fixed bottom-32 left-0 right-0 flex justify-center z-50 pointer-events-none">
-             <button onClick={restoreBlock} className="pointer-events-auto bg-[#1A1A1A] text-white text-xs px-5 py-2.5 rounded-full shadow-2xl border border-white/10 animate-in fade-in slide-in-from-bottom-4 flex items-center gap-2">
-                 <span className="text-neutral-400">Block deleted</span>
-                 <span className="text-cyan-400 font-bold">Undo</span>
-             </button>
-         </div>
+      {showTagEditor && (
+          <TagEditor
+            tags={tags}
+            knownTags={knownTags}
+            onChange={setTags}
+            onClose={() => setShowTagEditor(false)}
+          />
+      )}
+
+      {showRecorder && (
+          <AudioRecorder onComplete={handleRecording} onClose={() => setShowRecorder(false)} />
+      )}
+
+      {showHistory && note && (
+          <HistoryPanel
+            noteId={note.id}
+            current={blocks}
+            themeAccent={themeColors.accent}
+            onRestore={handleRestoreVersion}
+            onCopyBlock={handleCopyBlock}
+            onClose={() => setShowHistory(false)}
+          />
       )}
 
       {/* 
@@ -276,13 +436,27 @@ const Editor: React.FC<EditorProps> = ({ note, onSave, onBack, onDeleteNote, cur
           Positioned bottom-8, pill shape, glass effect.
       */}
       <div className="fixed bottom-10 left-0 right-0 flex justify-center z-40 pb-[env(safe-area-inset-bottom)] pointer-events-none">
-        <div className="pointer-events-auto bg-[#141414]/90 rounded-full px-8 py-3.5 flex items-center gap-8 shadow-[0_8px_32px_rgba(0,0,0,0.6)] border border-white/10 backdrop-blur-xl">
+        <div className="pointer-events-auto bg-[#141414]/90 rounded-full px-5 py-3.5 flex items-center gap-4 shadow-[0_8px_32px_rgba(0,0,0,0.6)] border border-white/10 backdrop-blur-xl">
           <button 
              onClick={() => addBlock('text')} 
              className="flex flex-col items-center gap-1 group"
           >
             <Type size={24} strokeWidth={1.5} className="text-neutral-400 group-hover:text-white transition-colors" />
           </button>
+
+          <button 
+             onClick={() => addBlock('checklist')} 
+             className="flex flex-col items-center gap-1 group"
+          >
+            <ListChecks size={24} strokeWidth={1.5} className="text-neutral-400 group-hover:text-white transition-colors" />
+          </button>
+
+          <button 
+             onClick={() => addBlock('sketch', '', { aspect: DEFAULT_ASPECT, background: DEFAULT_BACKGROUND })} 
+             className="flex flex-col items-center gap-1 group"
+          >
+            <PenTool size={24} strokeWidth={1.5} className="text-neutral-400 group-hover:text-white transition-colors" />
+          </button>
           
           <div className="w-px h-6 bg-white/10" />
           
@@ -292,8 +466,34 @@ const Editor: React.FC<EditorProps> = ({ note, onSave, onBack, onDeleteNote, cur
           >
             <ImageIcon size={24} strokeWidth={1.5} className="text-neutral-400 group-hover:text-white transition-colors" />
           </button>
+
+          <button 
+             onClick={() => setShowRecorder(true)} 
+             className="flex flex-col items-center gap-1 group"
+          >
+            <Mic size={24} strokeWidth={1.5} className="text-neutral-400 group-hover:text-white transition-colors" />
+          </button>
           
-          <input type="file" ref={fileInputRef} className="hidden" accept="image/*,video/*" onChange={handleFileUpload} />
+          <div className="w-px h-6 bg-white/10" />
+
+          <div className="flex items-center gap-5">
+            <button
+               onClick={history.undo}
+               disabled={!history.canUndo}
+               className="flex flex-col items-center gap-1 group disabled:opacity-30"
+            >
+              <Undo2 size={22} strokeWidth={1.5} className="text-neutral-400 group-hover:text-white transition-colors" />
+            </button>
+            <button
+               onClick={history.redo}
+               disabled={!history.canRedo}
+               className="flex flex-col items-center gap-1 group disabled:opacity-30"
+            >
+              <Redo2 size={22} strokeWidth={1.5} className="text-neutral-400 group-hover:text-white transition-colors" />
+            </button>
+          </div>
+
+          <input type="file" ref={fileInputRef} className="hidden" accept="image/*,video/*,audio/*" onChange={handleFileUpload} />
         </div>
       </div>
     </div>
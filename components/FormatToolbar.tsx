@@ -0,0 +1,57 @@
+import React from 'react';
+import { InlineFormat, LineKind } from '../services/richText';
+import { Bold, Italic, Strikethrough, Code, Link, Heading1, Heading2, List, ListOrdered, Quote } from 'lucide-react';
+
+interface FormatToolbarProps {
+  // Line kind at the caret, shown as the active line button
+  lineKind: LineKind;
+  onInline: (format: InlineFormat) => void;
+  onLink: () => void;
+  onLineKind: (kind: Exclude<LineKind, 'paragraph'>) => void;
+}
+
+const INLINE_BUTTONS: { format: InlineFormat; icon: typeof Bold }[] = [
+  { format: 'bold', icon: Bold },
+  { format: 'italic', icon: Italic },
+  { format: 'strike', icon: Strikethrough },
+  { format: 'code', icon: Code },
+];
+
+const LINE_BUTTONS: { kind: Exclude<LineKind, 'paragraph'>; icon: typeof Bold }[] = [
+  { kind: 'h1', icon: Heading1 },
+  { kind: 'h2', icon: Heading2 },
+  { kind: 'bullet', icon: List },
+  { kind: 'ordered', icon: ListOrdered },
+  { kind: 'quote', icon: Quote },
+];
+
+const BUTTON_CLASS = 'p-2 rounded-full transition-colors shrink-0';
+
+// Buttons never take focus, so the textarea keeps its selection while formatting
+const keepFocus = (e: React.MouseEvent) => e.preventDefault();
+
+const FormatToolbar: React.FC<FormatToolbarProps> = ({ lineKind, onInline, onLink, onLineKind }) => (
+  <div className="flex items-center gap-0.5 max-w-full overflow-x-auto no-scrollbar bg-[#1A1A1A]/95 border border-white/10 rounded-full px-1.5 py-1 shadow-2xl backdrop-blur-xl animate-in fade-in zoom-in-95">
+    {INLINE_BUTTONS.map(({ format, icon: Icon }) => (
+      <button key={format} onMouseDown={keepFocus} onClick={() => onInline(format)} className={`${BUTTON_CLASS} text-neutral-400 hover:text-white hover:bg-white/5`}>
+        <Icon size={16} />
+      </button>
+    ))}
+    <button onMouseDown={keepFocus} onClick={onLink} className={`${BUTTON_CLASS} text-neutral-400 hover:text-white hover:bg-white/5`}>
+      <Link size={16} />
+    </button>
+    <div className="w-px h-5 bg-white/10 mx-1 shrink-0" />
+    {LINE_BUTTONS.map(({ kind, icon: Icon }) => (
+      <button
+        key={kind}
+        onMouseDown={keepFocus}
+        onClick={() => onLineKind(kind)}
+        className={`${BUTTON_CLASS} ${lineKind === kind ? 'text-white bg-white/10' : 'text-neutral-400 hover:text-white hover:bg-white/5'}`}
+      >
+        <Icon size={16} />
+      </button>
+    ))}
+  </div>
+);
+
+export default FormatToolbar;
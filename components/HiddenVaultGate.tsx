@@ -0,0 +1,99 @@
+import React, { useState } from 'react';
+import { Lock, KeyRound, X } from 'lucide-react';
+
+interface HiddenVaultGateProps {
+  mode: 'unset' | 'locked';
+  onSubmit: (passphrase: string) => Promise<string | null>;
+  onCancel?: () => void;
+}
+
+const MIN_PASSPHRASE_LENGTH = 6;
+
+// Passphrase prompt in front of the HIDDEN view: first-time setup or unlock
+const HiddenVaultGate: React.FC<HiddenVaultGateProps> = ({ mode, onSubmit, onCancel }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+  const isSetup = mode === 'unset';
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isWorking) return;
+    if (isSetup && passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      setError(`Use at least ${MIN_PASSPHRASE_LENGTH} characters`);
+      return;
+    }
+    if (isSetup && passphrase !== confirm) {
+      setError('Passphrases do not match');
+      return;
+    }
+
+    setIsWorking(true);
+    setError(null);
+    const failure = await onSubmit(passphrase);
+    setIsWorking(false);
+    if (failure) {
+      setError(failure);
+      setPassphrase('');
+      setConfirm('');
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="relative w-full max-w-sm mx-auto flex flex-col items-center gap-5 px-6 py-8 rounded-2xl bg-[#111] border border-white/10 shadow-2xl">
+      {onCancel && (
+        <button type="button" onClick={onCancel} disabled={isWorking} className="absolute top-3 right-3 p-2 text-neutral-500 hover:text-white transition-colors">
+          <X size={18} />
+        </button>
+      )}
+
+      <div className="w-12 h-12 rounded-full border border-white/20 flex items-center justify-center text-cyan-400">
+        {isSetup ? <KeyRound size={20} /> : <Lock size={20} />}
+      </div>
+
+      <div className="flex flex-col items-center gap-1 text-center">
+        <span className="text-[10px] font-bold uppercase tracking-[0.2em] text-white">
+          {isSetup ? 'Protect hidden frames' : 'Hidden frames are locked'}
+        </span>
+        <span className="text-xs text-neutral-500">
+          {isSetup
+            ? 'Hidden frames, their media and drawings are encrypted with this passphrase. It cannot be recovered if you forget it.'
+            : 'Enter your passphrase to decrypt them.'}
+        </span>
+      </div>
+
+      <input
+        type="password"
+        autoFocus
+        value={passphrase}
+        onChange={(e) => setPassphrase(e.target.value)}
+        placeholder="Passphrase"
+        autoComplete={isSetup ? 'new-password' : 'current-password'}
+        className="w-full rounded-xl bg-[#141414] border border-white/5 px-4 py-3 text-sm text-white placeholder-neutral-700 outline-none focus:bg-[#1A1A1A] transition-colors"
+      />
+      {isSetup && (
+        <input
+          type="password"
+          value={confirm}
+          onChange={(e) => setConfirm(e.target.value)}
+          placeholder="Confirm passphrase"
+          autoComplete="new-password"
+          className="w-full -mt-2 rounded-xl bg-[#141414] border border-white/5 px-4 py-3 text-sm text-white placeholder-neutral-700 outline-none focus:bg-[#1A1A1A] transition-colors"
+        />
+      )}
+
+      {error && <p className="text-xs text-red-400 -mt-2">{error}</p>}
+
+      <button
+        type="submit"
+        disabled={isWorking || !passphrase}
+        className="w-full py-3 rounded-full bg-cyan-500 text-black text-xs font-bold uppercase tracking-widest active:scale-95 transition-transform disabled:opacity-50"
+      >
+        {isWorking ? (isSetup ? 'Encrypting...' : 'Unlocking...') : (isSetup ? 'Set passphrase' : 'Unlock')}
+      </button>
+    </form>
+  );
+};
+
+export default HiddenVaultGate;
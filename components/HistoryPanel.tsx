@@ -0,0 +1,161 @@
+import React, { useEffect, useState } from 'react';
+import { Block, Note } from '../types';
+import { NoteVersion, loadHistory, diffBlocks } from '../services/noteHistory';
+import { BlockRender } from './BlockRender';
+import { X, History, ArrowLeft, RotateCcw, CopyPlus } from 'lucide-react';
+
+interface HistoryPanelProps {
+  noteId: string;
+  current: Block[];
+  themeAccent: string;
+  onRestore: (version: Note) => void;
+  onCopyBlock: (block: Block) => void;
+  onClose: () => void;
+}
+
+const formatVersionTime = (timestamp: number): string =>
+  new Intl.DateTimeFormat('en-US', { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' }).format(new Date(timestamp));
+
+const describeDiff = (version: Block[], current: Block[]): string => {
+  const { changes, added } = diffBlocks(version, current);
+  const removed = Array.from(changes.values()).filter(change => change === 'removed').length;
+  const changed = Array.from(changes.values()).filter(change => change === 'changed').length;
+  const parts = [
+    added && `${added} added`,
+    removed && `${removed} removed`,
+    changed && `${changed} changed`,
+  ].filter(Boolean);
+  return parts.length ? `${parts.join(' · ')} since` : 'Same blocks as now';
+};
+
+const CHANGE_LABELS: Record<string, string> = {
+  removed: 'Removed since',
+  changed: 'Changed since',
+};
+
+const noop = () => undefined;
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ noteId, current, themeAccent, onRestore, onCopyBlock, onClose }) => {
+  const [versions, setVersions] = useState<NoteVersion[] | null>(null);
+  const [selected, setSelected] = useState<NoteVersion | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    loadHistory(noteId)
+      .then(list => setVersions([...list].reverse()))
+      .catch(e => {
+        console.error("History Load Error", e);
+        setVersions([]);
+      });
+  }, [noteId]);
+
+  const handleCopy = (block: Block) => {
+    onCopyBlock(block);
+    setCopiedId(block.id);
+    setTimeout(() => setCopiedId(curr => curr === block.id ? null : curr), 2000);
+  };
+
+  const changes = selected ? diffBlocks(selected.note.blocks, current).changes : null;
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/80 backdrop-blur-sm flex items-end sm:items-center justify-center animate-in fade-in duration-300">
+      <div className="w-full sm:max-w-2xl h-[90vh] flex flex-col bg-[#111] border border-white/10 rounded-t-2xl sm:rounded-2xl shadow-2xl pb-[env(safe-area-inset-bottom)]">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-white/5">
+          {selected ? (
+            <button onClick={() => setSelected(null)} className="flex items-center gap-2 text-neutral-400 hover:text-white transition-colors">
+              <ArrowLeft size={16} />
+              <span className="text-[10px] font-bold uppercase tracking-[0.2em]">{formatVersionTime(selected.savedAt)}</span>
+            </button>
+          ) : (
+            <div className="flex items-center gap-2 text-cyan-400">
+              <History size={16} />
+              <span className="text-[10px] font-bold uppercase tracking-[0.2em]">History</span>
+            </div>
+          )}
+          <button onClick={onClose} className="p-2 -mr-2 text-neutral-500 hover:text-white transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        {!selected && (
+          <div className="flex-grow overflow-y-auto no-scrollbar p-5 flex flex-col gap-3">
+            {versions && versions.length === 0 && (
+              <p className="text-xs text-neutral-500 leading-relaxed">
+                No earlier versions yet. A snapshot is taken when you open a frame and every few minutes while you edit it.
+              </p>
+            )}
+            {versions?.map(version => (
+              <button
+                key={version.savedAt}
+                onClick={() => setSelected(version)}
+                className="text-left rounded-xl border border-white/5 bg-[#141414] px-4 py-3 hover:bg-[#1A1A1A] transition-colors"
+              >
+                <span className="block text-[10px] uppercase tracking-wider text-neutral-500 font-bold">{formatVersionTime(version.savedAt)}</span>
+                <span className="block text-sm font-bold text-white truncate mt-1">{version.note.title || 'Untitled'}</span>
+                <span className="block text-xs text-neutral-500 mt-0.5">
+                  {version.note.blocks.length} {version.note.blocks.length === 1 ? 'block' : 'blocks'} · {describeDiff(version.note.blocks, current)}
+                </span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        {selected && changes && (
+          <>
+            <div className="flex-grow overflow-y-auto no-scrollbar px-6 py-5">
+              <p className="text-xs text-neutral-500 mb-4">{describeDiff(selected.note.blocks, current)}</p>
+              <h2 className="text-[2rem] leading-[1.1] font-bold text-white mb-6">{selected.note.title || 'Untitled'}</h2>
+              <div className="flex flex-col gap-6">
+                {selected.note.blocks.map((block, index) => {
+                  const change = changes.get(block.id);
+                  return (
+                    <div key={block.id} className="flex flex-col gap-2">
+                      <div className="flex items-center justify-between">
+                        <span className={`text-[10px] uppercase tracking-wider font-bold ${change === 'removed' ? 'text-red-400' : change === 'changed' ? 'text-amber-400' : 'text-neutral-700'}`}>
+                          {CHANGE_LABELS[change || ''] || 'Unchanged'}
+                        </span>
+                        <button
+                          onClick={() => handleCopy(block)}
+                          className="flex items-center gap-1.5 text-[10px] uppercase tracking-wider font-bold text-neutral-400 hover:text-white transition-colors"
+                        >
+                          <CopyPlus size={12} /> {copiedId === block.id ? 'Copied' : 'Copy to frame'}
+                        </button>
+                      </div>
+                      <BlockRender
+                        block={block}
+                        index={index}
+                        isEditing={false}
+                        onUpdate={noop}
+                        onUpdateDrawings={noop}
+                        onUpdateChecklist={noop}
+                        onUpdateSketch={noop}
+                        onDelete={noop}
+                        onDragStart={noop}
+                        onDragEnter={noop}
+                        onDragEnd={noop}
+                        onMove={noop}
+                        themeAccent={themeAccent}
+                        isFirst={index === 0}
+                        isLast={index === selected.note.blocks.length - 1}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+            <div className="p-5 border-t border-white/5">
+              <button
+                onClick={() => onRestore(selected.note)}
+                className="w-full py-3 rounded-full bg-cyan-500 text-black text-xs font-bold uppercase tracking-widest flex items-center justify-center gap-2 active:scale-95 transition-transform"
+              >
+                <RotateCcw size={14} strokeWidth={3} /> Restore this version
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -1,18 +1,47 @@
-import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { Note, Theme } from '../types';
+import React, { useState, useRef, useCallback, useEffect, useMemo } from 'react';
+import { Collection, NoteSummary, Theme } from '../types';
 import { AUTHOR_HANDLE, THEMES } from '../constants';
-import { getFirstImage, getPreviewText, formatDate } from '../utils';
-import { Plus, Search, Eye, EyeOff, Trash2, Pin, MoreVertical, PinOff } from 'lucide-react';
+import { useMediaUrl } from '../hooks/useMediaUrl';
+import { QuarantinedNote } from '../services/schema';
+import { VaultStatus } from '../services/hiddenVault';
+import { SearchIndex, SearchHit, HighlightPart } from '../services/searchIndex';
+import { countTags, hasAllTags } from '../services/tags';
+import { TRASH_RETENTION_OPTIONS, daysUntilPurge, isTrashed } from '../services/trash';
+import { parseQuery, createQueryMatcher, queryScopesHidden, suggestCompletions, applyCompletion } from '../services/searchQuery';
+import QuarantinePanel from './QuarantinePanel';
+import HiddenVaultGate from './HiddenVaultGate';
+import TagEditor from './TagEditor';
+import TagManager from './TagManager';
+import { Plus, Search, Eye, EyeOff, Trash2, Pin, MoreVertical, PinOff, AlertTriangle, Upload, Download, Lock, ShieldCheck, Tag, Tags, FolderOpen, BookmarkPlus, X, Check, RotateCcw, ListChecks, Mic } from 'lucide-react';
 
 interface HomeProps {
-  notes: Note[];
+  notes: NoteSummary[];
   onCreateNote: () => void;
-  onSelectNote: (note: Note) => void;
+  onSelectNote: (note: NoteSummary) => void;
   currentTheme: Theme;
   onSetTheme: (theme: Theme) => void;
-  onToggleHideNote: (note: Note) => void;
-  onTogglePinNote: (note: Note) => void;
+  onToggleHideNote: (note: NoteSummary) => void;
+  onTogglePinNote: (note: NoteSummary) => void;
   onDeleteNote: (id: string) => void;
+  quarantine: QuarantinedNote[];
+  onDismissQuarantined: (entry: QuarantinedNote) => void;
+  onExportVault: () => void;
+  onImportVault: (file: File) => void;
+  vaultStatus: VaultStatus;
+  onSubmitVaultPassphrase: (passphrase: string) => Promise<string | null>;
+  onLockVault: () => void;
+  onOpenAppLock: () => void;
+  searchIndex: SearchIndex;
+  collections: Collection[];
+  onSetNoteTags: (note: NoteSummary, tags: string[]) => void;
+  onRenameTag: (from: string, to: string) => Promise<void>;
+  onSaveCollection: (name: string, tags: string[]) => void;
+  onDeleteCollection: (id: string) => void;
+  retentionDays: number;
+  onSetRetention: (days: number) => void;
+  onRestoreNote: (note: NoteSummary) => void;
+  onRestoreAll: (notes: NoteSummary[]) => void;
+  onDeleteForever: (ids: string[]) => void;
 }
 
 const Home: React.FC<HomeProps> = ({ 
@@ -23,24 +52,114 @@ const Home: React.FC<HomeProps> = ({
     onSetTheme, 
     onToggleHideNote,
     onTogglePinNote,
-    onDeleteNote
+    onDeleteNote,
+    quarantine,
+    onDismissQuarantined,
+    onExportVault,
+    onImportVault,
+    vaultStatus,
+    onSubmitVaultPassphrase,
+    onLockVault,
+    onOpenAppLock,
+    searchIndex,
+    collections,
+    onSetNoteTags,
+    onRenameTag,
+    onSaveCollection,
+    onDeleteCollection,
+    retentionDays,
+    onSetRetention,
+    onRestoreNote,
+    onRestoreAll,
+    onDeleteForever
 }) => {
   const themeColors = THEMES[currentTheme];
   const [showHidden, setShowHidden] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [confirmEmpty, setConfirmEmpty] = useState(false);
   const [searchQuery, setSearchQuery] = useState('');
+  const [isSearchFocused, setIsSearchFocused] = useState(false);
+  const [showQuarantine, setShowQuarantine] = useState(false);
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [openCollectionId, setOpenCollectionId] = useState<string | null>(null);
+  const [collectionName, setCollectionName] = useState<string | null>(null); // non-null while naming a new collection
+  const [taggingNote, setTaggingNote] = useState<NoteSummary | null>(null);
+  const [showTagManager, setShowTagManager] = useState(false);
+  const [showMenu, setShowMenu] = useState(false);
+  const menuRef = useRef<HTMLDivElement>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  // Close menu on click outside
+  useEffect(() => {
+    const handleClickOutside = (event: MouseEvent) => {
+        if (menuRef.current && !menuRef.current.contains(event.target as Node)) {
+            setShowMenu(false);
+        }
+    };
+    if (showMenu) document.addEventListener('mousedown', handleClickOutside);
+    return () => document.removeEventListener('mousedown', handleClickOutside);
+  }, [showMenu]);
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (importInputRef.current) importInputRef.current.value = '';
+    if (file) onImportVault(file);
+  };
   
-  const filteredNotes = notes.filter(n => {
-      const matchesVisibility = showHidden ? n.isHidden : !n.isHidden;
-      let matchesSearch = true;
-      if (searchQuery.trim()) {
-          const query = searchQuery.toLowerCase();
-          matchesSearch = n.title.toLowerCase().includes(query) || 
-                          n.blocks.some(b => b.type === 'text' && b.content.toLowerCase().includes(query));
-      }
-      return matchesVisibility && matchesSearch;
+  const parsedQuery = useMemo(() => parseQuery(searchQuery), [searchQuery]);
+  const queryMatcher = useMemo(() => createQueryMatcher(parsedQuery, searchIndex), [parsedQuery, notes, searchIndex]);
+  // Ranked hits by note id; null unless the query has free text
+  const searchHits = queryMatcher.hits;
+  const completions = isSearchFocused ? suggestCompletions(searchQuery) : [];
+
+  // Collections open like the HIDDEN view: their own title, scoped to their tags
+  const openCollection = collections.find(c => c.id === openCollectionId) || null;
+
+  const viewNotes = notes.filter(n => {
+      // The Trash mixes both kinds; `is:hidden` searches across both views. Hidden ones need an open vault.
+      const matchesVisibility = showTrash || queryScopesHidden(parsedQuery)
+          ? !n.isHidden || vaultStatus === 'unlocked'
+          : showHidden ? n.isHidden : !n.isHidden;
+      if (isTrashed(n) !== showTrash) return false;
+      return matchesVisibility && (!openCollection || hasAllTags(n, openCollection.tags));
   });
 
+  const filteredNotes = viewNotes.filter(n => hasAllTags(n, selectedTags) && queryMatcher.matches(n));
+  const isFiltering = !!searchQuery.trim() || selectedTags.length > 0 || !!openCollection || showTrash;
+  const trashCount = notes.filter(n => isTrashed(n) && (!n.isHidden || vaultStatus === 'unlocked')).length;
+
+  // Chip counts follow the current view; selected tags stay visible even if no note uses them anymore
+  const tagCounts = countTags(viewNotes);
+  selectedTags.forEach(tag => { if (!tagCounts.some(t => t.tag === tag)) tagCounts.push({ tag, count: 0 }); });
+  const allTags = countTags(notes.filter(n => !isTrashed(n)));
+
+  const toggleTag = (tag: string) => {
+      setSelectedTags(current => current.includes(tag) ? current.filter(t => t !== tag) : [...current, tag]);
+  };
+
+  const switchView = (hidden: boolean, collectionId: string | null, trash = false) => {
+      setShowHidden(hidden);
+      setShowTrash(trash);
+      setConfirmEmpty(false);
+      setOpenCollectionId(collectionId);
+      setSelectedTags([]);
+      setCollectionName(null);
+  };
+
+  const handleSaveCollection = () => {
+      const name = collectionName?.trim();
+      if (!name) return;
+      onSaveCollection(name, Array.from(new Set([...(openCollection?.tags || []), ...selectedTags])));
+      setCollectionName(null);
+  };
+
+  // Hidden frames stay encrypted until the vault is unlocked
+  const isHiddenLocked = showHidden && vaultStatus !== 'unlocked';
+
   const sortedNotes = [...filteredNotes].sort((a, b) => {
+      // While searching, relevance decides the order
+      if (searchHits) return searchHits.get(b.id)!.score - searchHits.get(a.id)!.score;
+      if (showTrash) return b.deletedAt! - a.deletedAt!;
       if (a.isPinned !== b.isPinned) return a.isPinned ? -1 : 1;
       return b.updatedAt - a.updatedAt;
   });
@@ -55,19 +174,68 @@ const Home: React.FC<HomeProps> = ({
               <span className="text-[10px] font-bold uppercase tracking-[0.2em] text-neutral-500 mb-1">
                 {AUTHOR_HANDLE}
               </span>
-              <h1 className="text-[2.5rem] font-bold tracking-tighter text-white leading-none">
-                  {showHidden ? 'HIDDEN' : 'FRAMES'}
+              <h1 className="text-[2.5rem] font-bold tracking-tighter text-white leading-none truncate max-w-[60vw]">
+                  {showHidden ? 'HIDDEN' : showTrash ? 'TRASH' : openCollection ? openCollection.name.toUpperCase() : 'FRAMES'}
               </h1>
             </div>
 
             {/* Top Right Controls */}
             <div className="flex items-center gap-4">
+                 {showHidden && vaultStatus === 'unlocked' && (
+                    <button
+                        onClick={onLockVault}
+                        className="p-2 text-neutral-500 hover:text-white transition-colors"
+                    >
+                        <Lock size={20} />
+                    </button>
+                 )}
+                 {(openCollection || showTrash) && (
+                    <button
+                        onClick={() => switchView(false, null)}
+                        className="p-2 text-neutral-500 hover:text-white transition-colors"
+                    >
+                        <X size={22} />
+                    </button>
+                 )}
                  <button 
-                    onClick={() => setShowHidden(!showHidden)}
+                    onClick={() => switchView(!showHidden, null)}
                     className="p-2 text-neutral-500 hover:text-white transition-colors"
                 >
                     {showHidden ? <EyeOff size={22} /> : <Eye size={22} />}
                 </button>
+
+                {/* Vault Menu */}
+                <div className="relative" ref={menuRef}>
+                    <button 
+                        onClick={() => setShowMenu(!showMenu)}
+                        className="p-2 -mr-2 text-neutral-500 hover:text-white transition-colors"
+                    >
+                        <MoreVertical size={20} />
+                    </button>
+
+                    {showMenu && (
+                        <div className="absolute right-0 top-full mt-2 w-48 bg-[#1A1A1A] border border-white/10 rounded-xl shadow-2xl overflow-hidden z-50 animate-in fade-in zoom-in-95 origin-top-right">
+                            <button onClick={() => { onExportVault(); setShowMenu(false); }} className="w-full flex items-center gap-3 px-4 py-3.5 text-sm text-neutral-300 hover:bg-white/5 hover:text-white transition-colors">
+                                <Upload size={16} /> Export vault
+                            </button>
+                            <button onClick={() => { importInputRef.current?.click(); setShowMenu(false); }} className="w-full flex items-center gap-3 px-4 py-3.5 text-sm text-neutral-300 hover:bg-white/5 hover:text-white transition-colors">
+                                <Download size={16} /> Import vault
+                            </button>
+                            <button onClick={() => { setShowTagManager(true); setShowMenu(false); }} className="w-full flex items-center gap-3 px-4 py-3.5 text-sm text-neutral-300 hover:bg-white/5 hover:text-white transition-colors">
+                                <Tags size={16} /> Manage tags
+                            </button>
+                            <button onClick={() => { switchView(false, null, true); setShowMenu(false); }} className="w-full flex items-center gap-3 px-4 py-3.5 text-sm text-neutral-300 hover:bg-white/5 hover:text-white transition-colors">
+                                <Trash2 size={16} /> Trash
+                                {trashCount > 0 && <span className="ml-auto text-xs text-neutral-500">{trashCount}</span>}
+                            </button>
+                            <div className="h-px bg-white/5 my-1" />
+                            <button onClick={() => { onOpenAppLock(); setShowMenu(false); }} className="w-full flex items-center gap-3 px-4 py-3.5 text-sm text-neutral-300 hover:bg-white/5 hover:text-white transition-colors">
+                                <ShieldCheck size={16} /> App lock
+                            </button>
+                        </div>
+                    )}
+                    <input type="file" ref={importInputRef} className="hidden" accept=".zip,application/zip" onChange={handleImportFile} />
+                </div>
             </div>
         </div>
         
@@ -79,6 +247,8 @@ const Home: React.FC<HomeProps> = ({
                  type="text" 
                  value={searchQuery}
                  onChange={(e) => setSearchQuery(e.target.value)}
+                 onFocus={() => setIsSearchFocused(true)}
+                 onBlur={() => setIsSearchFocused(false)}
                  placeholder="Search memory..." 
                  className="bg-transparent outline-none w-full text-sm text-white placeholder-neutral-700 font-medium"
                />
@@ -99,60 +269,263 @@ const Home: React.FC<HomeProps> = ({
                 ))}
             </div>
         </div>
-      </header>
 
-      {/* Grid Layout */}
-      <div className="px-4 pt-4 grid grid-cols-2 gap-3 auto-rows-max">
-        {/* Create Card (Always first) */}
-        {!showHidden && (
-            <button 
-              onClick={onCreateNote}
-              className="group relative w-full aspect-[3/4] rounded-lg border border-white/10 bg-[#0A0A0A] flex flex-col items-center justify-center gap-3 hover:bg-[#111] active:scale-95 transition-all overflow-hidden"
+        {/* Query Errors & Operator Suggestions */}
+        {parsedQuery.errors.length > 0 && (
+            <p className="-mt-2 px-1 text-[10px] font-medium text-red-400">
+                {parsedQuery.errors.join(' · ')}
+            </p>
+        )}
+        {completions.length > 0 && (
+            <div className="-mt-2 flex gap-2 overflow-x-auto no-scrollbar">
+                {completions.map(completion => (
+                    <button
+                      key={completion}
+                      // Keep the input focused so the chip doesn't vanish before the click lands
+                      onMouseDown={(e) => e.preventDefault()}
+                      onClick={() => setSearchQuery(applyCompletion(searchQuery, completion))}
+                      className="shrink-0 px-2.5 py-1 rounded-full border border-white/10 bg-[#141414] text-[10px] font-bold tracking-wider text-neutral-400 hover:text-white hover:border-white/30 transition-colors"
+                    >
+                        {completion}
+                    </button>
+                ))}
+            </div>
+        )}
+
+        {/* Trash Controls */}
+        {showTrash && (
+            <div className="flex items-center justify-between gap-3">
+                <div className="flex items-center gap-1.5">
+                    <span className="text-[10px] uppercase tracking-widest text-neutral-600 font-bold mr-1">Keep</span>
+                    {TRASH_RETENTION_OPTIONS.map(days => (
+                        <button
+                          key={days}
+                          onClick={() => onSetRetention(days)}
+                          className={`px-2.5 py-1 rounded-full border text-[10px] font-bold tracking-wider transition-colors ${retentionDays === days ? 'border-cyan-400/50 bg-cyan-400/10 text-cyan-400' : 'border-white/10 bg-[#141414] text-neutral-400 hover:text-white'}`}
+                        >
+                            {days}d
+                        </button>
+                    ))}
+                </div>
+                {sortedNotes.length > 0 && (
+                    <div className="flex items-center gap-1.5">
+                        <button
+                          onClick={() => onRestoreAll(sortedNotes)}
+                          className="px-2.5 py-1 rounded-full border border-white/10 bg-[#141414] text-[10px] font-bold uppercase tracking-wider text-neutral-300 hover:text-white transition-colors"
+                        >
+                            Restore all
+                        </button>
+                        <button
+                          onClick={() => {
+                              if (!confirmEmpty) return setConfirmEmpty(true);
+                              onDeleteForever(sortedNotes.map(n => n.id));
+                              setConfirmEmpty(false);
+                          }}
+                          className={`px-2.5 py-1 rounded-full border text-[10px] font-bold uppercase tracking-wider transition-colors ${confirmEmpty ? 'border-red-500/50 bg-red-500/10 text-red-400' : 'border-red-500/20 text-red-400/80 hover:text-red-400'}`}
+                        >
+                            {confirmEmpty ? 'Tap to confirm' : 'Empty'}
+                        </button>
+                    </div>
+                )}
+            </div>
+        )}
+
+        {/* Collections & Tag Filters */}
+        {!isHiddenLocked && !showTrash && (tagCounts.length > 0 || (collections.length > 0 && !showHidden && !openCollection)) && (
+            <div className="flex gap-2 overflow-x-auto no-scrollbar -mx-6 px-6">
+                {!showHidden && !openCollection && collections.map(collection => (
+                    <button
+                      key={collection.id}
+                      onClick={() => switchView(false, collection.id)}
+                      className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-full border border-white/10 bg-[#141414] text-[10px] font-bold uppercase tracking-wider text-neutral-300 hover:text-white transition-colors"
+                    >
+                        <FolderOpen size={12} /> {collection.name}
+                    </button>
+                ))}
+                {!showHidden && !openCollection && collections.length > 0 && tagCounts.length > 0 && (
+                    <div className="shrink-0 w-px my-1 bg-white/10" />
+                )}
+                {tagCounts.map(({ tag, count }) => {
+                    const isSelected = selectedTags.includes(tag);
+                    return (
+                        <button
+                          key={tag}
+                          onClick={() => toggleTag(tag)}
+                          className={`shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-full border text-[10px] font-bold tracking-wider transition-colors ${isSelected ? 'border-cyan-400/50 bg-cyan-400/10 text-cyan-400' : 'border-white/10 bg-[#141414] text-neutral-400 hover:text-white'}`}
+                        >
+                            #{tag} <span className={isSelected ? 'text-cyan-400/60' : 'text-neutral-600'}>{count}</span>
+                        </button>
+                    );
+                })}
+                {selectedTags.length > 0 && !showHidden && collectionName === null && (
+                    <button
+                      onClick={() => setCollectionName('')}
+                      className="shrink-0 flex items-center gap-1.5 px-3 py-1.5 rounded-full border border-dashed border-white/20 text-[10px] font-bold uppercase tracking-wider text-neutral-400 hover:text-white transition-colors"
+                    >
+                        <BookmarkPlus size={12} /> Save
+                    </button>
+                )}
+            </div>
+        )}
+        {collectionName !== null && (
+            <div className="flex items-center gap-2">
+                <input
+                  type="text"
+                  autoFocus
+                  value={collectionName}
+                  onChange={(e) => setCollectionName(e.target.value)}
+                  onKeyDown={(e) => { if (e.key === 'Enter') handleSaveCollection(); if (e.key === 'Escape') setCollectionName(null); }}
+                  placeholder="Collection name"
+                  className="flex-grow rounded-xl bg-[#141414] border border-white/5 px-4 py-2.5 text-sm text-white placeholder-neutral-700 outline-none focus:bg-[#1A1A1A] transition-colors"
+                />
+                <button onClick={handleSaveCollection} disabled={!collectionName.trim()} className="p-2.5 rounded-full bg-cyan-500 text-black active:scale-95 transition-transform disabled:opacity-50">
+                    <Check size={14} strokeWidth={3} />
+                </button>
+                <button onClick={() => setCollectionName(null)} className="p-2 text-neutral-500 hover:text-white transition-colors">
+                    <X size={16} />
+                </button>
+            </div>
+        )}
+
+        {/* Quarantine Notice */}
+        {quarantine.length > 0 && (
+            <button
+              onClick={() => setShowQuarantine(true)}
+              className="flex items-center gap-2 px-3 py-2 rounded-lg border border-amber-400/20 bg-amber-400/5 text-amber-400 text-[10px] font-bold uppercase tracking-wider hover:bg-amber-400/10 transition-colors"
             >
-               <div className="w-12 h-12 rounded-full border border-white/20 flex items-center justify-center group-hover:border-cyan-400/50 transition-colors">
-                  <Plus size={24} className="text-white group-hover:text-cyan-400 transition-colors" />
-               </div>
-               <span className="text-[10px] uppercase tracking-widest text-neutral-500 font-bold group-hover:text-white transition-colors">New Frame</span>
-               
-               {/* Subtle gradient effect on hover */}
-               <div className="absolute inset-0 bg-gradient-to-tr from-cyan-500/10 to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
+              <AlertTriangle size={12} />
+              {quarantine.length} {quarantine.length === 1 ? 'frame' : 'frames'} could not be loaded
             </button>
         )}
+      </header>
 
-        {sortedNotes.map(note => (
-            <NoteCard 
-                key={note.id} 
-                note={note} 
-                onSelect={onSelectNote} 
-                onToggleHide={onToggleHideNote}
-                onTogglePin={onTogglePinNote}
-                onDelete={onDeleteNote}
-                themeColors={themeColors}
-            />
-        ))}
-
-        {sortedNotes.length === 0 && !showHidden && (
-           <div className="col-span-full flex flex-col items-center justify-center py-20 opacity-30 pointer-events-none">
-             <p className="text-[10px] tracking-[0.2em] uppercase font-bold text-neutral-600">Your vault is empty</p>
-           </div>
-        )}
-      </div>
+      {isHiddenLocked && (
+          <div className="px-4 pt-8">
+              <HiddenVaultGate
+                key={vaultStatus}
+                mode={vaultStatus === 'unset' ? 'unset' : 'locked'}
+                onSubmit={onSubmitVaultPassphrase}
+              />
+          </div>
+      )}
+
+      {/* Grid Layout */}
+      {!isHiddenLocked && (
+        <div className="px-4 pt-4 grid grid-cols-2 gap-3 auto-rows-max">
+          {/* Create Card (Always first) */}
+          {!showHidden && !showTrash && !openCollection && (
+              <button 
+                onClick={onCreateNote}
+                className="group relative w-full aspect-[3/4] rounded-lg border border-white/10 bg-[#0A0A0A] flex flex-col items-center justify-center gap-3 hover:bg-[#111] active:scale-95 transition-all overflow-hidden"
+              >
+                 <div className="w-12 h-12 rounded-full border border-white/20 flex items-center justify-center group-hover:border-cyan-400/50 transition-colors">
+                    <Plus size={24} className="text-white group-hover:text-cyan-400 transition-colors" />
+                 </div>
+                 <span className="text-[10px] uppercase tracking-widest text-neutral-500 font-bold group-hover:text-white transition-colors">New Frame</span>
+                 
+                 {/* Subtle gradient effect on hover */}
+                 <div className="absolute inset-0 bg-gradient-to-tr from-cyan-500/10 to-transparent opacity-0 group-hover:opacity-100 transition-opacity" />
+              </button>
+          )}
+
+          {sortedNotes.map(note => (
+              <NoteCard 
+                  key={note.id} 
+                  note={note} 
+                  onSelect={onSelectNote} 
+                  onToggleHide={onToggleHideNote}
+                  onTogglePin={onTogglePinNote}
+                  onDelete={onDeleteNote}
+                  onEditTags={setTaggingNote}
+                  onRestore={onRestoreNote}
+                  onDeleteForever={(id) => onDeleteForever([id])}
+                  retentionDays={retentionDays}
+                  themeColors={themeColors}
+                  match={searchHits?.get(note.id)}
+              />
+          ))}
+
+          {sortedNotes.length === 0 && showTrash && !searchQuery.trim() && (
+             <div className="col-span-full flex flex-col items-center justify-center py-20 opacity-30 pointer-events-none">
+               <p className="text-[10px] tracking-[0.2em] uppercase font-bold text-neutral-600">Trash is empty</p>
+             </div>
+          )}
+
+          {sortedNotes.length === 0 && isFiltering && !(showTrash && !searchQuery.trim()) && (
+             <div className="col-span-full flex flex-col items-center justify-center py-20 opacity-30 pointer-events-none">
+               <p className="text-[10px] tracking-[0.2em] uppercase font-bold text-neutral-600">No matching frames</p>
+             </div>
+          )}
+
+          {sortedNotes.length === 0 && !showHidden && !isFiltering && (
+             <div className="col-span-full flex flex-col items-center justify-center py-20 opacity-30 pointer-events-none">
+               <p className="text-[10px] tracking-[0.2em] uppercase font-bold text-neutral-600">Your vault is empty</p>
+             </div>
+          )}
+        </div>
+      )}
+
+      {taggingNote && (
+          <TagEditor
+            tags={notes.find(n => n.id === taggingNote.id)?.tags || taggingNote.tags}
+            knownTags={allTags}
+            onChange={(tags) => onSetNoteTags(taggingNote, tags)}
+            onClose={() => setTaggingNote(null)}
+          />
+      )}
+
+      {showTagManager && (
+          <TagManager
+            tags={allTags}
+            collections={collections}
+            onRenameTag={onRenameTag}
+            onDeleteCollection={(id) => {
+                if (id === openCollectionId) switchView(false, null);
+                onDeleteCollection(id);
+            }}
+            onClose={() => setShowTagManager(false)}
+          />
+      )}
+
+      {showQuarantine && quarantine.length > 0 && (
+          <QuarantinePanel
+            entries={quarantine}
+            onDismiss={onDismissQuarantined}
+            onClose={() => setShowQuarantine(false)}
+          />
+      )}
     </div>
   );
 };
 
 interface NoteCardProps {
-    note: Note;
-    onSelect: (note: Note) => void;
-    onToggleHide: (note: Note) => void;
-    onTogglePin: (note: Note) => void;
+    note: NoteSummary;
+    onSelect: (note: NoteSummary) => void;
+    onToggleHide: (note: NoteSummary) => void;
+    onTogglePin: (note: NoteSummary) => void;
     onDelete: (id: string) => void;
+    onEditTags: (note: NoteSummary) => void;
+    onRestore: (note: NoteSummary) => void;
+    onDeleteForever: (id: string) => void;
+    retentionDays: number;
     themeColors: any;
+    match?: SearchHit; // Present while the card is a search result
 }
 
-const NoteCard: React.FC<NoteCardProps> = ({ note, onSelect, onToggleHide, onTogglePin, onDelete, themeColors }) => {
-    const coverImage = getFirstImage(note.blocks);
-    const previewText = getPreviewText(note.blocks);
+const Highlighted: React.FC<{ parts: HighlightPart[]; accent: string }> = ({ parts, accent }) => (
+    <>
+        {parts.map((part, i) => part.match
+            ? <mark key={i} className={`bg-transparent font-bold ${accent}`}>{part.text}</mark>
+            : <React.Fragment key={i}>{part.text}</React.Fragment>
+        )}
+    </>
+);
+
+const NoteCard: React.FC<NoteCardProps> = ({ note, onSelect, onToggleHide, onTogglePin, onDelete, onEditTags, onRestore, onDeleteForever, retentionDays, themeColors, match }) => {
+    const isInTrash = isTrashed(note);
+    const coverBlock = note.cover;
+    const coverImage = useMediaUrl(coverBlock?.ref);
+    const previewText = note.previewText;
     const [isPressing, setIsPressing] = useState(false);
     const [showMenu, setShowMenu] = useState(false);
     const menuRef = useRef<HTMLDivElement>(null);
@@ -169,14 +542,14 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onSelect, onToggleHide, onTog
     }, [showMenu]);
 
     const startPress = useCallback(() => {
-        if (showMenu) return;
+        if (showMenu || isInTrash) return;
         setIsPressing(true);
         timerRef.current = setTimeout(() => {
             setIsPressing(false);
             if (navigator.vibrate) navigator.vibrate(50);
             onTogglePin(note);
         }, 500); 
-    }, [note, onTogglePin, showMenu]);
+    }, [note, onTogglePin, showMenu, isInTrash]);
 
     const endPress = useCallback(() => {
         setIsPressing(false);
@@ -202,19 +575,24 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onSelect, onToggleHide, onTog
           onMouseLeave={endPress}
           onClick={(e) => {
              if ((e.target as HTMLElement).closest('.card-menu-btn')) return;
-             if (!isPressing && !timerRef.current && !showMenu) {
+             if (isInTrash) {
+                 // Trashed frames don't open; a tap offers restore / delete instead
+                 setShowMenu(true);
+             } else if (!isPressing && !timerRef.current && !showMenu) {
                  onSelect(note);
              }
           }}
         >
           <div className={`relative w-full aspect-[3/4] rounded-lg overflow-hidden bg-[#141414] shadow-md border border-white/5 transition-all duration-300 ${isPressing ? 'scale-95 opacity-80' : 'active:scale-95'}`}>
             
-            {coverImage ? (
+            {coverBlock ? (
               <div className="absolute inset-0">
-                {coverImage.startsWith('data:video') ? (
+                {!coverImage ? (
+                   <div className="w-full h-full bg-[#141414]" />
+                ) : coverBlock.type === 'video' ? (
                    <video src={coverImage} className="w-full h-full object-cover" muted playsInline loop />
                 ) : (
-                   <img src={coverImage} alt="Cover" className="w-full h-full object-cover" loading="lazy" />
+                   <img src={coverImage} alt="Cover" className={`w-full h-full ${coverBlock.type === 'sketch' ? 'object-contain' : 'object-cover'}`} loading="lazy" />
                 )}
                 <div className="absolute inset-0 bg-gradient-to-t from-black/90 via-transparent to-black/10" />
               </div>
@@ -236,8 +614,28 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onSelect, onToggleHide, onTog
                  {showMenu && (
                      <div 
                         ref={menuRef}
-                        className="absolute top-full right-0 mt-2 w-28 bg-[#1A1A1A] border border-white/10 rounded-lg shadow-xl overflow-hidden animate-in fade-in zoom-in-95 origin-top-right flex flex-col p-1 z-50"
+                        className={`absolute top-full right-0 mt-2 ${isInTrash ? 'w-36' : 'w-28'} bg-[#1A1A1A] border border-white/10 rounded-lg shadow-xl overflow-hidden animate-in fade-in zoom-in-95 origin-top-right flex flex-col p-1 z-50`}
                      >
+                       {isInTrash ? (
+                         <>
+                         <button 
+                            onClick={(e) => { e.stopPropagation(); onRestore(note); setShowMenu(false); }}
+                            className="card-menu-btn flex items-center gap-2 px-2 py-2 text-[10px] uppercase tracking-wider font-bold text-neutral-300 hover:bg-white/10 rounded transition-colors"
+                         >
+                            <RotateCcw size={12} />
+                            Restore
+                         </button>
+                         <div className="h-px bg-white/5 my-0.5" />
+                         <button 
+                            onClick={(e) => { e.stopPropagation(); onDeleteForever(note.id); setShowMenu(false); }}
+                            className="card-menu-btn flex items-center gap-2 px-2 py-2 text-[10px] uppercase tracking-wider font-bold text-red-400 hover:bg-red-500/10 rounded transition-colors"
+                         >
+                            <Trash2 size={12} />
+                            Delete forever
+                         </button>
+                         </>
+                       ) : (
+                         <>
                          <button 
                             onClick={(e) => { e.stopPropagation(); onTogglePin(note); setShowMenu(false); }}
                             className="card-menu-btn flex items-center gap-2 px-2 py-2 text-[10px] uppercase tracking-wider font-bold text-neutral-300 hover:bg-white/10 rounded transition-colors"
@@ -245,6 +643,13 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onSelect, onToggleHide, onTog
                             {note.isPinned ? <PinOff size={12} /> : <Pin size={12} />}
                             {note.isPinned ? 'Unpin' : 'Pin'}
                          </button>
+                         <button 
+                            onClick={(e) => { e.stopPropagation(); onEditTags(note); setShowMenu(false); }}
+                            className="card-menu-btn flex items-center gap-2 px-2 py-2 text-[10px] uppercase tracking-wider font-bold text-neutral-300 hover:bg-white/10 rounded transition-colors"
+                         >
+                            <Tag size={12} />
+                            Tags
+                         </button>
                          <div className="h-px bg-white/5 my-0.5" />
                          <button 
                             onClick={(e) => { e.stopPropagation(); onDelete(note.id); setShowMenu(false); }}
@@ -253,12 +658,18 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onSelect, onToggleHide, onTog
                             <Trash2 size={12} />
                             Delete
                          </button>
+                         </>
+                       )}
                      </div>
                  )}
             </div>
 
-            {/* Pin Indicator */}
-            {note.isPinned && (
+            {/* Pin Indicator / Days left in the Trash */}
+            {isInTrash ? (
+                <div className="absolute top-3 left-3 text-[9px] font-bold uppercase tracking-wider text-red-400/80">
+                    {daysUntilPurge(note, retentionDays)}d left
+                </div>
+            ) : note.isPinned && (
                 <div className="absolute top-3 left-3">
                     <Pin size={12} className="text-cyan-400 drop-shadow-[0_0_8px_rgba(34,211,238,0.5)]" fill="currentColor" />
                 </div>
@@ -266,11 +677,21 @@ const NoteCard: React.FC<NoteCardProps> = ({ note, onSelect, onToggleHide, onTog
             
             {/* Info Overlay */}
             <div className="absolute bottom-0 left-0 right-0 p-3 pt-6 pointer-events-none">
+              {(note.checklist || note.blockTypes.includes('audio')) && (
+                <div className="flex items-center gap-2 mb-1 drop-shadow-lg">
+                  {note.blockTypes.includes('audio') && <Mic size={10} className="text-neutral-300" />}
+                  {note.checklist && (
+                    <span className={`flex items-center gap-1 text-[9px] font-bold tracking-wider ${note.checklist.done === note.checklist.total ? themeColors.accent : 'text-neutral-300'}`}>
+                        <ListChecks size={10} /> {note.checklist.done}/{note.checklist.total}
+                    </span>
+                  )}
+                </div>
+              )}
               <h3 className="text-white font-bold text-sm leading-tight line-clamp-2 mb-1 drop-shadow-lg">
-                {note.title || 'Untitled'}
+                {match && note.title ? <Highlighted parts={match.title} accent={themeColors.accent} /> : note.title || 'Untitled'}
               </h3>
-              <p className="text-[10px] text-neutral-400 line-clamp-1 font-medium">
-                {previewText}
+              <p className={`text-[10px] text-neutral-400 font-medium ${match?.snippet ? 'line-clamp-3' : 'line-clamp-1'}`}>
+                {match?.snippet ? <Highlighted parts={match.snippet} accent={themeColors.accent} /> : previewText}
               </p>
             </div>
           </div>
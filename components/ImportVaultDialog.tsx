@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { ImportConflictStrategy, ImportSummary, VaultArchive } from '../services/vaultArchive';
+import { formatDate } from '../utils';
+import { X, Download, Check } from 'lucide-react';
+
+interface ImportVaultDialogProps {
+  archive: VaultArchive;
+  conflicts: number;
+  onConfirm: (strategy: ImportConflictStrategy) => Promise<ImportSummary>;
+  onClose: () => void;
+}
+
+const ImportVaultDialog: React.FC<ImportVaultDialogProps> = ({ archive, conflicts, onConfirm, onClose }) => {
+  const [strategy, setStrategy] = useState<ImportConflictStrategy>('newer');
+  const [isImporting, setIsImporting] = useState(false);
+  const [summary, setSummary] = useState<ImportSummary | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = async () => {
+    setIsImporting(true);
+    setError(null);
+    try {
+      setSummary(await onConfirm(strategy));
+    } catch (e) {
+      console.error("Vault Import Error", e);
+      setError((e as Error)?.message || 'Import failed');
+    }
+    setIsImporting(false);
+  };
+
+  const options: { id: ImportConflictStrategy; label: string; hint: string }[] = [
+    { id: 'newer', label: 'Keep newer', hint: 'The most recently edited copy of each frame wins' },
+    { id: 'keep-both', label: 'Keep both', hint: 'Changed frames are imported as separate copies' },
+  ];
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/80 backdrop-blur-sm flex items-end sm:items-center justify-center animate-in fade-in duration-300">
+      <div className="w-full sm:max-w-md flex flex-col bg-[#111] border border-white/10 rounded-t-2xl sm:rounded-2xl shadow-2xl pb-[env(safe-area-inset-bottom)]">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-white/5">
+          <div className="flex items-center gap-2 text-cyan-400">
+            <Download size={16} />
+            <span className="text-[10px] font-bold uppercase tracking-[0.2em]">Import Vault</span>
+          </div>
+          <button onClick={onClose} disabled={isImporting} className="p-2 -mr-2 text-neutral-500 hover:text-white transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        {summary ? (
+          <div className="p-5 flex flex-col gap-4">
+            <div className="grid grid-cols-3 gap-3">
+              {[
+                { label: 'Added', value: summary.added },
+                { label: 'Updated', value: summary.updated },
+                { label: 'Skipped', value: summary.skipped },
+              ].map(item => (
+                <div key={item.label} className="rounded-xl bg-[#141414] border border-white/5 py-4 flex flex-col items-center gap-1">
+                  <span className="text-2xl font-bold text-white">{item.value}</span>
+                  <span className="text-[10px] uppercase tracking-widest text-neutral-500 font-bold">{item.label}</span>
+                </div>
+              ))}
+            </div>
+            {summary.quarantined > 0 && (
+              <p className="text-xs text-amber-400/80">
+                {summary.quarantined} unreadable {summary.quarantined === 1 ? 'frame was' : 'frames were'} moved to quarantine.
+              </p>
+            )}
+            <button onClick={onClose} className="w-full py-3 rounded-full bg-cyan-500 text-black text-xs font-bold uppercase tracking-widest flex items-center justify-center gap-2 active:scale-95 transition-transform">
+              <Check size={14} strokeWidth={3} /> Done
+            </button>
+          </div>
+        ) : (
+          <div className="p-5 flex flex-col gap-4">
+            <p className="text-sm text-neutral-300">
+              {archive.notes.length} {archive.notes.length === 1 ? 'frame' : 'frames'} and {archive.media.size} media files
+              <span className="text-neutral-500"> · exported {formatDate(archive.exportedAt)}</span>
+            </p>
+
+            {conflicts > 0 && (
+              <div className="flex flex-col gap-2">
+                <span className="text-[10px] uppercase tracking-widest text-neutral-500 font-bold">
+                  {conflicts} {conflicts === 1 ? 'frame exists' : 'frames exist'} in this vault
+                </span>
+                {options.map(option => (
+                  <button
+                    key={option.id}
+                    onClick={() => setStrategy(option.id)}
+                    className={`text-left rounded-xl border px-4 py-3 transition-colors ${strategy === option.id ? 'border-cyan-400/50 bg-cyan-400/5' : 'border-white/5 bg-[#141414] hover:bg-[#1A1A1A]'}`}
+                  >
+                    <span className={`block text-sm font-bold ${strategy === option.id ? 'text-cyan-400' : 'text-white'}`}>{option.label}</span>
+                    <span className="block text-xs text-neutral-500 mt-0.5">{option.hint}</span>
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {error && <p className="text-xs text-red-400">{error}</p>}
+
+            <button
+              onClick={handleImport}
+              disabled={isImporting}
+              className="w-full py-3 rounded-full bg-cyan-500 text-black text-xs font-bold uppercase tracking-widest active:scale-95 transition-transform disabled:opacity-50"
+            >
+              {isImporting ? 'Importing...' : 'Import'}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ImportVaultDialog;
@@ -0,0 +1,87 @@
+import React, { useState } from 'react';
+import { QuarantinedNote } from '../services/schema';
+import { formatDate } from '../utils';
+import { X, Copy, Check, Trash2, AlertTriangle } from 'lucide-react';
+
+interface QuarantinePanelProps {
+  entries: QuarantinedNote[];
+  onDismiss: (entry: QuarantinedNote) => void;
+  onClose: () => void;
+}
+
+const QuarantinePanel: React.FC<QuarantinePanelProps> = ({ entries, onDismiss, onClose }) => {
+  const [copiedIndex, setCopiedIndex] = useState<number | null>(null);
+  const [confirmIndex, setConfirmIndex] = useState<number | null>(null);
+
+  const handleCopy = async (entry: QuarantinedNote, index: number) => {
+    try {
+      await navigator.clipboard.writeText(JSON.stringify(entry.raw, null, 2));
+      setCopiedIndex(index);
+      setTimeout(() => setCopiedIndex(curr => curr === index ? null : curr), 2000);
+    } catch (e) { console.error(e); }
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/80 backdrop-blur-sm flex items-end sm:items-center justify-center animate-in fade-in duration-300">
+      <div className="w-full sm:max-w-lg max-h-[85vh] flex flex-col bg-[#111] border border-white/10 rounded-t-2xl sm:rounded-2xl shadow-2xl pb-[env(safe-area-inset-bottom)]">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-white/5">
+          <div className="flex items-center gap-2 text-amber-400">
+            <AlertTriangle size={16} />
+            <span className="text-[10px] font-bold uppercase tracking-[0.2em]">Quarantine</span>
+          </div>
+          <button onClick={onClose} className="p-2 -mr-2 text-neutral-500 hover:text-white transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <p className="px-5 pt-4 text-xs text-neutral-500 leading-relaxed">
+          These frames could not be read safely. They are kept here untouched so nothing is lost.
+        </p>
+
+        <div className="flex-grow overflow-y-auto no-scrollbar p-5 flex flex-col gap-4">
+          {entries.map((entry, index) => (
+            <div key={`${entry.id}-${entry.quarantinedAt}-${index}`} className="rounded-xl border border-white/5 bg-[#141414] p-4 flex flex-col gap-3">
+              <div className="flex items-start justify-between gap-3">
+                <div className="flex flex-col gap-1 min-w-0">
+                  <span className="text-sm font-bold text-white truncate">
+                    {(entry.raw as any)?.title || 'Untitled'}
+                  </span>
+                  <span className="text-[10px] uppercase tracking-wider text-neutral-500">
+                    {formatDate(entry.quarantinedAt)} · schema v{entry.schemaVersion}
+                  </span>
+                </div>
+                <div className="flex items-center gap-1 shrink-0">
+                  <button
+                    onClick={() => handleCopy(entry, index)}
+                    className="p-2 rounded-full text-neutral-400 hover:text-white hover:bg-white/5 transition-colors"
+                  >
+                    {copiedIndex === index ? <Check size={14} className="text-cyan-400" /> : <Copy size={14} />}
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirmIndex === index) {
+                        onDismiss(entry);
+                        setConfirmIndex(null);
+                      } else {
+                        setConfirmIndex(index);
+                      }
+                    }}
+                    className={`p-2 rounded-full transition-colors ${confirmIndex === index ? 'text-red-400 bg-red-500/10' : 'text-neutral-600 hover:text-red-400'}`}
+                  >
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              </div>
+              <p className="text-xs text-amber-400/80">{entry.reason}</p>
+              <pre className="text-[10px] text-neutral-500 bg-black/40 rounded-lg p-3 max-h-40 overflow-auto whitespace-pre-wrap break-all select-text">
+                {JSON.stringify(entry.raw, null, 2)}
+              </pre>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QuarantinePanel;
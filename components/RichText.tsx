@@ -0,0 +1,62 @@
+import React from 'react';
+import { InlineSpan, LineKind, parseRichText } from '../services/richText';
+
+interface RichTextProps {
+  content: string;
+  themeAccent: string;
+}
+
+const LINE_CLASSES: Record<LineKind, string> = {
+  paragraph: '',
+  h1: 'text-[1.75rem] leading-tight font-bold mt-2',
+  h2: 'text-2xl leading-tight font-bold mt-1',
+  h3: 'text-xl leading-snug font-semibold',
+  bullet: 'flex gap-3',
+  ordered: 'flex gap-3',
+  quote: 'border-l-2 border-white/20 pl-4 text-white/60 italic',
+};
+
+const Span: React.FC<{ span: InlineSpan; themeAccent: string }> = ({ span, themeAccent }) => {
+  const className = [
+    span.bold && 'font-bold',
+    span.italic && 'italic',
+    span.strike && 'line-through opacity-60',
+    span.code && 'font-mono text-[0.85em] bg-white/10 rounded px-1.5 py-0.5',
+  ].filter(Boolean).join(' ');
+
+  if (span.href) {
+    return (
+      <a
+        href={span.href}
+        target="_blank"
+        rel="noopener noreferrer"
+        onClick={(e) => e.stopPropagation()}
+        className={`${className} ${themeAccent} underline underline-offset-4 decoration-1`}
+      >
+        {span.text}
+      </a>
+    );
+  }
+  return className ? <span className={className}>{span.text}</span> : <>{span.text}</>;
+};
+
+// Read-only rendering of a text block's Markdown subset (see services/richText)
+const RichText: React.FC<RichTextProps> = ({ content, themeAccent }) => (
+  <>
+    {parseRichText(content).map((line, i) => {
+      const spans = line.spans.map((span, j) => <Span key={j} span={span} themeAccent={themeAccent} />);
+      if (line.kind === 'bullet' || line.kind === 'ordered') {
+        return (
+          <div key={i} className={LINE_CLASSES[line.kind]}>
+            <span className="shrink-0 min-w-[1ch] text-white/40">{line.kind === 'bullet' ? '•' : `${line.number}.`}</span>
+            <span className="min-w-0">{spans}</span>
+          </div>
+        );
+      }
+      // Empty lines keep their height so blank-line spacing survives rendering
+      return <div key={i} className={`${LINE_CLASSES[line.kind]} min-h-[1.625em]`}>{spans}</div>;
+    })}
+  </>
+);
+
+export default RichText;
@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { TagCount, normalizeTag } from '../services/tags';
+import { X, Tag, Plus } from 'lucide-react';
+
+interface TagEditorProps {
+  tags: string[];
+  knownTags: TagCount[];
+  // Called on every add/remove; there is no separate save step
+  onChange: (tags: string[]) => void;
+  onClose: () => void;
+}
+
+const MAX_SUGGESTIONS = 12;
+
+const TagEditor: React.FC<TagEditorProps> = ({ tags, knownTags, onChange, onClose }) => {
+  const [draft, setDraft] = useState('');
+
+  const addTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    setDraft('');
+    if (tag && !tags.includes(tag)) onChange([...tags, tag]);
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' || e.key === ',') {
+      e.preventDefault();
+      addTag(draft);
+    } else if (e.key === 'Backspace' && !draft && tags.length > 0) {
+      onChange(tags.slice(0, -1));
+    }
+  };
+
+  const typed = normalizeTag(draft);
+  const suggestions = knownTags
+    .filter(({ tag }) => !tags.includes(tag) && tag.startsWith(typed))
+    .slice(0, MAX_SUGGESTIONS);
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/80 backdrop-blur-sm flex items-end sm:items-center justify-center animate-in fade-in duration-300" onClick={onClose}>
+      <div className="w-full sm:max-w-md flex flex-col bg-[#111] border border-white/10 rounded-t-2xl sm:rounded-2xl shadow-2xl pb-[env(safe-area-inset-bottom)]" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between px-5 py-4 border-b border-white/5">
+          <div className="flex items-center gap-2 text-cyan-400">
+            <Tag size={16} />
+            <span className="text-[10px] font-bold uppercase tracking-[0.2em]">Tags</span>
+          </div>
+          <button onClick={onClose} className="p-2 -mr-2 text-neutral-500 hover:text-white transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="p-5 flex flex-col gap-4">
+          <div className="flex flex-wrap items-center gap-2 rounded-xl bg-[#141414] border border-white/5 px-3 py-2.5 focus-within:bg-[#1A1A1A] transition-colors">
+            {tags.map(tag => (
+              <button
+                key={tag}
+                onClick={() => onChange(tags.filter(t => t !== tag))}
+                className="flex items-center gap-1 pl-2.5 pr-1.5 py-1 rounded-full bg-cyan-400/10 text-cyan-400 text-xs font-bold"
+              >
+                #{tag} <X size={12} />
+              </button>
+            ))}
+            <input
+              type="text"
+              autoFocus
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={handleKeyDown}
+              onBlur={() => draft && addTag(draft)}
+              placeholder={tags.length ? 'Add another' : 'Add a tag'}
+              className="flex-grow min-w-[6rem] bg-transparent outline-none text-sm text-white placeholder-neutral-700"
+            />
+          </div>
+
+          {suggestions.length > 0 && (
+            <div className="flex flex-col gap-2">
+              <span className="text-[10px] uppercase tracking-widest text-neutral-500 font-bold">In your vault</span>
+              <div className="flex flex-wrap gap-2">
+                {suggestions.map(({ tag, count }) => (
+                  <button
+                    key={tag}
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => addTag(tag)}
+                    className="flex items-center gap-1.5 px-2.5 py-1 rounded-full border border-white/10 bg-[#141414] text-xs text-neutral-300 hover:text-white hover:border-white/30 transition-colors"
+                  >
+                    <Plus size={12} /> #{tag} <span className="text-neutral-600">{count}</span>
+                  </button>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TagEditor;
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { Collection } from '../types';
+import { TagCount, normalizeTag } from '../services/tags';
+import { X, Tags, Check, FolderOpen, Trash2 } from 'lucide-react';
+
+interface TagManagerProps {
+  tags: TagCount[];
+  collections: Collection[];
+  // Renaming onto an existing tag merges the two across every note
+  onRenameTag: (from: string, to: string) => Promise<void>;
+  onDeleteCollection: (id: string) => void;
+  onClose: () => void;
+}
+
+const TagManager: React.FC<TagManagerProps> = ({ tags, collections, onRenameTag, onDeleteCollection, onClose }) => {
+  const [editing, setEditing] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const target = normalizeTag(draft);
+  const mergeInto = editing && target !== editing ? tags.find(t => t.tag === target) : undefined;
+
+  const startEditing = (tag: string) => {
+    setEditing(tag);
+    setDraft(tag);
+  };
+
+  const handleRename = async () => {
+    if (!editing || !target || target === editing) {
+      setEditing(null);
+      return;
+    }
+    setIsWorking(true);
+    try {
+      await onRenameTag(editing, target);
+    } catch (e) {
+      console.error("Tag Rename Error", e);
+    }
+    setIsWorking(false);
+    setEditing(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[70] bg-black/80 backdrop-blur-sm flex items-end sm:items-center justify-center animate-in fade-in duration-300">
+      <div className="w-full sm:max-w-md max-h-[85vh] flex flex-col bg-[#111] border border-white/10 rounded-t-2xl sm:rounded-2xl shadow-2xl pb-[env(safe-area-inset-bottom)]">
+        <div className="flex items-center justify-between px-5 py-4 border-b border-white/5">
+          <div className="flex items-center gap-2 text-cyan-400">
+            <Tags size={16} />
+            <span className="text-[10px] font-bold uppercase tracking-[0.2em]">Manage Tags</span>
+          </div>
+          <button onClick={onClose} disabled={isWorking} className="p-2 -mr-2 text-neutral-500 hover:text-white transition-colors">
+            <X size={18} />
+          </button>
+        </div>
+
+        <div className="flex-grow overflow-y-auto no-scrollbar p-5 flex flex-col gap-5">
+          <div className="flex flex-col gap-2">
+            <span className="text-[10px] uppercase tracking-widest text-neutral-500 font-bold">Tags · tap to rename or merge</span>
+            {tags.length === 0 && <p className="text-xs text-neutral-600">No tags yet. Add them from a frame's menu.</p>}
+            {tags.map(({ tag, count }) => editing === tag ? (
+              <div key={tag} className="flex flex-col gap-1.5">
+                <div className="flex items-center gap-2">
+                  <input
+                    type="text"
+                    autoFocus
+                    value={draft}
+                    onChange={(e) => setDraft(e.target.value)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') handleRename(); if (e.key === 'Escape') setEditing(null); }}
+                    className="flex-grow rounded-xl bg-[#1A1A1A] border border-cyan-400/30 px-4 py-2.5 text-sm text-white outline-none"
+                  />
+                  <button onClick={handleRename} disabled={isWorking} className="p-2.5 rounded-full bg-cyan-500 text-black active:scale-95 transition-transform disabled:opacity-50">
+                    <Check size={14} strokeWidth={3} />
+                  </button>
+                </div>
+                {mergeInto && (
+                  <span className="text-xs text-amber-400/80 px-1">
+                    Merges {count} {count === 1 ? 'frame' : 'frames'} into #{mergeInto.tag} ({mergeInto.count})
+                  </span>
+                )}
+              </div>
+            ) : (
+              <button
+                key={tag}
+                onClick={() => startEditing(tag)}
+                disabled={isWorking}
+                className="flex items-center justify-between rounded-xl border border-white/5 bg-[#141414] px-4 py-3 hover:bg-[#1A1A1A] transition-colors"
+              >
+                <span className="text-sm text-white">#{tag}</span>
+                <span className="text-xs text-neutral-500">{count}</span>
+              </button>
+            ))}
+          </div>
+
+          {collections.length > 0 && (
+            <div className="flex flex-col gap-2">
+              <span className="text-[10px] uppercase tracking-widest text-neutral-500 font-bold">Collections</span>
+              {collections.map(collection => (
+                <div key={collection.id} className="flex items-center gap-3 rounded-xl border border-white/5 bg-[#141414] px-4 py-3">
+                  <FolderOpen size={14} className="text-neutral-500 shrink-0" />
+                  <div className="flex-grow min-w-0">
+                    <span className="block text-sm text-white truncate">{collection.name}</span>
+                    <span className="block text-xs text-neutral-500 truncate">{collection.tags.map(tag => `#${tag}`).join(' ')}</span>
+                  </div>
+                  <button onClick={() => onDeleteCollection(collection.id)} className="p-1.5 text-neutral-600 hover:text-red-400 transition-colors">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TagManager;
@@ -30,6 +30,13 @@ export const THEMES: Record<Theme, ThemeColors> = {
   },
 };
 
+// Raw color values behind THEMES, for rendering outside the DOM (canvas exports)
+export const THEME_PALETTES: Record<Theme, { bg: string; surface: string; text: string; textMuted: string; accent: string }> = {
+  dark: { bg: "#000000", surface: "#141414", text: "#ffffff", textMuted: "#737373", accent: "#22d3ee" },
+  pink: { bg: "#180509", surface: "#2e0b16", text: "#fce7f3", textMuted: "rgba(249, 168, 212, 0.5)", accent: "#ec4899" },
+  royal: { bg: "#020410", surface: "#0a0f2c", text: "#eff6ff", textMuted: "rgba(147, 197, 253, 0.5)", accent: "#fbbf24" },
+};
+
 export const NEON_COLORS = [
   "#22d3ee", // Cyan
   "#e879f9", // Fuchsia
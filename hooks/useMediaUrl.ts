@@ -0,0 +1,27 @@
+import { useEffect, useState } from 'react';
+import { isMediaRef, resolveMediaUrl } from '../services/mediaStore';
+
+// Resolves a block's media reference to something an <img>/<video> can load.
+// Legacy inline data URLs are passed through untouched.
+export const useMediaUrl = (ref: string | null | undefined): string | null => {
+  const [url, setUrl] = useState<string | null>(ref && !isMediaRef(ref) ? ref : null);
+
+  useEffect(() => {
+    if (!ref) {
+      setUrl(null);
+      return;
+    }
+    if (!isMediaRef(ref)) {
+      setUrl(ref);
+      return;
+    }
+
+    let cancelled = false;
+    resolveMediaUrl(ref)
+      .then(resolved => { if (!cancelled) setUrl(resolved); })
+      .catch(e => console.warn('Media resolve failed', ref, e));
+    return () => { cancelled = true; };
+  }, [ref]);
+
+  return url;
+};
@@ -0,0 +1,74 @@
+import { useCallback, useState } from 'react';
+
+// Session-long undo/redo over a single immutable value.
+// Updates that share a coalesce key and arrive within COALESCE_MS of each other
+// (a run of keystrokes in one field, one drag gesture) collapse into a single step.
+
+const COALESCE_MS = 1500;
+const MAX_STEPS = 500;
+
+interface UndoState<T> {
+  present: T;
+  past: T[];
+  future: T[];
+  lastKey: string | null;
+  lastAt: number;
+}
+
+export interface UndoHistory<T> {
+  value: T;
+  update: (recipe: (current: T) => T, coalesceKey?: string) => void;
+  undo: () => void;
+  redo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
+export const useUndoHistory = <T>(initial: T): UndoHistory<T> => {
+  const [state, setState] = useState<UndoState<T>>({ present: initial, past: [], future: [], lastKey: null, lastAt: 0 });
+
+  const update = useCallback((recipe: (current: T) => T, coalesceKey?: string) => {
+    setState(s => {
+      const next = recipe(s.present);
+      if (next === s.present) return s;
+      const now = Date.now();
+      const coalesce = !!coalesceKey && coalesceKey === s.lastKey && now - s.lastAt < COALESCE_MS;
+      return {
+        present: next,
+        past: coalesce ? s.past : [...s.past, s.present].slice(-MAX_STEPS),
+        future: [],
+        lastKey: coalesceKey || null,
+        lastAt: now,
+      };
+    });
+  }, []);
+
+  const undo = useCallback(() => {
+    setState(s => s.past.length === 0 ? s : {
+      present: s.past[s.past.length - 1],
+      past: s.past.slice(0, -1),
+      future: [s.present, ...s.future],
+      lastKey: null,
+      lastAt: 0,
+    });
+  }, []);
+
+  const redo = useCallback(() => {
+    setState(s => s.future.length === 0 ? s : {
+      present: s.future[0],
+      past: [...s.past, s.present],
+      future: s.future.slice(1),
+      lastKey: null,
+      lastAt: 0,
+    });
+  }, []);
+
+  return {
+    value: state.present,
+    update,
+    undo,
+    redo,
+    canUndo: state.past.length > 0,
+    canRedo: state.future.length > 0,
+  };
+};
@@ -0,0 +1,81 @@
+import { Block } from '../types';
+import { drawElements, drawingSpaceOf, drawingsInSpace, editedScale, isVisibleElement, OVERLAY_STYLE } from './drawing';
+
+// Rasterizes media blocks for exports: the full-resolution image (or a video's poster
+// frame) with the block's annotations composited on top.
+
+export interface LoadedVisual {
+  source: CanvasImageSource;
+  width: number;
+  height: number;
+  release: () => void;
+}
+
+export const loadVisual = (blob: Blob, type: Block['type']): Promise<LoadedVisual> => {
+  const url = URL.createObjectURL(blob);
+  const release = () => URL.revokeObjectURL(url);
+
+  if (type === 'video') {
+    return new Promise((resolve, reject) => {
+      const video = document.createElement('video');
+      video.muted = true;
+      video.playsInline = true;
+      video.preload = 'auto';
+      video.onloadeddata = () => {
+        // A frame slightly in avoids the black first frame many phones record
+        video.currentTime = Math.min(0.1, (video.duration || 0) / 2);
+      };
+      video.onseeked = () => resolve({ source: video, width: video.videoWidth, height: video.videoHeight, release });
+      video.onerror = () => { release(); reject(new Error('Video could not be decoded')); };
+      video.src = url;
+    });
+  }
+
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve({ source: img, width: img.naturalWidth, height: img.naturalHeight, release });
+    img.onerror = () => { release(); reject(new Error('Image could not be decoded')); };
+    img.src = url;
+  });
+};
+
+// Sketch strokes are the picture itself, not an overlay (see services/sketch)
+export const hasAnnotations = (block: Block): boolean =>
+  block.type !== 'sketch' && !!block.drawings && block.drawings.some(isVisibleElement);
+
+// The whole frame at its own resolution, with any annotations composited on top. Drawings
+// live in the media's coordinate space, so nothing needs cropping to keep them on their subject.
+export const renderMediaCanvas = async (block: Block, blob: Blob): Promise<HTMLCanvasElement> => {
+  const visual = await loadVisual(blob, block.type);
+  try {
+    const canvas = document.createElement('canvas');
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error('Canvas unavailable');
+    canvas.width = visual.width;
+    canvas.height = visual.height;
+    ctx.drawImage(visual.source, 0, 0);
+    if (!hasAnnotations(block)) return canvas;
+
+    // Ink goes on its own layer so eraser strokes only remove ink, never the photo
+    const layer = document.createElement('canvas');
+    layer.width = canvas.width;
+    layer.height = canvas.height;
+    const layerCtx = layer.getContext('2d');
+    if (layerCtx) {
+      const media = { width: visual.width, height: visual.height };
+      const scale = visual.width / drawingSpaceOf(block, media).width;
+      layerCtx.scale(scale, scale);
+      // shadowBlur ignores the transform, so the glow is sized by hand to match the editor
+      drawElements(layerCtx, drawingsInSpace(block, media), { ...OVERLAY_STYLE, glow: OVERLAY_STYLE.glow * scale / editedScale(block, media) });
+      ctx.drawImage(layer, 0, 0);
+    }
+    return canvas;
+  } finally {
+    visual.release();
+  }
+};
+
+export const canvasToBlob = (canvas: HTMLCanvasElement, type = 'image/png', quality?: number): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error('Canvas export failed')), type, quality);
+  });
@@ -0,0 +1,114 @@
+import { Capacitor } from '@capacitor/core';
+import { Filesystem, Directory } from '@capacitor/filesystem';
+import { readFileSafe, writeFileAtomic } from './persistence';
+import { deriveHash, randomSalt } from './vaultCrypto';
+
+// Optional PIN lock in front of the whole app. Only a salted hash of the PIN is stored,
+// together with the failed-attempt counter so a restart doesn't reset the lockout.
+
+const LOCK_FILENAME = 'frame_notes_lock.json';
+const LOCK_STORAGE_KEY = 'frame_notes_lock';
+const PIN_ITERATIONS = 200000;
+
+// Wrong PINs allowed before each further attempt has to wait; the wait doubles every time
+const FREE_ATTEMPTS = 5;
+const BASE_LOCKOUT_MS = 30 * 1000;
+const MAX_LOCKOUT_MS = 15 * 60 * 1000;
+
+export const PIN_MIN_LENGTH = 4;
+export const PIN_MAX_LENGTH = 8;
+
+// Minutes without interaction before re-locking; 0 only locks when the app is backgrounded
+export const IDLE_TIMEOUT_OPTIONS = [1, 5, 15, 0];
+const DEFAULT_IDLE_MINUTES = 5;
+
+export interface AppLockConfig {
+  version: number;
+  salt: string;
+  iterations: number;
+  hash: string;
+  idleMinutes: number;
+  failedAttempts: number;
+  lockedUntil: number; // epoch ms; no attempts accepted before this
+}
+
+// `config` carries the updated attempt counter and must replace the caller's copy
+export interface PinCheckResult {
+  config: AppLockConfig;
+  error: string | null;
+}
+
+export const isValidPin = (pin: string): boolean =>
+  new RegExp(`^\\d{${PIN_MIN_LENGTH},${PIN_MAX_LENGTH}}$`).test(pin);
+
+export const loadAppLock = async (): Promise<AppLockConfig | null> => {
+  try {
+    if (Capacitor.isNativePlatform()) return await readFileSafe(LOCK_FILENAME, text => JSON.parse(text) as AppLockConfig);
+    const saved = localStorage.getItem(LOCK_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    console.warn("App Lock: could not read settings", e);
+    return null;
+  }
+};
+
+const saveAppLock = async (config: AppLockConfig) => {
+  const data = JSON.stringify(config);
+  if (Capacitor.isNativePlatform()) await writeFileAtomic(LOCK_FILENAME, data);
+  else localStorage.setItem(LOCK_STORAGE_KEY, data);
+};
+
+export const enableAppLock = async (pin: string, idleMinutes = DEFAULT_IDLE_MINUTES): Promise<AppLockConfig> => {
+  if (!isValidPin(pin)) throw new Error(`PIN must be ${PIN_MIN_LENGTH}-${PIN_MAX_LENGTH} digits`);
+  const salt = randomSalt();
+  const config: AppLockConfig = {
+    version: 1,
+    salt,
+    iterations: PIN_ITERATIONS,
+    hash: await deriveHash(pin, salt, PIN_ITERATIONS),
+    idleMinutes,
+    failedAttempts: 0,
+    lockedUntil: 0,
+  };
+  await saveAppLock(config);
+  return config;
+};
+
+export const disableAppLock = async () => {
+  if (Capacitor.isNativePlatform()) {
+    for (const path of [LOCK_FILENAME, `${LOCK_FILENAME}.bak`, `${LOCK_FILENAME}.tmp`]) {
+      await Filesystem.deleteFile({ path, directory: Directory.Data }).catch(() => undefined);
+    }
+  } else {
+    localStorage.removeItem(LOCK_STORAGE_KEY);
+  }
+};
+
+export const setIdleTimeout = async (config: AppLockConfig, idleMinutes: number): Promise<AppLockConfig> => {
+  const next = { ...config, idleMinutes };
+  await saveAppLock(next);
+  return next;
+};
+
+const lockoutFor = (failedAttempts: number): number =>
+  failedAttempts < FREE_ATTEMPTS ? 0 : Math.min(MAX_LOCKOUT_MS, BASE_LOCKOUT_MS * 2 ** (failedAttempts - FREE_ATTEMPTS));
+
+export const checkPin = async (config: AppLockConfig, pin: string): Promise<PinCheckResult> => {
+  if (Date.now() < config.lockedUntil) return { config, error: 'Too many attempts' };
+
+  if (await deriveHash(pin, config.salt, config.iterations) === config.hash) {
+    const next = { ...config, failedAttempts: 0, lockedUntil: 0 };
+    if (config.failedAttempts > 0) await saveAppLock(next);
+    return { config: next, error: null };
+  }
+
+  const failedAttempts = config.failedAttempts + 1;
+  const lockout = lockoutFor(failedAttempts);
+  const next = { ...config, failedAttempts, lockedUntil: lockout ? Date.now() + lockout : 0 };
+  await saveAppLock(next);
+  const remaining = FREE_ATTEMPTS - failedAttempts;
+  return {
+    config: next,
+    error: remaining > 0 ? `Wrong PIN · ${remaining} ${remaining === 1 ? 'attempt' : 'attempts'} left` : 'Wrong PIN',
+  };
+};
@@ -0,0 +1,61 @@
+// Audio block helpers: what the recorder can produce, and the duration and
+// waveform stored on the block so playback UI never has to decode the file.
+
+export const WAVEFORM_BARS = 64;
+
+// First container the platform's MediaRecorder supports; '' lets the browser choose
+const RECORDING_TYPES = ['audio/webm;codecs=opus', 'audio/mp4', 'audio/ogg;codecs=opus', 'audio/webm'];
+
+export const pickRecordingType = (): string =>
+  typeof MediaRecorder !== 'undefined' && MediaRecorder.isTypeSupported
+    ? RECORDING_TYPES.find(type => MediaRecorder.isTypeSupported(type)) || ''
+    : '';
+
+export const formatDuration = (seconds: number): string => {
+  const total = Math.max(0, Math.round(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// Peak level per bar, scaled so the loudest bar is 1
+const computePeaks = (samples: Float32Array, bars: number): number[] => {
+  const size = Math.max(1, Math.floor(samples.length / bars));
+  const peaks: number[] = [];
+  for (let bar = 0; bar < bars; bar++) {
+    let peak = 0;
+    const end = Math.min(samples.length, (bar + 1) * size);
+    for (let i = bar * size; i < end; i++) peak = Math.max(peak, Math.abs(samples[i]));
+    peaks.push(peak);
+  }
+  const loudest = Math.max(...peaks) || 1;
+  return peaks.map(peak => Math.round((peak / loudest) * 100) / 100);
+};
+
+// Reads the duration from metadata when the file can't be decoded (some containers, old WebViews)
+const probeDuration = (blob: Blob): Promise<number> =>
+  new Promise(resolve => {
+    const audio = document.createElement('audio');
+    const url = URL.createObjectURL(blob);
+    const done = (duration: number) => {
+      URL.revokeObjectURL(url);
+      resolve(Number.isFinite(duration) ? duration : 0);
+    };
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => done(audio.duration);
+    audio.onerror = () => done(0);
+    audio.src = url;
+  });
+
+export const analyzeAudio = async (blob: Blob): Promise<{ duration: number; waveform: number[] }> => {
+  try {
+    const context = new AudioContext();
+    try {
+      const buffer = await context.decodeAudioData(await blob.arrayBuffer());
+      return { duration: buffer.duration, waveform: computePeaks(buffer.getChannelData(0), WAVEFORM_BARS) };
+    } finally {
+      context.close().catch(() => undefined);
+    }
+  } catch (e) {
+    console.warn("Audio: could not decode for waveform", e);
+    return { duration: await probeDuration(blob), waveform: [] };
+  }
+};
@@ -0,0 +1,56 @@
+import { Filesystem, Directory } from '@capacitor/filesystem';
+import { Note } from '../../types';
+import { parseIndex, parseNoteFile, serializeIndex, serializeNote } from '../schema';
+import { readFileChecked, readFileSafe, writeFileAtomic } from '../persistence';
+import { NoteBackend, NoteLoadResult } from '../noteRepository';
+
+// Native layout: Directory.Data/notes/<id>.json + frame_notes_index.json,
+// every file written atomically with a last-known-good copy.
+
+const INDEX_FILENAME = 'frame_notes_index.json';
+const NOTES_DIR = 'notes';
+
+const notePath = (id: string) => `${NOTES_DIR}/${id}.json`;
+
+export const createFilesystemBackend = (): NoteBackend => ({
+  readIndex: () => readFileSafe(INDEX_FILENAME, parseIndex),
+
+  writeIndex: notes => writeFileAtomic(INDEX_FILENAME, serializeIndex(notes)),
+
+  readNote: async (id: string): Promise<NoteLoadResult> => {
+    const result = await readFileChecked(notePath(id), parseNoteFile);
+    if (result.status === 'missing') return { status: 'missing' };
+    if (result.status === 'unreadable') {
+      // A failed read says nothing about the content; quarantining would remove the file
+      if (result.raw === null) throw result.error;
+      return {
+        status: 'quarantined',
+        entry: { id, reason: 'note file is unreadable', raw: result.raw, schemaVersion: 0, quarantinedAt: Date.now() },
+      };
+    }
+    const vault = result.value;
+    if (vault.notes[0]) return { status: 'ok', note: vault.notes[0] };
+    if (vault.quarantined[0]) return { status: 'quarantined', entry: vault.quarantined[0] };
+    return { status: 'missing' };
+  },
+
+  writeNote: (note: Note) => writeFileAtomic(notePath(note.id), serializeNote(note)),
+
+  removeNote: async (id: string) => {
+    for (const path of [notePath(id), `${notePath(id)}.bak`, `${notePath(id)}.tmp`]) {
+      await Filesystem.deleteFile({ path, directory: Directory.Data }).catch(() => undefined);
+    }
+  },
+
+  listNoteIds: async () => {
+    try {
+      const result = await Filesystem.readdir({ path: NOTES_DIR, directory: Directory.Data });
+      return result.files
+        .map(file => file.name)
+        .filter(name => name.endsWith('.json'))
+        .map(name => name.slice(0, -'.json'.length));
+    } catch (e) {
+      return [];
+    }
+  },
+});
@@ -0,0 +1,46 @@
+import { Note } from '../../types';
+import { parseIndex, parseNoteFile, serializeIndex, serializeNote } from '../schema';
+import { idbGet, idbPut, idbDelete, idbKeys } from '../idb';
+import { NoteBackend, NoteLoadResult } from '../noteRepository';
+
+// Web layout: serialized note files in the "notes" store, the index under meta/index.
+// Records keep the same versioned JSON as the native files so both share one schema path.
+
+const INDEX_KEY = 'index';
+
+export const createIndexedDbBackend = (): NoteBackend => ({
+  readIndex: async () => {
+    const saved = await idbGet<string>('meta', INDEX_KEY);
+    if (!saved) return null;
+    try {
+      return parseIndex(saved);
+    } catch (e) {
+      console.warn("Index unreadable, rebuilding", e);
+      return null;
+    }
+  },
+
+  writeIndex: notes => idbPut('meta', INDEX_KEY, serializeIndex(notes)),
+
+  readNote: async (id: string): Promise<NoteLoadResult> => {
+    const saved = await idbGet<string>('notes', id);
+    if (!saved) return { status: 'missing' };
+    try {
+      const vault = parseNoteFile(saved);
+      if (vault.notes[0]) return { status: 'ok', note: vault.notes[0] };
+      if (vault.quarantined[0]) return { status: 'quarantined', entry: vault.quarantined[0] };
+      return { status: 'missing' };
+    } catch (e) {
+      return {
+        status: 'quarantined',
+        entry: { id, reason: 'note record is unreadable', raw: saved, schemaVersion: 0, quarantinedAt: Date.now() },
+      };
+    }
+  },
+
+  writeNote: (note: Note) => idbPut('notes', note.id, serializeNote(note)),
+
+  removeNote: (id: string) => idbDelete('notes', id),
+
+  listNoteIds: () => idbKeys('notes'),
+});
@@ -0,0 +1,23 @@
+import { Note, NoteSummary } from '../../types';
+import { NoteBackend } from '../noteRepository';
+
+// Volatile backend for tests and previews. Stores clones so callers can't mutate saved state.
+
+const clone = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+export const createMemoryBackend = (initialNotes: Note[] = []): NoteBackend => {
+  const notes = new Map<string, Note>(initialNotes.map(note => [note.id, clone(note)]));
+  let index: NoteSummary[] | null = null;
+
+  return {
+    readIndex: async () => index && clone(index),
+    writeIndex: async next => { index = clone(next); },
+    readNote: async id => {
+      const note = notes.get(id);
+      return note ? { status: 'ok', note: clone(note) } : { status: 'missing' };
+    },
+    writeNote: async note => { notes.set(note.id, clone(note)); },
+    removeNote: async id => { notes.delete(id); },
+    listNoteIds: async () => Array.from(notes.keys()),
+  };
+};
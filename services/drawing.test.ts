@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+import { DrawingElement, DrawingLabel, DrawingPath, DrawingShape, Point } from '../types';
+import { applySimilarity, constrainEnd, hitTest, isInLasso } from './drawing';
+
+const near = (point: Point) => ({ x: expect.closeTo(point.x, 6), y: expect.closeTo(point.y, 6) });
+
+describe('constrainEnd', () => {
+  const from = { x: 10, y: 10 };
+
+  it('snaps lines and arrows to the nearest 45° step, keeping their length', () => {
+    expect(constrainEnd('line', from, { x: 50, y: 14 })).toEqual(near({ x: 10 + Math.hypot(40, 4), y: 10 }));
+    expect(constrainEnd('arrow', from, { x: 12, y: -30 })).toEqual(near({ x: 10, y: 10 - Math.hypot(2, 40) }));
+
+    const diagonal = constrainEnd('line', from, { x: 38, y: 34 });
+    const length = Math.hypot(28, 24);
+    expect(diagonal).toEqual(near({ x: 10 + length / Math.SQRT2, y: 10 + length / Math.SQRT2 }));
+  });
+
+  it('squares boxes and ellipses on their longer side, in the direction dragged', () => {
+    expect(constrainEnd('rect', from, { x: 40, y: 20 })).toEqual({ x: 40, y: 40 });
+    expect(constrainEnd('ellipse', from, { x: -5, y: -30 })).toEqual({ x: -30, y: -30 });
+    expect(constrainEnd('rect', from, { x: 10, y: 30 })).toEqual({ x: 30, y: 30 });
+  });
+
+  it('leaves a tap where it is', () => {
+    expect(constrainEnd('line', from, from)).toEqual(near(from));
+    expect(constrainEnd('rect', from, from)).toEqual(from);
+  });
+});
+
+describe('hitTest', () => {
+  const stroke: DrawingPath = { points: [{ x: 0, y: 0 }, { x: 100, y: 0 }], color: '#fff', width: 10 };
+  const box: DrawingShape = { kind: 'rect', from: { x: 0, y: 0 }, to: { x: 100, y: 50 }, color: '#fff', width: 2 };
+  const label: DrawingLabel = { kind: 'text', at: { x: 0, y: 0 }, text: 'Hello', color: '#fff', fontSize: 20 };
+
+  it('hits a stroke within half its width plus the tolerance', () => {
+    expect(hitTest(stroke, { x: 50, y: 7 }, 2)).toBe(true);
+    expect(hitTest(stroke, { x: 50, y: 8 }, 2)).toBe(false);
+    expect(hitTest(stroke, { x: 106, y: 0 }, 2)).toBe(true);
+  });
+
+  it('hits a box on its edges, including the closing one, but not inside', () => {
+    expect(hitTest(box, { x: 0, y: 25 }, 1)).toBe(true);
+    expect(hitTest(box, { x: 50, y: 49 }, 1)).toBe(true);
+    expect(hitTest(box, { x: 50, y: 25 }, 1)).toBe(false);
+  });
+
+  it('hits a label anywhere in its box, following its rotation', () => {
+    expect(hitTest(label, { x: 30, y: 10 }, 0)).toBe(true);
+    expect(hitTest(label, { x: 30, y: 40 }, 0)).toBe(false);
+
+    const turned = { ...label, rotation: Math.PI / 2 };
+    expect(hitTest(turned, { x: -10, y: 30 }, 0)).toBe(true);
+    expect(hitTest(turned, { x: 30, y: 10 }, 0)).toBe(false);
+  });
+});
+
+describe('isInLasso', () => {
+  const lasso = [{ x: 0, y: 0 }, { x: 100, y: 0 }, { x: 100, y: 100 }, { x: 0, y: 100 }];
+  const line = (from: Point, to: Point): DrawingShape => ({ kind: 'line', from, to, color: '#fff', width: 2 });
+
+  it('takes only elements it fully encloses', () => {
+    expect(isInLasso(line({ x: 10, y: 10 }, { x: 90, y: 90 }), lasso)).toBe(true);
+    expect(isInLasso(line({ x: 10, y: 10 }, { x: 150, y: 90 }), lasso)).toBe(false);
+  });
+
+  it('needs a lasso with some area', () => {
+    expect(isInLasso(line({ x: 10, y: 10 }, { x: 20, y: 20 }), lasso.slice(0, 2))).toBe(false);
+  });
+});
+
+describe('applySimilarity', () => {
+  const pivot = { x: 0, y: 0 };
+
+  it('moves, scales and turns stroke points and width about the pivot', () => {
+    const stroke: DrawingPath = { points: [{ x: 10, y: 0, pressure: 0.4 }], color: '#fff', width: 4 };
+    const moved = applySimilarity(stroke, { pivot, scale: 2, rotation: Math.PI / 2, dx: 5, dy: 0 }) as DrawingPath;
+
+    expect(moved.points[0]).toEqual({ x: expect.closeTo(5, 6), y: expect.closeTo(20, 6), pressure: 0.4 });
+    expect(moved.width).toBe(8);
+  });
+
+  it('turns boxes as a whole around their new center, keeping their extents', () => {
+    const box: DrawingShape = { kind: 'rect', from: { x: 10, y: 0 }, to: { x: 30, y: 10 }, color: '#fff', width: 2 };
+    const turned = applySimilarity(box, { pivot, scale: 1, rotation: Math.PI / 2, dx: 0, dy: 0 }) as DrawingShape;
+
+    // Center (20, 5) turns to (-5, 20); the box stays 20 × 10 and records the turn instead
+    expect(turned.from).toEqual(near({ x: -15, y: 15 }));
+    expect(turned.to).toEqual(near({ x: 5, y: 25 }));
+    expect(turned.rotation).toBeCloseTo(Math.PI / 2);
+  });
+
+  it('scales label type and adds to its rotation', () => {
+    const label: DrawingLabel = { kind: 'text', at: { x: 10, y: 10 }, text: 'Hi', color: '#fff', fontSize: 14, rotation: 0.1 };
+    const scaled = applySimilarity(label, { pivot: { x: 10, y: 10 }, scale: 1.5, rotation: 0.2, dx: 3, dy: 4 }) as DrawingLabel;
+
+    expect(scaled.at).toEqual(near({ x: 13, y: 14 }));
+    expect(scaled.fontSize).toBe(21);
+    expect(scaled.rotation).toBeCloseTo(0.3);
+  });
+
+  it('leaves an element alone under the identity', () => {
+    const element: DrawingElement = { kind: 'arrow', from: { x: 1, y: 2 }, to: { x: 3, y: 4 }, color: '#fff', width: 3 };
+    expect(applySimilarity(element, { pivot: { x: 9, y: 9 }, scale: 1, rotation: 0, dx: 0, dy: 0 })).toEqual(element);
+  });
+});
@@ -0,0 +1,444 @@
+import { Block, DrawingElement, DrawingLabel, DrawingPath, DrawingShape, Point, ShapeKind, Size } from '../types';
+
+// Shared renderer for the live editor, the read-only overlay and exports.
+
+export interface DrawStyle {
+  glow: number;        // shadowBlur for ink
+  eraserScale: number; // eraser strokes are drawn this many times wider than their width
+}
+
+// Matches the read-only overlay in BlockRender
+export const OVERLAY_STYLE: DrawStyle = { glow: 4, eraserScale: 2 };
+
+export const SHAPE_KINDS: ShapeKind[] = ['line', 'arrow', 'rect', 'ellipse'];
+
+export const LABEL_SIZES = [14, 20, 28];
+export const LABEL_LINE_HEIGHT = 1.2;
+export const LABEL_FONT_FAMILY = '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif';
+export const labelFont = (fontSize: number) => `600 ${fontSize}px ${LABEL_FONT_FAMILY}`;
+
+export const isShape = (element: DrawingElement): element is DrawingShape =>
+  SHAPE_KINDS.includes((element as DrawingShape).kind);
+
+export const isLabel = (element: DrawingElement): element is DrawingLabel =>
+  (element as DrawingLabel).kind === 'text';
+
+export const isPath = (element: DrawingElement): element is DrawingPath =>
+  !isShape(element) && !isLabel(element);
+
+// Anchor points of an element, for bounds and legacy surface guesses
+export const elementPoints = (element: DrawingElement): Point[] => {
+  if (isShape(element)) return [element.from, element.to];
+  if (isLabel(element)) return [element.at];
+  return element.points;
+};
+
+// Whether the element leaves a mark (a tap without a drag does not)
+export const isVisibleElement = (element: DrawingElement): boolean => {
+  if (isLabel(element)) return element.text.trim().length > 0;
+  if (isShape(element)) return element.from.x !== element.to.x || element.from.y !== element.to.y;
+  return element.points.length > 1;
+};
+
+// The shift-key constraint: lines and arrows snap to 45° steps, boxes and ellipses go square
+export const constrainEnd = (kind: ShapeKind, from: Point, to: Point): Point => {
+  const dx = to.x - from.x;
+  const dy = to.y - from.y;
+  if (kind === 'rect' || kind === 'ellipse') {
+    const side = Math.max(Math.abs(dx), Math.abs(dy));
+    return { x: from.x + side * Math.sign(dx || 1), y: from.y + side * Math.sign(dy || 1) };
+  }
+  const step = Math.PI / 4;
+  const angle = Math.round(Math.atan2(dy, dx) / step) * step;
+  const length = Math.hypot(dx, dy);
+  return { x: from.x + Math.cos(angle) * length, y: from.y + Math.sin(angle) * length };
+};
+
+// --- Coordinate spaces ---
+// Drawings are stored in their block's drawing space (see Block.drawingSpace) and mapped
+// onto whatever frame shows them, so they stay on their subject at any size or DPR.
+
+// Maps space coordinates to frame coordinates: frame = space * scale + offset
+export interface SpaceTransform {
+  scale: number;
+  x: number;
+  y: number;
+}
+
+// Where a space lands in a frame that shows it object-cover, like every media frame
+export const coverTransform = (space: Size, frame: Size): SpaceTransform => {
+  const scale = Math.max(frame.width / space.width, frame.height / space.height);
+  return { scale, x: (frame.width - space.width * scale) / 2, y: (frame.height - space.height * scale) / 2 };
+};
+
+export const invertTransform = (t: SpaceTransform): SpaceTransform =>
+  ({ scale: 1 / t.scale, x: -t.x / t.scale, y: -t.y / t.scale });
+
+export const applyTransform = (point: Point, t: SpaceTransform): Point =>
+  ({ ...point, x: point.x * t.scale + t.x, y: point.y * t.scale + t.y });
+
+// Positions and sizes alike, so widths and label sizes keep their proportions
+export const transformElement = (element: DrawingElement, t: SpaceTransform): DrawingElement => {
+  if (isShape(element)) {
+    return { ...element, from: applyTransform(element.from, t), to: applyTransform(element.to, t), width: element.width * t.scale };
+  }
+  if (isLabel(element)) return { ...element, at: applyTransform(element.at, t), fontSize: element.fontSize * t.scale };
+  return { ...element, points: element.points.map(p => applyTransform(p, t)), width: element.width * t.scale };
+};
+
+const legacyFrame = (block: Block): Size | null =>
+  !block.drawingSpace && block.width && block.height ? { width: block.width, height: block.height } : null;
+
+// `media` is the intrinsic size of what the block shows (a sketch's virtual canvas for sketches).
+// Legacy drawings are mapped out of the frame they were drawn in, which showed the media object-cover.
+export const drawingsInSpace = (block: Block, media: Size): DrawingElement[] => {
+  const drawings = block.drawings || [];
+  const frame = legacyFrame(block);
+  if (!frame) return drawings;
+  const t = invertTransform(coverTransform(media, frame));
+  return drawings.map(element => transformElement(element, t));
+};
+
+export const drawingSpaceOf = (block: Block, media: Size): Size => block.drawingSpace || media;
+
+// CSS pixels per space unit in the frame the drawing was last edited in. Off-screen renders
+// use it to size the glow, which canvas blur does not scale with the transform.
+export const editedScale = (block: Block, media: Size): number =>
+  block.width && block.height ? coverTransform(drawingSpaceOf(block, media), { width: block.width, height: block.height }).scale : 1;
+
+// --- Freehand strokes ---
+
+// A point on the smoothed stroke; r is half the ink width there
+export interface StrokeSample {
+  x: number;
+  y: number;
+  r: number;
+}
+
+// Pressure 0..1 spans 0.4x to 1.6x the brush width; tilting the pen lays it on its side, up to 1.5x
+const widthScale = (point: Point): number => {
+  if (point.pressure === undefined) return 1;
+  const tilt = Math.min(60, Math.hypot(point.tiltX || 0, point.tiltY || 0));
+  return (0.4 + point.pressure * 1.2) * (1 + tilt / 120);
+};
+
+export const hasPressure = (path: DrawingPath): boolean => path.points.some(p => p.pressure !== undefined);
+
+// Catmull-Rom through the recorded points, sampled about every 2px
+const SAMPLE_SPACING = 2;
+
+export const smoothStroke = (path: DrawingPath): StrokeSample[] => {
+  const points = path.points;
+  const radius = path.width / 2;
+  const samples: StrokeSample[] = [];
+  for (let i = 0; i < points.length - 1; i++) {
+    const p0 = points[Math.max(0, i - 1)];
+    const p1 = points[i];
+    const p2 = points[i + 1];
+    const p3 = points[Math.min(points.length - 1, i + 2)];
+    const r1 = radius * widthScale(p1);
+    const r2 = radius * widthScale(p2);
+    const steps = Math.max(1, Math.ceil(Math.hypot(p2.x - p1.x, p2.y - p1.y) / SAMPLE_SPACING));
+    for (let step = 0; step < steps; step++) {
+      const t = step / steps;
+      const t2 = t * t;
+      const t3 = t2 * t;
+      const spline = (a: number, b: number, c: number, d: number) =>
+        0.5 * (2 * b + (c - a) * t + (2 * a - 5 * b + 4 * c - d) * t2 + (3 * b - a - 3 * c + d) * t3);
+      samples.push({ x: spline(p0.x, p1.x, p2.x, p3.x), y: spline(p0.y, p1.y, p2.y, p3.y), r: r1 + (r2 - r1) * t });
+    }
+  }
+  const last = points[points.length - 1];
+  if (last) samples.push({ x: last.x, y: last.y, r: radius * widthScale(last) });
+  return samples;
+};
+
+// Ramer-Douglas-Peucker: drops recorded points that lie within `tolerance` px of the line
+// through their neighbours. Smoothing puts the curve back, so strokes store far fewer points.
+export const simplifyPoints = (points: Point[], tolerance = 0.75): Point[] => {
+  if (points.length < 3) return points;
+  const first = points[0];
+  const last = points[points.length - 1];
+  const length = Math.hypot(last.x - first.x, last.y - first.y);
+  let farthest = 0;
+  let index = 0;
+  for (let i = 1; i < points.length - 1; i++) {
+    const p = points[i];
+    const distance = length > 0
+      ? Math.abs((last.x - first.x) * (first.y - p.y) - (first.x - p.x) * (last.y - first.y)) / length
+      : Math.hypot(p.x - first.x, p.y - first.y);
+    if (distance > farthest) { farthest = distance; index = i; }
+  }
+  if (farthest <= tolerance) return [first, last];
+  return [...simplifyPoints(points.slice(0, index + 1), tolerance).slice(0, -1), ...simplifyPoints(points.slice(index), tolerance)];
+};
+
+// Outline of a variable-width stroke: a disc per sample joined by tangent quads. Every piece
+// winds the same way, so one nonzero fill paints their union and translucent ink stays even.
+export const traceStrokeOutline = (ctx: CanvasRenderingContext2D, samples: StrokeSample[], scale = 1) => {
+  ctx.beginPath();
+  samples.forEach((s, i) => {
+    const r = s.r * scale;
+    ctx.moveTo(s.x + r, s.y);
+    ctx.arc(s.x, s.y, r, 0, Math.PI * 2);
+    if (i === 0) return;
+    const a = samples[i - 1];
+    const ra = a.r * scale;
+    const length = Math.hypot(s.x - a.x, s.y - a.y);
+    if (length === 0) return;
+    const nx = -(s.y - a.y) / length;
+    const ny = (s.x - a.x) / length;
+    const quad = [
+      { x: a.x + nx * ra, y: a.y + ny * ra },
+      { x: s.x + nx * r, y: s.y + ny * r },
+      { x: s.x - nx * r, y: s.y - ny * r },
+      { x: a.x - nx * ra, y: a.y - ny * ra },
+    ];
+    // Arcs run clockwise on screen; flip quads that don't
+    const area = quad.reduce((sum, p, j) => sum + p.x * quad[(j + 1) % 4].y - quad[(j + 1) % 4].x * p.y, 0);
+    if (area < 0) quad.reverse();
+    ctx.moveTo(quad[0].x, quad[0].y);
+    quad.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+    ctx.closePath();
+  });
+};
+
+const drawStroke = (ctx: CanvasRenderingContext2D, path: DrawingPath, style: DrawStyle) => {
+  const samples = smoothStroke(path);
+  const eraser = path.color === 'eraser';
+  if (hasPressure(path)) {
+    traceStrokeOutline(ctx, samples, eraser ? style.eraserScale : 1);
+    if (!eraser) ctx.fillStyle = path.color;
+    ctx.fill();
+    return;
+  }
+  // Even strokes, including every drawing made before pressure was recorded
+  ctx.beginPath();
+  ctx.moveTo(samples[0].x, samples[0].y);
+  for (let i = 1; i < samples.length; i++) ctx.lineTo(samples[i].x, samples[i].y);
+  ctx.stroke();
+};
+
+// --- Shapes and labels ---
+
+// Arrowhead length per unit of line width
+export const ARROW_HEAD = 4;
+// Average glyph width per unit of font size; labels are measured roughly, which is close
+// enough to hit and frame them without a canvas at hand
+const LABEL_CHAR_WIDTH = 0.6;
+
+const rotateAbout = (point: Point, angle: number, pivot: Point): Point => {
+  if (!angle) return point;
+  const cos = Math.cos(angle);
+  const sin = Math.sin(angle);
+  const dx = point.x - pivot.x;
+  const dy = point.y - pivot.y;
+  return { ...point, x: pivot.x + dx * cos - dy * sin, y: pivot.y + dx * sin + dy * cos };
+};
+
+const labelSize = (label: DrawingLabel): Size => {
+  const lines = label.text.split('\n');
+  return {
+    width: Math.max(...lines.map(line => line.length)) * label.fontSize * LABEL_CHAR_WIDTH,
+    height: lines.length * label.fontSize * LABEL_LINE_HEIGHT,
+  };
+};
+
+const ELLIPSE_STEPS = 48;
+
+// Points along what an element paints (a label's box), for drawing rotated boxes, hit tests and bounds
+export const elementOutline = (element: DrawingElement): Point[] => {
+  if (isLabel(element)) {
+    const { width, height } = labelSize(element);
+    const { x, y } = element.at;
+    return [{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }]
+      .map(p => rotateAbout(p, element.rotation || 0, element.at));
+  }
+  if (isShape(element)) {
+    const { from, to } = element;
+    if (element.kind === 'line' || element.kind === 'arrow') return [from, to];
+    const center = { x: (from.x + to.x) / 2, y: (from.y + to.y) / 2 };
+    const rx = Math.abs(to.x - from.x) / 2;
+    const ry = Math.abs(to.y - from.y) / 2;
+    const box = element.kind === 'rect'
+      ? [{ x: -rx, y: -ry }, { x: rx, y: -ry }, { x: rx, y: ry }, { x: -rx, y: ry }]
+      : Array.from({ length: ELLIPSE_STEPS }, (_, i) => {
+          const angle = (i / ELLIPSE_STEPS) * Math.PI * 2;
+          return { x: Math.cos(angle) * rx, y: Math.sin(angle) * ry };
+        });
+    return box.map(p => rotateAbout({ x: center.x + p.x, y: center.y + p.y }, element.rotation || 0, center));
+  }
+  return element.points;
+};
+
+const traceShape = (ctx: CanvasRenderingContext2D, shape: DrawingShape) => {
+  const { from, to } = shape;
+  ctx.beginPath();
+  if (shape.kind === 'rect') {
+    const corners = elementOutline(shape);
+    ctx.moveTo(corners[0].x, corners[0].y);
+    corners.slice(1).forEach(p => ctx.lineTo(p.x, p.y));
+    ctx.closePath();
+  } else if (shape.kind === 'ellipse') {
+    ctx.ellipse((from.x + to.x) / 2, (from.y + to.y) / 2, Math.abs(to.x - from.x) / 2, Math.abs(to.y - from.y) / 2, shape.rotation || 0, 0, Math.PI * 2);
+  } else {
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(to.x, to.y);
+    if (shape.kind === 'arrow') {
+      const angle = Math.atan2(to.y - from.y, to.x - from.x);
+      const head = shape.width * ARROW_HEAD;
+      for (const side of [-1, 1]) {
+        ctx.moveTo(to.x, to.y);
+        ctx.lineTo(to.x - head * Math.cos(angle + side * Math.PI / 6), to.y - head * Math.sin(angle + side * Math.PI / 6));
+      }
+    }
+  }
+};
+
+const drawLabel = (ctx: CanvasRenderingContext2D, label: DrawingLabel) => {
+  ctx.save();
+  ctx.translate(label.at.x, label.at.y);
+  ctx.rotate(label.rotation || 0);
+  ctx.font = labelFont(label.fontSize);
+  ctx.textBaseline = 'top';
+  ctx.fillStyle = label.color;
+  label.text.split('\n').forEach((line, i) => {
+    ctx.fillText(line, 0, i * label.fontSize * LABEL_LINE_HEIGHT);
+  });
+  ctx.restore();
+};
+
+export const drawElements = (ctx: CanvasRenderingContext2D, elements: DrawingElement[], style: DrawStyle = OVERLAY_STYLE) => {
+  ctx.lineCap = 'round';
+  ctx.lineJoin = 'round';
+
+  elements.forEach(element => {
+    if (!isVisibleElement(element)) return;
+
+    if (isPath(element) && element.color === 'eraser') {
+      ctx.globalCompositeOperation = 'destination-out';
+      ctx.lineWidth = element.width * style.eraserScale;
+    } else {
+      ctx.globalCompositeOperation = 'source-over';
+      ctx.strokeStyle = element.color;
+      ctx.shadowBlur = style.glow;
+      ctx.shadowColor = element.color;
+      if (!isLabel(element)) ctx.lineWidth = element.width;
+    }
+
+    if (!isLabel(element)) ctx.globalAlpha = element.opacity ?? 1;
+
+    if (isLabel(element)) {
+      drawLabel(ctx, element);
+    } else if (isShape(element)) {
+      traceShape(ctx, element);
+      ctx.stroke();
+    } else {
+      drawStroke(ctx, element, style);
+    }
+    ctx.shadowBlur = 0;
+    ctx.globalAlpha = 1;
+    ctx.globalCompositeOperation = 'source-over';
+  });
+};
+
+// --- Selection ---
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+const inkReach = (element: DrawingElement): number => isLabel(element) ? 0 : element.width / 2;
+
+export const isEraserPath = (element: DrawingElement): boolean => isPath(element) && element.color === 'eraser';
+
+// Box around everything the elements paint
+export const elementBounds = (elements: DrawingElement[]): Bounds | null => {
+  let bounds: Bounds | null = null;
+  elements.forEach(element => {
+    const reach = inkReach(element);
+    elementOutline(element).forEach(p => {
+      bounds = {
+        minX: Math.min(bounds ? bounds.minX : Infinity, p.x - reach),
+        minY: Math.min(bounds ? bounds.minY : Infinity, p.y - reach),
+        maxX: Math.max(bounds ? bounds.maxX : -Infinity, p.x + reach),
+        maxY: Math.max(bounds ? bounds.maxY : -Infinity, p.y + reach),
+      };
+    });
+  });
+  return bounds;
+};
+
+const distanceToSegment = (p: Point, a: Point, b: Point): number => {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  const t = lengthSq ? Math.max(0, Math.min(1, ((p.x - a.x) * dx + (p.y - a.y) * dy) / lengthSq)) : 0;
+  return Math.hypot(p.x - (a.x + t * dx), p.y - (a.y + t * dy));
+};
+
+export const pointInPolygon = (point: Point, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) && point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) inside = !inside;
+  }
+  return inside;
+};
+
+// Whether `point` touches the element's ink, give or take `tolerance`; a label is hit anywhere in its box
+export const hitTest = (element: DrawingElement, point: Point, tolerance: number): boolean => {
+  const outline = elementOutline(element);
+  if (isLabel(element) && pointInPolygon(point, outline)) return true;
+  const closed = isLabel(element) || (isShape(element) && element.kind !== 'line' && element.kind !== 'arrow');
+  const reach = inkReach(element) + tolerance;
+  if (outline.length === 1) return Math.hypot(point.x - outline[0].x, point.y - outline[0].y) <= reach;
+  for (let i = 1; i < outline.length; i++) {
+    if (distanceToSegment(point, outline[i - 1], outline[i]) <= reach) return true;
+  }
+  return closed && distanceToSegment(point, outline[outline.length - 1], outline[0]) <= reach;
+};
+
+// A lasso takes the elements it fully encloses
+export const isInLasso = (element: DrawingElement, lasso: Point[]): boolean =>
+  lasso.length > 2 && elementOutline(element).every(p => pointInPolygon(p, lasso));
+
+// Move, uniform scale and rotation about a pivot: what the select tool can do to a selection
+export interface Similarity {
+  pivot: Point;
+  scale: number;
+  rotation: number; // radians
+  dx: number;
+  dy: number;
+}
+
+export const applySimilarity = (element: DrawingElement, t: Similarity): DrawingElement => {
+  const map = (p: Point): Point => {
+    const r = rotateAbout(p, t.rotation, t.pivot);
+    return { ...p, x: t.pivot.x + (r.x - t.pivot.x) * t.scale + t.dx, y: t.pivot.y + (r.y - t.pivot.y) * t.scale + t.dy };
+  };
+  if (isLabel(element)) {
+    return { ...element, at: map(element.at), fontSize: element.fontSize * t.scale, rotation: (element.rotation || 0) + t.rotation };
+  }
+  if (isShape(element)) {
+    if (element.kind === 'line' || element.kind === 'arrow') {
+      return { ...element, from: map(element.from), to: map(element.to), width: element.width * t.scale };
+    }
+    // Boxes keep their extents and turn as a whole
+    const center = map({ x: (element.from.x + element.to.x) / 2, y: (element.from.y + element.to.y) / 2 });
+    const hx = (element.to.x - element.from.x) / 2 * t.scale;
+    const hy = (element.to.y - element.from.y) / 2 * t.scale;
+    return {
+      ...element,
+      from: { x: center.x - hx, y: center.y - hy },
+      to: { x: center.x + hx, y: center.y + hy },
+      width: element.width * t.scale,
+      rotation: (element.rotation || 0) + t.rotation,
+    };
+  }
+  return { ...element, points: element.points.map(map), width: element.width * t.scale };
+};
@@ -0,0 +1,119 @@
+import { Filesystem, Directory } from '@capacitor/filesystem';
+import { Capacitor } from '@capacitor/core';
+import { zipSync, Zippable } from 'fflate';
+import { blobToBase64 } from './mediaStore';
+
+// Hands a generated file to the user.
+//   Native: written to Documents/FrameNotes/<path>
+//   Web:    browser download (folders are flattened into the file name, bundles are zipped)
+
+export interface ExportEntry {
+  path: string; // Relative to the bundle folder
+  blob: Blob;
+}
+
+export const EXPORT_FOLDER = 'FrameNotes';
+
+export const dateStamp = (timestamp: number = Date.now()): string =>
+  new Date(timestamp).toISOString().slice(0, 10);
+
+// File-system safe version of a note title
+export const slugify = (text: string, fallback = 'untitled'): string =>
+  text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+    .slice(0, 60) || fallback;
+
+export const saveExportFile = async (path: string, blob: Blob): Promise<string> => {
+  if (Capacitor.isNativePlatform()) {
+    await Filesystem.writeFile({
+      path: `${EXPORT_FOLDER}/${path}`,
+      data: await blobToBase64(blob),
+      directory: Directory.Documents,
+      recursive: true,
+    });
+    return `Documents/${EXPORT_FOLDER}/${path}`;
+  }
+
+  const fileName = path.split('/').join('_');
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+  return fileName;
+};
+
+// A file written piece by piece, so large exports never have to sit in memory whole
+export interface ExportStream {
+  write: (chunk: Uint8Array) => Promise<void>;
+  close: () => Promise<string>; // Resolves to where the file ended up
+  abort: () => Promise<void>;
+}
+
+// Chunks are batched up to this size before they cross the native bridge
+const STREAM_BATCH_SIZE = 2 * 1024 * 1024;
+
+export const openExportStream = async (path: string, type: string): Promise<ExportStream> => {
+  if (!Capacitor.isNativePlatform()) {
+    // Blob parts can be paged out by the browser; one download at the end
+    const parts: Uint8Array[] = [];
+    return {
+      write: async chunk => { parts.push(chunk); },
+      close: () => saveExportFile(path, new Blob(parts, { type })),
+      abort: async () => { parts.length = 0; },
+    };
+  }
+
+  const target = `${EXPORT_FOLDER}/${path}`;
+  await Filesystem.writeFile({ path: target, data: '', directory: Directory.Documents, recursive: true });
+  let batch: Uint8Array[] = [];
+  let batchSize = 0;
+
+  const flush = async () => {
+    if (batchSize === 0) return;
+    const data = await blobToBase64(new Blob(batch));
+    batch = [];
+    batchSize = 0;
+    await Filesystem.appendFile({ path: target, data, directory: Directory.Documents });
+  };
+
+  return {
+    write: async chunk => {
+      batch.push(chunk);
+      batchSize += chunk.length;
+      if (batchSize >= STREAM_BATCH_SIZE) await flush();
+    },
+    close: async () => {
+      await flush();
+      return `Documents/${target}`;
+    },
+    abort: async () => {
+      batch = [];
+      batchSize = 0;
+      await Filesystem.deleteFile({ path: target, directory: Directory.Documents }).catch(() => undefined);
+    },
+  };
+};
+
+// Writes a folder of files. Browsers can't create folders, so the web build downloads a zip of it instead.
+export const saveExportBundle = async (folder: string, entries: ExportEntry[]): Promise<string> => {
+  if (Capacitor.isNativePlatform()) {
+    for (const entry of entries) {
+      await saveExportFile(`${folder}/${entry.path}`, entry.blob);
+    }
+    return `Documents/${EXPORT_FOLDER}/${folder}`;
+  }
+
+  const files: Zippable = {};
+  for (const entry of entries) {
+    files[`${folder}/${entry.path}`] = new Uint8Array(await entry.blob.arrayBuffer());
+  }
+  return saveExportFile(`${folder}.zip`, new Blob([zipSync(files)], { type: 'application/zip' }));
+};
@@ -0,0 +1,172 @@
+import { Note, NoteSummary } from '../types';
+import { summarizeNote } from '../utils';
+import { NoteRepository } from './noteRepository';
+import { HiddenVault, VaultStatus } from './hiddenVault';
+import { IndexedText, textOf } from './searchIndex';
+import { discardMedia, isHeldMedia, isMediaRef, persistHeldMedia, releaseHeldMedia } from './mediaStore';
+
+// Wraps a repository so hidden notes are encrypted on the way in and decrypted on the way out.
+// The wrapped repository only ever sees sealed stubs; while the vault is unlocked this layer
+// swaps their summaries for readable ones so Home can show the HIDDEN grid.
+
+export interface HiddenNoteRepository extends NoteRepository {
+  vaultStatus(): Promise<VaultStatus>;
+  // Both resolve to an error message, or null on success
+  setupVault(passphrase: string): Promise<string | null>;
+  unlockVault(passphrase: string): Promise<string | null>;
+  lockVault(): Promise<void>;
+  // A note's words for the search index. Sealed notes are decrypted without their media.
+  readSearchText(id: string): Promise<IndexedText | 'locked' | null>;
+}
+
+export const createHiddenNoteRepository = (inner: NoteRepository, vault: HiddenVault): HiddenNoteRepository => {
+  let stored: NoteSummary[] = [];
+  // Readable summaries of sealed notes, valid while `source` matches the stub's ciphertext
+  const opened = new Map<string, { source: string; summary: NoteSummary }>();
+  const listeners = new Set<(notes: NoteSummary[]) => void>();
+
+  const present = (list: NoteSummary[]): NoteSummary[] =>
+    list.map(summary => {
+      if (!summary.sealed) return summary;
+      const entry = opened.get(summary.id);
+      return entry && entry.source === summary.sealed.summary ? entry.summary : summary;
+    });
+
+  const emit = () => {
+    const list = present(stored);
+    listeners.forEach(listener => listener(list));
+  };
+
+  // Decrypts any sealed summary not opened yet, e.g. right after unlocking or an archive import
+  const openPending = async () => {
+    if (!vault.isUnlocked()) return;
+    let changed = false;
+    for (const summary of stored) {
+      if (!summary.sealed || opened.get(summary.id)?.source === summary.sealed.summary) continue;
+      try {
+        opened.set(summary.id, { source: summary.sealed.summary, summary: await vault.openSummary(summary) });
+        changed = true;
+      } catch (e) {
+        console.warn("Hidden Vault: could not open summary", summary.id, e);
+      }
+    }
+    if (changed) emit();
+  };
+
+  inner.watch(list => {
+    stored = list;
+    emit();
+    openPending();
+  });
+
+  // Hidden notes written before the vault existed are still plaintext; encrypt them now
+  const sealPlaintextHidden = async () => {
+    for (const summary of stored.filter(s => s.isHidden && !s.sealed)) {
+      const result = await inner.get(summary.id);
+      if (result.status === 'ok') await repository.put(result.note);
+    }
+  };
+
+  const afterUnlock = async () => {
+    await openPending();
+    try {
+      await sealPlaintextHidden();
+    } catch (e) {
+      console.error("Hidden Vault: could not encrypt existing hidden frames", e);
+    }
+  };
+
+  const repository: HiddenNoteRepository = {
+    list: async () => {
+      const listing = await inner.list();
+      stored = listing.notes;
+      return { ...listing, notes: present(stored) };
+    },
+
+    get: async id => {
+      const result = await inner.get(id);
+      if (result.status !== 'ok' || !result.note.sealed) return result;
+      if (!vault.isUnlocked()) return { status: 'locked' };
+      try {
+        return { status: 'ok', note: await vault.unseal(result.note) };
+      } catch (e) {
+        console.warn("Hidden Vault: could not decrypt note", id, e);
+        return { status: 'locked' };
+      }
+    },
+
+    put: async note => {
+      const mediaRefs = note.blocks.map(block => block.content).filter(isMediaRef);
+
+      if (!note.isHidden) {
+        // Leaving the vault: decrypted media only lives in memory, so write it out first
+        for (const ref of mediaRefs) if (isHeldMedia(ref)) await persistHeldMedia(ref);
+        opened.delete(note.id);
+        return inner.put(note);
+      }
+
+      const stub = await vault.seal(note);
+      const stubSummary = summarizeNote(stub);
+      opened.set(note.id, {
+        source: stub.sealed!.summary,
+        summary: { ...summarizeNote(note), isHidden: true, media: stubSummary.media, sealed: stubSummary.sealed },
+      });
+      await inner.put(stub);
+
+      // Plaintext copies of what is now encrypted, served from memory until the vault locks.
+      // Anything a visible note still uses stays.
+      const referenced = new Set(stored.flatMap(summary => summary.media));
+      await discardMedia(mediaRefs.filter(ref => !referenced.has(ref)));
+    },
+
+    delete: async id => {
+      opened.delete(id);
+      await inner.delete(id);
+    },
+
+    watch: listener => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    readSearchText: async id => {
+      const result = await inner.get(id);
+      if (result.status !== 'ok') return null;
+      if (!result.note.sealed) return textOf(result.note);
+      if (!vault.isUnlocked()) return 'locked';
+      try {
+        return textOf(await vault.peek(result.note));
+      } catch (e) {
+        console.warn("Hidden Vault: could not decrypt note", id, e);
+        return 'locked';
+      }
+    },
+
+    vaultStatus: () => vault.status(),
+
+    setupVault: async passphrase => {
+      try {
+        await vault.setup(passphrase, stored);
+      } catch (e) {
+        return (e as Error)?.message || 'Could not set up the vault';
+      }
+      await afterUnlock();
+      return null;
+    },
+
+    unlockVault: async passphrase => {
+      if (!(await vault.unlock(passphrase, stored))) return 'Wrong passphrase';
+      await afterUnlock();
+      return null;
+    },
+
+    lockVault: async () => {
+      vault.lock();
+      opened.clear();
+      emit();
+      await releaseHeldMedia();
+    },
+  };
+
+  return repository;
+};
@@ -0,0 +1,267 @@
+import { Capacitor } from '@capacitor/core';
+import { Note, NoteSummary, SealedNote } from '../types';
+import { summarizeNote } from '../utils';
+import { SCHEMA_VERSION, upgradeNote } from './schema';
+import { readFileSafe, writeFileAtomic } from './persistence';
+import { holdMedia, isMediaRef, putMedia, readMedia } from './mediaStore';
+import {
+  PBKDF2_ITERATIONS, randomSalt, deriveKey, encryptBytes, decryptBytes, encryptText, decryptText,
+} from './vaultCrypto';
+
+// Passphrase-protected storage for hidden notes.
+// A hidden note is stored as a stub whose `sealed` field holds the encrypted note; its media
+// is stored as separate encrypted blobs. Keys only exist in memory while the vault is unlocked.
+
+const SEAL_VERSION = 1;
+const KEY_FILENAME = 'frame_notes_vault.json';
+const KEY_STORAGE_KEY = 'frame_notes_vault';
+const CHECK_TEXT = 'frame-notes-vault';
+
+// Salt and a known-plaintext check, so a wrong passphrase is caught before anything is decrypted
+interface VaultKeyFile {
+  version: number;
+  salt: string;
+  iterations: number;
+  check: string;
+}
+
+// Contents of SealedNote.data
+interface SealedPayload {
+  schemaVersion?: number; // of `note`; absent on payloads sealed under schema v3
+  note: Note;
+  media: Record<string, { ref: string; type: string }>; // plaintext ref -> encrypted blob ref and MIME type
+}
+
+// Contents of SealedNote.summary
+interface SealedSummaryPayload {
+  summary: NoteSummary;
+  cover: { ref: string; type: string } | null; // encrypted blob behind summary.cover
+}
+
+export type VaultStatus = 'unset' | 'locked' | 'unlocked';
+
+export interface HiddenVault {
+  status(): Promise<VaultStatus>;
+  isUnlocked(): boolean;
+  // First-time passphrase. `existing` are sealed summaries already in the vault (e.g. from an
+  // imported archive); the passphrase must open them.
+  setup(passphrase: string, existing: NoteSummary[]): Promise<void>;
+  unlock(passphrase: string, existing: NoteSummary[]): Promise<boolean>;
+  lock(): void;
+  seal(note: Note): Promise<Note>;
+  unseal(note: Note): Promise<Note>;
+  // Decrypts the note itself but none of its media, e.g. for the search index
+  peek(note: Note): Promise<Note>;
+  openSummary(summary: NoteSummary): Promise<NoteSummary>;
+}
+
+const loadKeyFile = async (): Promise<VaultKeyFile | null> => {
+  try {
+    if (Capacitor.isNativePlatform()) return await readFileSafe(KEY_FILENAME, text => JSON.parse(text) as VaultKeyFile);
+    const saved = localStorage.getItem(KEY_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const saveKeyFile = async (file: VaultKeyFile) => {
+  const data = JSON.stringify(file);
+  if (Capacitor.isNativePlatform()) await writeFileAtomic(KEY_FILENAME, data);
+  else localStorage.setItem(KEY_STORAGE_KEY, data);
+};
+
+const sealedSalts = (summaries: NoteSummary[]): Map<string, number> => {
+  const salts = new Map<string, number>();
+  summaries.forEach(s => { if (s.sealed) salts.set(s.sealed.salt, s.sealed.iterations); });
+  return salts;
+};
+
+export const createHiddenVault = (): HiddenVault => {
+  let keyFile: VaultKeyFile | null | undefined;
+  // Keys by salt: notes sealed elsewhere (archives from another install) carry their own salt
+  const keys = new Map<string, CryptoKey>();
+  // plaintext media ref -> encrypted blob, so re-sealing an edited note doesn't re-encrypt its media
+  const sealedMedia = new Map<string, { ref: string; type: string; salt: string }>();
+
+  const getKeyFile = async () => {
+    if (keyFile === undefined) keyFile = await loadKeyFile();
+    return keyFile;
+  };
+
+  const keyFor = (salt: string): CryptoKey => {
+    const key = keys.get(salt);
+    if (!key) throw new Error('Hidden frames are locked');
+    return key;
+  };
+
+  // Derives keys for the salts of sealed notes that weren't made with this install's salt
+  const deriveForeignKeys = async (passphrase: string, existing: NoteSummary[]) => {
+    for (const [salt, iterations] of sealedSalts(existing)) {
+      if (!keys.has(salt)) keys.set(salt, await deriveKey(passphrase, salt, iterations));
+    }
+  };
+
+  const decryptSummary = async (summary: NoteSummary): Promise<SealedSummaryPayload> => {
+    if (!summary.sealed) throw new Error('Note is not sealed');
+    return JSON.parse(await decryptText(keyFor(summary.sealed.salt), summary.sealed.summary));
+  };
+
+  const openPayload = async (stored: Note): Promise<{ note: Note; media: SealedPayload['media'] }> => {
+    if (!stored.sealed) throw new Error('Note is not sealed');
+    if (stored.sealed.version > SEAL_VERSION) throw new Error('Sealed by a newer version of the app');
+    const payload: SealedPayload = JSON.parse(await decryptText(keyFor(stored.sealed.salt), stored.sealed.data));
+
+    const note = upgradeNote(payload.note, payload.schemaVersion ?? 3);
+    if (typeof note === 'string') throw new Error(`Decrypted note is invalid: ${note}`);
+    // The stub's id wins: archive imports may have copied the stub under a new id
+    return { note: { ...note, id: stored.id, isHidden: true }, media: payload.media };
+  };
+
+  const decryptMedia = async (key: CryptoKey, entry: { ref: string; type: string }): Promise<Blob | null> => {
+    const cipher = await readMedia(entry.ref);
+    if (!cipher) return null;
+    const plain = await decryptBytes(key, new Uint8Array(await cipher.arrayBuffer()));
+    return new Blob([plain], { type: entry.type });
+  };
+
+  const vault: HiddenVault = {
+    status: async () => {
+      if (!(await getKeyFile())) return 'unset';
+      return keys.size > 0 ? 'unlocked' : 'locked';
+    },
+
+    isUnlocked: () => keys.size > 0,
+
+    setup: async (passphrase, existing) => {
+      const file: VaultKeyFile = { version: SEAL_VERSION, salt: randomSalt(), iterations: PBKDF2_ITERATIONS, check: '' };
+      const key = await deriveKey(passphrase, file.salt, file.iterations);
+      file.check = await encryptText(key, CHECK_TEXT);
+
+      keys.set(file.salt, key);
+      await deriveForeignKeys(passphrase, existing);
+      const sample = existing.find(s => s.sealed);
+      if (sample) {
+        try {
+          await decryptSummary(sample);
+        } catch (e) {
+          keys.clear();
+          throw new Error('This passphrase does not open the hidden frames already here');
+        }
+      }
+
+      await saveKeyFile(file);
+      keyFile = file;
+    },
+
+    unlock: async (passphrase, existing) => {
+      const file = await getKeyFile();
+      if (!file) return false;
+      const key = await deriveKey(passphrase, file.salt, file.iterations);
+      try {
+        if (await decryptText(key, file.check) !== CHECK_TEXT) return false;
+      } catch (e) {
+        return false;
+      }
+      keys.set(file.salt, key);
+      await deriveForeignKeys(passphrase, existing);
+      return true;
+    },
+
+    lock: () => {
+      keys.clear();
+      sealedMedia.clear();
+    },
+
+    seal: async note => {
+      const file = await getKeyFile();
+      if (!file) throw new Error('Set a passphrase for hidden frames first');
+      const key = keyFor(file.salt);
+
+      // Media first: every asset becomes an encrypted blob in the regular media store
+      const media: SealedPayload['media'] = {};
+      for (const block of note.blocks) {
+        if (!isMediaRef(block.content) || media[block.content]) continue;
+        let entry = sealedMedia.get(block.content);
+        if (!entry || entry.salt !== file.salt) {
+          const blob = await readMedia(block.content);
+          if (!blob) continue;
+          const cipher = await encryptBytes(key, new Uint8Array(await blob.arrayBuffer()));
+          entry = { ref: await putMedia(new Blob([cipher], { type: 'application/octet-stream' })), type: blob.type, salt: file.salt };
+          sealedMedia.set(block.content, entry);
+          // Keep serving the plaintext from memory; the unencrypted copy on disk gets discarded
+          holdMedia(block.content, blob);
+        }
+        media[block.content] = { ref: entry.ref, type: entry.type };
+      }
+
+      const plainNote: Note = { ...note, isHidden: true };
+      delete plainNote.sealed;
+      const summary = summarizeNote(plainNote);
+      const summaryPayload: SealedSummaryPayload = {
+        summary,
+        cover: summary.cover ? media[summary.cover.ref] || null : null,
+      };
+      const payload: SealedPayload = { schemaVersion: SCHEMA_VERSION, note: plainNote, media };
+
+      const sealed: SealedNote = {
+        version: SEAL_VERSION,
+        salt: file.salt,
+        iterations: file.iterations,
+        data: await encryptText(key, JSON.stringify(payload)),
+        summary: await encryptText(key, JSON.stringify(summaryPayload)),
+        media: Array.from(new Set(Object.values(media).map(entry => entry.ref))),
+      };
+
+      return {
+        id: note.id,
+        title: '',
+        createdAt: note.createdAt,
+        updatedAt: note.updatedAt,
+        blocks: [],
+        isPinned: note.isPinned,
+        isHidden: true,
+        // In the clear so the Trash retention purge also works while the vault is locked
+        ...(note.deletedAt ? { deletedAt: note.deletedAt } : {}),
+        sealed,
+      };
+    },
+
+    unseal: async stored => {
+      if (!stored.sealed) return stored;
+      const { note, media } = await openPayload(stored);
+      const key = keyFor(stored.sealed.salt);
+
+      for (const [plainRef, entry] of Object.entries(media)) {
+        sealedMedia.set(plainRef, { ...entry, salt: stored.sealed.salt });
+        try {
+          const blob = await decryptMedia(key, entry);
+          if (blob) holdMedia(plainRef, blob);
+          else console.warn("Hidden Vault: encrypted media missing", entry.ref);
+        } catch (e) {
+          console.warn("Hidden Vault: could not decrypt media", entry.ref, e);
+        }
+      }
+      return note;
+    },
+
+    peek: async stored => stored.sealed ? (await openPayload(stored)).note : stored,
+
+    openSummary: async summary => {
+      if (!summary.sealed) return summary;
+      const payload = await decryptSummary(summary);
+      if (payload.cover && payload.summary.cover) {
+        try {
+          const blob = await decryptMedia(keyFor(summary.sealed.salt), payload.cover);
+          if (blob) holdMedia(payload.summary.cover.ref, blob);
+        } catch (e) {
+          console.warn("Hidden Vault: could not decrypt cover", summary.id, e);
+        }
+      }
+      // Readable card content from the ciphertext; GC still needs the encrypted refs
+      return { ...payload.summary, media: summary.media, sealed: summary.sealed };
+    },
+  };
+
+  return vault;
+};
@@ -0,0 +1,111 @@
+import { describe, expect, it, vi } from 'vitest';
+import { Block, DrawingElement, Note } from '../types';
+import { drawElements, OVERLAY_STYLE } from './drawing';
+import { buildNoteHtml } from './htmlExport';
+
+vi.mock('./mediaStore', async importOriginal => ({
+  ...(await importOriginal<typeof import('./mediaStore')>()),
+  readMedia: async () => new Blob(['photo'], { type: 'image/png' }),
+  blobToBase64: async () => 'cGhvdG8=',
+}));
+
+// Stands in for a 2D context and logs every paint with the state it was painted in.
+// Two renderers agree when their logs do, however they get there.
+const createRecorder = () => {
+  const paints: unknown[] = [];
+  let path: unknown[] = [];
+  let state = {
+    strokeStyle: '', fillStyle: '', lineWidth: 1, lineCap: 'butt', lineJoin: 'miter', globalAlpha: 1,
+    globalCompositeOperation: 'source-over', shadowBlur: 0, shadowColor: '', font: '', textBaseline: 'alphabetic',
+    matrix: [1, 0, 0, 1, 0, 0],
+  };
+  const stack: typeof state[] = [];
+  const multiply = (a: number, b: number, c: number, d: number, e: number, f: number) => {
+    const [ma, mb, mc, md, me, mf] = state.matrix;
+    state.matrix = [ma * a + mc * b, mb * a + md * b, ma * c + mc * d, mb * c + md * d, ma * e + mc * f + me, mb * e + md * f + mf];
+  };
+  const ink = (style: string) => ({
+    style: state.globalCompositeOperation === 'destination-out' ? 'erase' : style,
+    alpha: state.globalAlpha,
+    glow: state.globalCompositeOperation === 'source-over' && state.shadowBlur > 0 ? [state.shadowBlur, state.shadowColor] : null,
+    matrix: state.matrix,
+  });
+
+  const ctx = {
+    save: () => { stack.push({ ...state }); },
+    restore: () => { state = stack.pop() || state; },
+    setTransform: (a: number, b: number, c: number, d: number, e: number, f: number) => { state.matrix = [a, b, c, d, e, f]; },
+    translate: (x: number, y: number) => multiply(1, 0, 0, 1, x, y),
+    rotate: (angle: number) => multiply(Math.cos(angle), Math.sin(angle), -Math.sin(angle), Math.cos(angle), 0, 0),
+    beginPath: () => { path = []; },
+    moveTo: (...args: number[]) => path.push(['moveTo', ...args]),
+    lineTo: (...args: number[]) => path.push(['lineTo', ...args]),
+    arc: (...args: number[]) => path.push(['arc', ...args]),
+    ellipse: (...args: number[]) => path.push(['ellipse', ...args]),
+    closePath: () => path.push(['closePath']),
+    stroke: () => paints.push({ op: 'stroke', path: [...path], width: state.lineWidth, cap: state.lineCap, join: state.lineJoin, ...ink(state.strokeStyle) }),
+    fill: () => paints.push({ op: 'fill', path: [...path], ...ink(state.fillStyle) }),
+    fillText: (text: string, x: number, y: number) =>
+      paints.push({ op: 'fillText', text, x, y, font: state.font, baseline: state.textBaseline, ...ink(state.fillStyle) }),
+  };
+  const context = new Proxy(ctx, {
+    set: (_, key, value) => { (state as Record<string | symbol, unknown>)[key] = value; return true; },
+    get: (target, key) => key in target ? target[key as keyof typeof target] : state[key as keyof typeof state],
+  });
+  return { ctx: context as unknown as CanvasRenderingContext2D, paints };
+};
+
+// Embedded strokes are rounded to hundredths, so coordinates only have to agree that far
+const loosely = (value: unknown): unknown => {
+  if (typeof value === 'number') return expect.closeTo(value, 1);
+  if (Array.isArray(value)) return value.map(loosely);
+  if (value && typeof value === 'object') return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, loosely(v)]));
+  return value;
+};
+
+// Runs the exported page's script against a canvas exactly the size of the drawing space
+const paintExportedPage = (html: string) => {
+  const data = html.match(/<script type="application\/json" id="frame-drawings">([\s\S]*?)<\/script>/)![1];
+  const script = html.match(/<script>([\s\S]*?)<\/script>/)![1];
+  const { ctx, paints } = createRecorder();
+  const canvas = {
+    getAttribute: () => 'b1',
+    parentNode: { getBoundingClientRect: () => ({ width: 400, height: 300 }) },
+    getContext: () => ctx,
+  };
+  const document = {
+    getElementById: () => ({ textContent: data }),
+    querySelectorAll: (selector: string) => selector.startsWith('canvas') ? [canvas] : [],
+  };
+  const window = { devicePixelRatio: 1, addEventListener: () => undefined };
+  new Function('document', 'window', script)(document, window);
+  return paints;
+};
+
+const drawings: DrawingElement[] = [
+  { points: [{ x: 10, y: 10 }, { x: 60, y: 40 }, { x: 120, y: 30 }], color: '#ff0055', width: 6 },
+  { points: [{ x: 20, y: 200, pressure: 0.2 }, { x: 80, y: 180, pressure: 0.9 }, { x: 140, y: 220, pressure: 0.5 }], color: '#00ccff', width: 10, opacity: 0.4 },
+  { points: [{ x: 30, y: 30 }, { x: 90, y: 50 }], color: 'eraser', width: 8 },
+  { points: [{ x: 200, y: 40, pressure: 0.5 }, { x: 240, y: 60, pressure: 0.7 }], color: 'eraser', width: 8 },
+  { kind: 'line', from: { x: 10, y: 280 }, to: { x: 150, y: 260 }, color: '#ffffff', width: 3 },
+  { kind: 'arrow', from: { x: 300, y: 20 }, to: { x: 380, y: 90 }, color: '#ffee00', width: 4, opacity: 0.7 },
+  { kind: 'rect', from: { x: 200, y: 150 }, to: { x: 300, y: 210 }, color: '#22ff88', width: 5, rotation: 0.3 },
+  { kind: 'ellipse', from: { x: 250, y: 220 }, to: { x: 390, y: 290 }, color: '#aa66ff', width: 2, rotation: -0.5 },
+  { kind: 'text', at: { x: 160, y: 100 }, text: 'Look\nhere', color: '#ffffff', fontSize: 20, rotation: 0.2 },
+  { kind: 'line', from: { x: 5, y: 5 }, to: { x: 5, y: 5 }, color: '#ffffff', width: 3 },
+  { kind: 'text', at: { x: 5, y: 5 }, text: '  ', color: '#ffffff', fontSize: 14 },
+];
+
+describe('HTML export drawing script', () => {
+  it('paints annotations exactly like the app renderer', async () => {
+    const block: Block = { id: 'b1', type: 'image', content: 'media://photo', drawings, drawingSpace: { width: 400, height: 300 } };
+    const note: Note = { id: 'n1', title: 'Annotated', createdAt: 1, updatedAt: 1, isPinned: false, blocks: [block] };
+
+    const exported = paintExportedPage(await buildNoteHtml(note, 'dark'));
+    const app = createRecorder();
+    drawElements(app.ctx, drawings, OVERLAY_STYLE);
+
+    expect(app.paints).toHaveLength(10);
+    expect(exported).toEqual(loosely(app.paints));
+  });
+});
@@ -0,0 +1,348 @@
+import { Block, DrawingElement, DrawingLabel, DrawingShape, Note, Theme } from '../types';
+import { APP_NAME, AUTHOR_HANDLE, THEME_PALETTES } from '../constants';
+import { formatDate } from '../utils';
+import { blobToBase64, readMedia } from './mediaStore';
+import { hasAnnotations, loadVisual } from './annotatedMedia';
+import { ARROW_HEAD, LABEL_FONT_FAMILY, LABEL_LINE_HEIGHT, OVERLAY_STYLE, SHAPE_KINDS, StrokeSample, drawingSpaceOf, drawingsInSpace, editedScale, hasPressure, isPath, smoothStroke } from './drawing';
+import { InlineSpan, RichLine, parseRichText } from './richText';
+import { getSketchSurface, renderSketchBlob } from './sketch';
+import { dateStamp, saveExportFile, slugify } from './exportFile';
+
+// Single-file HTML export. Everything the page needs is inside it: media as data URLs,
+// theme CSS, and a small script that draws annotations from the stored drawing data,
+// so the file opens in any browser without the app or a network.
+
+// Freehand strokes are smoothed before embedding, so the page script only has to fill or trace them
+interface EmbeddedStroke {
+  color: string;
+  width: number;
+  opacity?: number;
+  samples: StrokeSample[];
+  outline: boolean; // pressure strokes are filled outlines, the rest a line of even width
+}
+
+interface EmbeddedDrawing {
+  width: number;  // the block's drawing space, shown object-cover in its frame
+  height: number;
+  glow: number;   // blur in space units
+  elements: (EmbeddedStroke | DrawingShape | DrawingLabel)[];
+}
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+const embedElement = (element: DrawingElement): EmbeddedStroke | DrawingShape | DrawingLabel => {
+  if (!isPath(element)) return element;
+  return {
+    color: element.color,
+    width: element.width,
+    opacity: element.opacity,
+    samples: smoothStroke(element).map(s => ({ x: round(s.x), y: round(s.y), r: round(s.r) })),
+    outline: hasPressure(element),
+  };
+};
+
+const FONT_STACK = 'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, sans-serif';
+
+const escapeHtml = (text: string): string =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// JSON inside <script> must not be able to close the tag
+const embedJson = (value: unknown): string =>
+  JSON.stringify(value).replace(/</g, '\\u003c').replace(/\u2028/g, '\\u2028').replace(/\u2029/g, '\\u2029');
+
+// Mirrors BlockRender: square frames on phones, 16:9 from the sm breakpoint, object-cover media
+const buildStyles = (theme: Theme): string => {
+  const palette = THEME_PALETTES[theme];
+  return `
+*, *::before, *::after { box-sizing: border-box; margin: 0; padding: 0; }
+html, body { background: ${palette.bg}; color: ${palette.text}; }
+body { font-family: ${FONT_STACK}; -webkit-font-smoothing: antialiased; padding: 2rem 1.5rem 4rem; }
+main { max-width: 42rem; margin: 0 auto; display: flex; flex-direction: column; gap: 1.5rem; }
+h1 { font-size: 2.5rem; line-height: 1.1; font-weight: 700; margin-bottom: 0.5rem; overflow-wrap: anywhere; }
+.text { font-size: 1.125rem; line-height: 1.625; font-weight: 300; letter-spacing: 0.025em; white-space: pre-wrap; overflow-wrap: anywhere; }
+.text p { min-height: 1.625em; }
+.text .h1 { font-size: 1.75rem; line-height: 1.25; font-weight: 700; margin-top: 0.5rem; }
+.text .h2 { font-size: 1.5rem; line-height: 1.25; font-weight: 700; margin-top: 0.25rem; }
+.text .h3 { font-size: 1.25rem; line-height: 1.375; font-weight: 600; }
+.text .item { display: flex; gap: 0.75rem; }
+.text .item > span:first-child { flex-shrink: 0; color: ${palette.textMuted}; }
+.text blockquote { border-left: 2px solid ${palette.textMuted}; padding-left: 1rem; font-style: italic; color: ${palette.textMuted}; }
+.text code { font-family: ui-monospace, monospace; font-size: 0.85em; background: rgba(255, 255, 255, 0.1); border-radius: 4px; padding: 0.125rem 0.375rem; }
+.text a { color: ${palette.accent}; text-underline-offset: 4px; }
+.text s { opacity: 0.6; }
+.audio audio { display: block; width: 100%; }
+.checklist { list-style: none; display: flex; flex-direction: column; gap: 0.5rem; font-size: 1.125rem; line-height: 1.625; font-weight: 300; letter-spacing: 0.025em; overflow-wrap: anywhere; }
+.checklist li { display: flex; gap: 0.75rem; }
+.checklist li::before { content: '\\2610'; flex-shrink: 0; color: ${palette.textMuted}; }
+.checklist li.done { text-decoration: line-through; color: ${palette.textMuted}; }
+.checklist li.done::before { content: '\\2611'; color: ${palette.accent}; }
+.checklist li.indent { margin-left: 2rem; }
+.frame { position: relative; width: 100%; aspect-ratio: 1 / 1; overflow: hidden; border-radius: 2px; background: #171717; box-shadow: 0 10px 15px -3px rgba(0, 0, 0, 0.3); }
+@media (min-width: 640px) { .frame { aspect-ratio: 16 / 9; } }
+.frame img, .frame video { display: block; width: 100%; height: 100%; object-fit: cover; }
+.frame video { cursor: pointer; }
+.frame.sketch { background: none; box-shadow: none; }
+.frame.sketch img { object-fit: contain; }
+.frame canvas { position: absolute; inset: 0; width: 100%; height: 100%; pointer-events: none; }
+.missing { display: flex; align-items: center; justify-content: center; font-size: 10px; font-weight: 700; letter-spacing: 0.2em; text-transform: uppercase; color: ${palette.textMuted}; background: ${palette.surface}; }
+footer { max-width: 42rem; margin: 3rem auto 0; display: flex; justify-content: space-between; font-size: 10px; font-weight: 700; letter-spacing: 0.2em; text-transform: uppercase; color: ${palette.textMuted}; }
+`;
+};
+
+// Same drawing rules as services/drawing.ts, mapped from the drawing space onto the frame's
+// current size like object-cover media, so annotations line up at any width and pixel density.
+// htmlExport.test.ts paints both renderers side by side to keep them in step.
+const RENDERER_SCRIPT = `
+(function () {
+  var drawings = JSON.parse(document.getElementById('frame-drawings').textContent);
+  var ERASER_SCALE = ${OVERLAY_STYLE.eraserScale}, ARROW_HEAD = ${ARROW_HEAD};
+  var SHAPES = ${JSON.stringify(SHAPE_KINDS)};
+  var LABEL_FONT_FAMILY = ${JSON.stringify(LABEL_FONT_FAMILY)}, LABEL_LINE_HEIGHT = ${LABEL_LINE_HEIGHT};
+
+  function traceOutline(ctx, samples, scale) {
+    samples.forEach(function (s, i) {
+      var r = s.r * scale;
+      ctx.moveTo(s.x + r, s.y);
+      ctx.arc(s.x, s.y, r, 0, Math.PI * 2);
+      if (i === 0) return;
+      var a = samples[i - 1], ra = a.r * scale;
+      var length = Math.hypot(s.x - a.x, s.y - a.y);
+      if (length === 0) return;
+      var nx = -(s.y - a.y) / length, ny = (s.x - a.x) / length;
+      var quad = [[a.x + nx * ra, a.y + ny * ra], [s.x + nx * r, s.y + ny * r], [s.x - nx * r, s.y - ny * r], [a.x - nx * ra, a.y - ny * ra]];
+      var area = 0;
+      for (var j = 0; j < 4; j++) area += quad[j][0] * quad[(j + 1) % 4][1] - quad[(j + 1) % 4][0] * quad[j][1];
+      if (area < 0) quad.reverse();
+      ctx.moveTo(quad[0][0], quad[0][1]);
+      for (var k = 1; k < 4; k++) ctx.lineTo(quad[k][0], quad[k][1]);
+      ctx.closePath();
+    });
+  }
+
+  function draw(canvas) {
+    var entry = drawings[canvas.getAttribute('data-block')];
+    if (!entry) return;
+    var rect = canvas.parentNode.getBoundingClientRect();
+    var dpr = window.devicePixelRatio || 1;
+    var scale = Math.max(rect.width / entry.width, rect.height / entry.height);
+    var offsetX = (rect.width - entry.width * scale) / 2, offsetY = (rect.height - entry.height * scale) / 2;
+    canvas.width = Math.round(rect.width * dpr);
+    canvas.height = Math.round(rect.height * dpr);
+    var ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(scale * dpr, 0, 0, scale * dpr, offsetX * dpr, offsetY * dpr);
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    entry.elements.forEach(function (el) {
+      var isShape = SHAPES.indexOf(el.kind) !== -1;
+      var isLabel = el.kind === 'text';
+      if (isLabel ? !el.text.trim() : isShape ? (el.from.x === el.to.x && el.from.y === el.to.y) : el.samples.length < 2) return;
+      var isEraser = !isShape && !isLabel && el.color === 'eraser';
+      if (isEraser) {
+        ctx.globalCompositeOperation = 'destination-out';
+        ctx.lineWidth = el.width * ERASER_SCALE;
+        ctx.shadowBlur = 0;
+      } else {
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.strokeStyle = el.color;
+        ctx.fillStyle = el.color;
+        ctx.lineWidth = el.width;
+        ctx.shadowBlur = entry.glow * scale * dpr;
+        ctx.shadowColor = el.color;
+      }
+      ctx.globalAlpha = isLabel || el.opacity === undefined ? 1 : el.opacity;
+      if (isLabel) {
+        ctx.save();
+        ctx.translate(el.at.x, el.at.y);
+        ctx.rotate(el.rotation || 0);
+        ctx.font = '600 ' + el.fontSize + 'px ' + LABEL_FONT_FAMILY;
+        ctx.textBaseline = 'top';
+        el.text.split('\\n').forEach(function (line, i) {
+          ctx.fillText(line, 0, i * el.fontSize * LABEL_LINE_HEIGHT);
+        });
+        ctx.restore();
+        return;
+      }
+      ctx.beginPath();
+      if (!isShape && el.outline) {
+        traceOutline(ctx, el.samples, isEraser ? ERASER_SCALE : 1);
+        ctx.fill();
+        return;
+      }
+      if (!isShape) {
+        ctx.moveTo(el.samples[0].x, el.samples[0].y);
+        for (var i = 1; i < el.samples.length; i++) ctx.lineTo(el.samples[i].x, el.samples[i].y);
+      } else if (el.kind === 'rect') {
+        var cx = (el.from.x + el.to.x) / 2, cy = (el.from.y + el.to.y) / 2;
+        var rx = Math.abs(el.to.x - el.from.x) / 2, ry = Math.abs(el.to.y - el.from.y) / 2;
+        var cos = Math.cos(el.rotation || 0), sin = Math.sin(el.rotation || 0);
+        [[-1, -1], [1, -1], [1, 1], [-1, 1]].forEach(function (c, i) {
+          var x = cx + c[0] * rx * cos - c[1] * ry * sin, y = cy + c[0] * rx * sin + c[1] * ry * cos;
+          if (i === 0) ctx.moveTo(x, y); else ctx.lineTo(x, y);
+        });
+        ctx.closePath();
+      } else if (el.kind === 'ellipse') {
+        ctx.ellipse((el.from.x + el.to.x) / 2, (el.from.y + el.to.y) / 2, Math.abs(el.to.x - el.from.x) / 2, Math.abs(el.to.y - el.from.y) / 2, el.rotation || 0, 0, Math.PI * 2);
+      } else {
+        ctx.moveTo(el.from.x, el.from.y);
+        ctx.lineTo(el.to.x, el.to.y);
+        if (el.kind === 'arrow') {
+          var angle = Math.atan2(el.to.y - el.from.y, el.to.x - el.from.x);
+          var head = el.width * ARROW_HEAD;
+          [-1, 1].forEach(function (side) {
+            ctx.moveTo(el.to.x, el.to.y);
+            ctx.lineTo(el.to.x - head * Math.cos(angle + side * Math.PI / 6), el.to.y - head * Math.sin(angle + side * Math.PI / 6));
+          });
+        }
+      }
+      ctx.stroke();
+    });
+  }
+
+  function drawAll() {
+    Array.prototype.forEach.call(document.querySelectorAll('canvas[data-block]'), draw);
+  }
+  window.addEventListener('resize', drawAll);
+  drawAll();
+
+  // Videos loop while on screen, like in the app; a tap pauses or resumes
+  var videos = document.querySelectorAll('video');
+  var observer = 'IntersectionObserver' in window ? new IntersectionObserver(function (entries) {
+    entries.forEach(function (entry) {
+      if (entry.isIntersecting) { if (!entry.target.dataset.paused) entry.target.play().catch(function () {}); }
+      else entry.target.pause();
+    });
+  }, { threshold: 0.5 }) : null;
+  Array.prototype.forEach.call(videos, function (video) {
+    if (observer) observer.observe(video);
+    video.addEventListener('click', function () {
+      if (video.paused) { delete video.dataset.paused; video.play().catch(function () {}); }
+      else { video.dataset.paused = '1'; video.pause(); }
+    });
+  });
+})();
+`;
+
+const renderMediaBlock = async (block: Block, drawings: Record<string, EmbeddedDrawing>): Promise<string> => {
+  let blob: Blob | null = null;
+  try {
+    blob = block.type === 'sketch' ? await renderSketchBlob(block) : await readMedia(block.content);
+  } catch (e) {
+    console.warn("HTML export: could not read media", block.id, e);
+  }
+  if (!blob) return `<div class="frame missing">Missing ${block.type}</div>`;
+
+  const src = `data:${blob.type || 'application/octet-stream'};base64,${await blobToBase64(blob)}`;
+  if (block.type === 'audio') return `<div class="audio"><audio src="${src}" controls preload="metadata"></audio></div>`;
+  if (block.type === 'sketch') {
+    const surface = getSketchSurface(block);
+    return `<div class="frame sketch" style="aspect-ratio: ${surface.width} / ${surface.height}"><img src="${src}" alt=""></div>`;
+  }
+  const media = block.type === 'image'
+    ? `<img src="${src}" alt="">`
+    : `<video src="${src}" autoplay muted loop playsinline></video>`;
+
+  if (!hasAnnotations(block)) return `<div class="frame">${media}</div>`;
+
+  // Older drawings are in the pixels of the frame they were drawn in; mapping them into the
+  // media's space needs its intrinsic size
+  let mediaSize = block.drawingSpace || { width: block.width || 1, height: block.height || 1 };
+  if (!block.drawingSpace) {
+    try {
+      const visual = await loadVisual(blob, block.type);
+      visual.release();
+      mediaSize = { width: visual.width, height: visual.height };
+    } catch (e) {
+      console.warn("HTML export: could not measure media", block.id, e);
+    }
+  }
+  const space = drawingSpaceOf(block, mediaSize);
+  drawings[block.id] = {
+    width: space.width,
+    height: space.height,
+    glow: OVERLAY_STYLE.glow / editedScale(block, mediaSize),
+    elements: drawingsInSpace(block, mediaSize).map(embedElement),
+  };
+  return `<div class="frame">${media}<canvas data-block="${escapeHtml(block.id)}"></canvas></div>`;
+};
+
+const renderSpan = (span: InlineSpan): string => {
+  let html = escapeHtml(span.text);
+  if (span.code) html = `<code>${html}</code>`;
+  if (span.strike) html = `<s>${html}</s>`;
+  if (span.italic) html = `<em>${html}</em>`;
+  if (span.bold) html = `<strong>${html}</strong>`;
+  if (span.href) html = `<a href="${escapeHtml(span.href)}">${html}</a>`;
+  return html;
+};
+
+// Same line layout as the in-app RichText component
+const renderLine = (line: RichLine): string => {
+  const html = line.spans.map(renderSpan).join('');
+  switch (line.kind) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+      return `<p class="${line.kind}">${html}</p>`;
+    case 'bullet':
+      return `<p class="item"><span>•</span><span>${html}</span></p>`;
+    case 'ordered':
+      return `<p class="item"><span>${line.number}.</span><span>${html}</span></p>`;
+    case 'quote':
+      return `<blockquote>${html}</blockquote>`;
+    default:
+      return `<p>${html}</p>`;
+  }
+};
+
+export const buildNoteHtml = async (note: Note, theme: Theme): Promise<string> => {
+  const drawings: Record<string, EmbeddedDrawing> = {};
+  const body: string[] = [];
+
+  if (note.title.trim()) body.push(`<h1>${escapeHtml(note.title)}</h1>`);
+
+  for (const block of note.blocks) {
+    if (block.type === 'text') {
+      if (block.content.trim()) body.push(`<div class="text">${parseRichText(block.content).map(renderLine).join('')}</div>`);
+      continue;
+    }
+    if (block.type === 'checklist') {
+      const items = (block.items || []).map(item =>
+        `<li class="${[item.checked && 'done', item.indent && 'indent'].filter(Boolean).join(' ')}">${escapeHtml(item.text)}</li>`
+      );
+      if (items.length) body.push(`<ul class="checklist">${items.join('')}</ul>`);
+      continue;
+    }
+    body.push(await renderMediaBlock(block, drawings));
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta name="generator" content="${APP_NAME}">
+<title>${escapeHtml(note.title || 'Untitled')}</title>
+<style>${buildStyles(theme)}</style>
+</head>
+<body>
+<main>
+${body.join('\n')}
+</main>
+<footer><span>${APP_NAME} · ${AUTHOR_HANDLE}</span><span>${escapeHtml(formatDate(note.updatedAt))}</span></footer>
+<script type="application/json" id="frame-drawings">${embedJson(drawings)}</script>
+<script>${RENDERER_SCRIPT}</script>
+</body>
+</html>
+`;
+};
+
+export const exportNoteAsHtml = async (note: Note, theme: Theme): Promise<string> => {
+  const html = await buildNoteHtml(note, theme);
+  return saveExportFile(`${slugify(note.title)}-${dateStamp(note.updatedAt)}.html`, new Blob([html], { type: 'text/html' }));
+};
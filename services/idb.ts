@@ -0,0 +1,64 @@
+// Minimal promise wrapper around IndexedDB for the web build.
+// Native builds keep their data in the Capacitor Filesystem instead.
+
+const DB_NAME = 'frame_notes';
+const DB_VERSION = 3;
+
+export type StoreName = 'media' | 'notes' | 'meta' | 'history';
+
+// Upgrades only create stores that are missing, so bumping DB_VERSION is all a new store needs
+const STORE_NAMES: StoreName[] = ['media', 'notes', 'meta', 'history'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        STORE_NAMES.forEach(name => {
+          if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+        });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: StoreName,
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = action(tx.objectStore(storeName));
+    // Resolve on commit so callers never observe a write that could still roll back
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error || request.error);
+    tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+  });
+};
+
+export const idbGet = <T>(storeName: StoreName, key: string): Promise<T | undefined> =>
+  runRequest<T | undefined>(storeName, 'readonly', store => store.get(key));
+
+export const idbPut = async (storeName: StoreName, key: string, value: unknown): Promise<void> => {
+  await runRequest(storeName, 'readwrite', store => store.put(value, key));
+};
+
+export const idbDelete = async (storeName: StoreName, key: string): Promise<void> => {
+  await runRequest(storeName, 'readwrite', store => store.delete(key));
+};
+
+export const idbKeys = async (storeName: StoreName): Promise<string[]> => {
+  const keys = await runRequest(storeName, 'readonly', store => store.getAllKeys());
+  return keys.map(String);
+};
@@ -0,0 +1,43 @@
+import { Filesystem, Directory } from '@capacitor/filesystem';
+import { Capacitor } from '@capacitor/core';
+import { LoadedVault, parseVault } from './schema';
+import { readFileSafe } from './persistence';
+
+// The single-file database that predates the NoteRepository (frame_notes_db.json on
+// native, mirrored in localStorage frame_notes_data), read once and then retired.
+
+const LEGACY_FILENAME = 'frame_notes_db.json';
+const LEGACY_KEY = 'frame_notes_data';
+
+// Returns null when there is nothing left to migrate
+export const loadLegacyNotes = async (): Promise<LoadedVault | null> => {
+  if (Capacitor.isNativePlatform()) {
+    const vault = await readFileSafe(LEGACY_FILENAME, parseVault);
+    if (vault) return vault;
+  }
+  const saved = localStorage.getItem(LEGACY_KEY);
+  if (!saved) return null;
+  try {
+    return parseVault(saved);
+  } catch (e) {
+    console.error("LS Error", e);
+    return null;
+  }
+};
+
+// Called once every legacy note is safely in the repository (and rejects in quarantine)
+export const retireLegacyStorage = async (): Promise<void> => {
+  localStorage.removeItem(LEGACY_KEY);
+  if (Capacitor.isNativePlatform()) {
+    // Keep the old file under a new name as a one-off safety net
+    await Filesystem.rename({
+      from: LEGACY_FILENAME,
+      to: `${LEGACY_FILENAME}.migrated`,
+      directory: Directory.Data,
+      toDirectory: Directory.Data,
+    }).catch(() => undefined);
+    for (const path of [`${LEGACY_FILENAME}.bak`, `${LEGACY_FILENAME}.tmp`]) {
+      await Filesystem.deleteFile({ path, directory: Directory.Data }).catch(() => undefined);
+    }
+  }
+};
@@ -0,0 +1,94 @@
+import { Block, Note } from '../types';
+import { MEDIA_SCHEME, extensionForMime, isMediaRef, readMedia } from './mediaStore';
+import { canvasToBlob, hasAnnotations, renderMediaCanvas } from './annotatedMedia';
+import { ExportEntry, dateStamp, saveExportBundle, slugify } from './exportFile';
+import { renderSketchBlob } from './sketch';
+
+// Per-note Markdown export:
+//   <slug>/<slug>.md
+//   <slug>/assets/<name>.<ext>            original media
+//   <slug>/assets/<name>-annotated.png    flattened copy for media with drawings
+
+const ASSETS_DIR = 'assets';
+
+// Short, stable asset names: the content hash for stored media, the block id for legacy data
+const assetBaseName = (block: Block): string =>
+  isMediaRef(block.content) ? block.content.slice(MEDIA_SCHEME.length, MEDIA_SCHEME.length + 16) : block.id;
+
+// Text blocks are already Markdown; single newlines become hard breaks as they are in the app
+const toParagraph = (text: string): string =>
+  text.replace(/\r\n/g, '\n').split('\n').map(line => line.replace(/\s+$/, '')).join('  \n');
+
+// GitHub-style task list; indented items nest one level
+const toTaskList = (block: Block): string =>
+  (block.items || []).map(item => `${item.indent ? '  ' : ''}- [${item.checked ? 'x' : ' '}] ${item.text}`).join('\n');
+
+const escapeAlt = (text: string): string => text.replace(/[[\]]/g, '');
+
+// Paths may contain spaces on some systems; angle brackets keep the link intact
+const linkTarget = (path: string): string => /\s/.test(path) ? `<${path}>` : path;
+
+export const buildMarkdownBundle = async (note: Note): Promise<ExportEntry[]> => {
+  const entries: ExportEntry[] = [];
+  const lines: string[] = [
+    '---',
+    `title: ${JSON.stringify(note.title || 'Untitled')}`,
+    `created: ${new Date(note.createdAt).toISOString()}`,
+    `updated: ${new Date(note.updatedAt).toISOString()}`,
+    '---',
+    '',
+    `# ${note.title || 'Untitled'}`,
+    '',
+  ];
+  const written = new Set<string>();
+
+  for (const block of note.blocks) {
+    if (block.type === 'text') {
+      if (block.content.trim()) lines.push(toParagraph(block.content), '');
+      continue;
+    }
+    if (block.type === 'checklist') {
+      if (block.items?.length) lines.push(toTaskList(block), '');
+      continue;
+    }
+
+    // Sketches are rendered fresh from their strokes
+    const blob = block.type === 'sketch' ? await renderSketchBlob(block) : await readMedia(block.content);
+    if (!blob) {
+      lines.push(`*Missing ${block.type}*`, '');
+      continue;
+    }
+
+    const baseName = assetBaseName(block);
+    const assetPath = `${ASSETS_DIR}/${baseName}.${extensionForMime(blob.type)}`;
+    if (!written.has(assetPath)) {
+      entries.push({ path: assetPath, blob });
+      written.add(assetPath);
+    }
+
+    if (hasAnnotations(block)) {
+      const annotatedPath = `${ASSETS_DIR}/${baseName}-${block.id}-annotated.png`;
+      try {
+        entries.push({ path: annotatedPath, blob: await canvasToBlob(await renderMediaCanvas(block, blob)) });
+        lines.push(`![${escapeAlt(note.title || 'Frame')} (annotated)](${linkTarget(annotatedPath)})`);
+        lines.push(`[Original ${block.type}](${linkTarget(assetPath)})`, '');
+        continue;
+      } catch (e) {
+        console.warn("Markdown export: could not flatten annotations", block.id, e);
+      }
+    }
+
+    if (block.type === 'image' || block.type === 'sketch') lines.push(`![${escapeAlt(note.title || 'Image')}](${linkTarget(assetPath)})`, '');
+    else if (block.type === 'audio') lines.push(`[♪ Audio](${linkTarget(assetPath)})`, '');
+    else lines.push(`[▶ Video](${linkTarget(assetPath)})`, '');
+  }
+
+  const slug = slugify(note.title);
+  entries.unshift({ path: `${slug}.md`, blob: new Blob([lines.join('\n')], { type: 'text/markdown' }) });
+  return entries;
+};
+
+export const exportNoteAsMarkdown = async (note: Note): Promise<string> => {
+  const folder = `${slugify(note.title)}-${dateStamp(note.updatedAt)}`;
+  return saveExportBundle(folder, await buildMarkdownBundle(note));
+};
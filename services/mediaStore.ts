@@ -0,0 +1,312 @@
+import { Filesystem, Directory } from '@capacitor/filesystem';
+import { Capacitor } from '@capacitor/core';
+import { Block, Note } from '../types';
+import { idbGet, idbPut, idbDelete, idbKeys } from './idb';
+
+// Content-addressed media store.
+// Every asset is written once, keyed by the SHA-256 of its bytes, and blocks
+// only carry a `media://<hash>` reference to it.
+//   Native: binary files under Directory.Data/media/<hash>.<ext>
+//   Web:    Blobs in the IndexedDB "media" store
+
+export const MEDIA_SCHEME = 'media://';
+const MEDIA_DIR = 'media';
+
+const MIME_BY_EXTENSION: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  heic: 'image/heic',
+  svg: 'image/svg+xml',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  '3gp': 'video/3gpp',
+  mp3: 'audio/mpeg',
+  m4a: 'audio/mp4',
+  aac: 'audio/aac',
+  wav: 'audio/wav',
+  // WebM voice memos get their own extension so they don't read back as video
+  weba: 'audio/webm',
+  ogg: 'audio/ogg',
+  opus: 'audio/opus',
+};
+
+export const isMediaRef = (value: string | null | undefined): boolean =>
+  !!value && value.startsWith(MEDIA_SCHEME);
+
+export const isMediaBlock = (block: Block): boolean =>
+  block.type === 'image' || block.type === 'video' || block.type === 'audio';
+
+const hashFromRef = (ref: string): string => ref.slice(MEDIA_SCHEME.length);
+
+export const extensionForMime = (mime: string): string => {
+  // Recorders report codec parameters ("audio/webm;codecs=opus") that the table leaves out
+  const base = mime.split(';')[0].trim().toLowerCase();
+  const found = Object.keys(MIME_BY_EXTENSION).find(ext => MIME_BY_EXTENSION[ext] === base);
+  if (found) return found;
+  const subtype = base.split('/')[1];
+  return subtype && /^[a-z0-9]+$/i.test(subtype) ? subtype.toLowerCase() : 'bin';
+};
+
+export const mimeForFileName = (name: string): string => {
+  const ext = name.split('.').pop()?.toLowerCase() || '';
+  return MIME_BY_EXTENSION[ext] || 'application/octet-stream';
+};
+
+const sha256Hex = async (buffer: ArrayBuffer): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', buffer);
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const blobToBase64 = (blob: Blob): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = reader.result as string;
+      resolve(result.substring(result.indexOf(',') + 1));
+    };
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+
+export const base64ToBlob = (base64: string, type: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type });
+};
+
+// --- Native file index (hash -> file name incl. extension) ---
+
+let nativeIndex: Promise<Map<string, string>> | null = null;
+
+const loadNativeIndex = (): Promise<Map<string, string>> => {
+  if (!nativeIndex) {
+    nativeIndex = (async () => {
+      const index = new Map<string, string>();
+      try {
+        const result = await Filesystem.readdir({ path: MEDIA_DIR, directory: Directory.Data });
+        result.files.forEach(file => {
+          if (file.type === 'directory') return;
+          index.set(file.name.split('.')[0], file.name);
+        });
+      } catch (e) {
+        // Media directory does not exist yet
+      }
+      return index;
+    })();
+  }
+  return nativeIndex;
+};
+
+// --- Held media ---
+// Decrypted assets of unlocked hidden notes. They are served from memory by ref
+// and never written to disk; releasing them is part of locking the vault.
+
+const heldMedia = new Map<string, Blob>();
+
+export const holdMedia = (ref: string, blob: Blob) => {
+  heldMedia.set(ref, blob);
+};
+
+export const isHeldMedia = (ref: string): boolean => heldMedia.has(ref);
+
+// --- Session writes ---
+// Assets stored since launch. An open editor holds refs to them before its first
+// save reaches disk, so garbage collection never treats them as unreferenced.
+
+const sessionHashes = new Set<string>();
+
+// --- Public API ---
+
+export const putMedia = async (blob: Blob): Promise<string> => {
+  const hash = await sha256Hex(await blob.arrayBuffer());
+  const ref = MEDIA_SCHEME + hash;
+  sessionHashes.add(hash);
+
+  if (Capacitor.isNativePlatform()) {
+    const index = await loadNativeIndex();
+    if (index.has(hash)) return ref;
+
+    const fileName = `${hash}.${extensionForMime(blob.type)}`;
+    await Filesystem.writeFile({
+      path: `${MEDIA_DIR}/${fileName}`,
+      data: await blobToBase64(blob),
+      directory: Directory.Data,
+      recursive: true,
+    });
+    index.set(hash, fileName);
+  } else {
+    const existing = await idbGet<Blob>('media', hash);
+    if (!existing) await idbPut('media', hash, blob);
+  }
+
+  return ref;
+};
+
+export const readMedia = async (ref: string): Promise<Blob | null> => {
+  if (!isMediaRef(ref)) {
+    // Legacy inline data URL
+    return ref.startsWith('data:') ? (await fetch(ref)).blob() : null;
+  }
+  const held = heldMedia.get(ref);
+  if (held) return held;
+  const hash = hashFromRef(ref);
+
+  if (Capacitor.isNativePlatform()) {
+    const fileName = (await loadNativeIndex()).get(hash);
+    if (!fileName) return null;
+    const result = await Filesystem.readFile({ path: `${MEDIA_DIR}/${fileName}`, directory: Directory.Data });
+    return typeof result.data === 'string' ? base64ToBlob(result.data, mimeForFileName(fileName)) : result.data;
+  }
+
+  return (await idbGet<Blob>('media', hash)) || null;
+};
+
+const urlCache = new Map<string, Promise<string | null>>();
+
+export const resolveMediaUrl = (ref: string): Promise<string | null> => {
+  if (!isMediaRef(ref)) return Promise.resolve(ref);
+
+  let pending = urlCache.get(ref);
+  if (!pending) {
+    pending = (async () => {
+      if (Capacitor.isNativePlatform() && !heldMedia.has(ref)) {
+        // Stream straight from disk instead of pulling the bytes through the bridge
+        const fileName = (await loadNativeIndex()).get(hashFromRef(ref));
+        if (!fileName) return null;
+        const { uri } = await Filesystem.getUri({ path: `${MEDIA_DIR}/${fileName}`, directory: Directory.Data });
+        return Capacitor.convertFileSrc(uri);
+      }
+      const blob = await readMedia(ref);
+      return blob ? URL.createObjectURL(blob) : null;
+    })();
+    pending.catch(() => urlCache.delete(ref));
+    urlCache.set(ref, pending);
+  }
+  return pending;
+};
+
+const deleteMedia = async (hash: string) => {
+  const ref = MEDIA_SCHEME + hash;
+  const cached = urlCache.get(ref);
+  if (cached) {
+    urlCache.delete(ref);
+    const url = await cached.catch(() => null);
+    if (url?.startsWith('blob:')) URL.revokeObjectURL(url);
+  }
+
+  if (Capacitor.isNativePlatform()) {
+    const index = await loadNativeIndex();
+    const fileName = index.get(hash);
+    if (!fileName) return;
+    await Filesystem.deleteFile({ path: `${MEDIA_DIR}/${fileName}`, directory: Directory.Data });
+    index.delete(hash);
+  } else {
+    await idbDelete('media', hash);
+  }
+};
+
+// Writes a held asset to the store proper, e.g. when its note stops being hidden
+export const persistHeldMedia = async (ref: string): Promise<void> => {
+  const held = heldMedia.get(ref);
+  if (held) await putMedia(held);
+};
+
+// Forgets every held asset and revokes the object URLs handed out for them
+export const releaseHeldMedia = async () => {
+  const refs = Array.from(heldMedia.keys());
+  heldMedia.clear();
+  for (const ref of refs) {
+    const cached = urlCache.get(ref);
+    if (!cached) continue;
+    urlCache.delete(ref);
+    const url = await cached.catch(() => null);
+    if (url?.startsWith('blob:')) URL.revokeObjectURL(url);
+  }
+};
+
+// Deletes specific assets, e.g. plaintext copies left behind once a note was encrypted
+export const discardMedia = async (refs: string[]) => {
+  for (const ref of refs) {
+    if (!isMediaRef(ref)) continue;
+    try {
+      await deleteMedia(hashFromRef(ref));
+    } catch (e) {
+      console.warn('Media Store: failed to discard', ref, e);
+    }
+  }
+};
+
+const listStoredHashes = async (): Promise<string[]> => {
+  if (Capacitor.isNativePlatform()) {
+    return Array.from((await loadNativeIndex()).keys());
+  }
+  return idbKeys('media');
+};
+
+// --- Note helpers ---
+
+export const collectMediaRefs = (notes: Note[]): Set<string> => {
+  const refs = new Set<string>();
+  notes.forEach(note => note.blocks.forEach(block => {
+    if (isMediaRef(block.content)) refs.add(block.content);
+  }));
+  return refs;
+};
+
+// For data we could not validate (e.g. quarantined notes): any reference found anywhere counts
+export const collectRawMediaRefs = (raw: unknown, into: Set<string> = new Set()): Set<string> => {
+  const matches = JSON.stringify(raw ?? null).match(/media:\/\/[0-9a-f]{64}/g) || [];
+  matches.forEach(ref => into.add(ref));
+  return into;
+};
+
+// Deletes every stored asset that none of the given refs point to, except ones stored this session.
+// Must only run with the full set of live references (e.g. right after load).
+export const collectMediaGarbage = async (referenced: Set<string>): Promise<number> => {
+  const hashes = await listStoredHashes();
+  let removed = 0;
+  for (const hash of hashes) {
+    if (referenced.has(MEDIA_SCHEME + hash) || sessionHashes.has(hash)) continue;
+    try {
+      await deleteMedia(hash);
+      removed++;
+    } catch (e) {
+      console.warn('Media GC: failed to delete', hash, e);
+    }
+  }
+  return removed;
+};
+
+// Moves legacy Base64 content out of blocks and into the store.
+// Returns the same array instance when nothing had to change.
+export const internalizeLegacyMedia = async (notes: Note[]): Promise<Note[]> => {
+  let changed = false;
+  const result: Note[] = [];
+
+  for (const note of notes) {
+    let noteChanged = false;
+    const blocks: Block[] = [];
+    for (const block of note.blocks) {
+      if (isMediaBlock(block) && block.content.startsWith('data:')) {
+        try {
+          const ref = await putMedia(await (await fetch(block.content)).blob());
+          blocks.push({ ...block, content: ref });
+          noteChanged = true;
+          continue;
+        } catch (e) {
+          console.warn('Media migration failed for block', block.id, e);
+        }
+      }
+      blocks.push(block);
+    }
+    result.push(noteChanged ? { ...note, blocks } : note);
+    changed = changed || noteChanged;
+  }
+
+  return changed ? result : notes;
+};
@@ -0,0 +1,142 @@
+import { Capacitor } from '@capacitor/core';
+import { Filesystem, Directory } from '@capacitor/filesystem';
+import { Block, Note } from '../types';
+import { SCHEMA_VERSION, upgradeNote } from './schema';
+import { readFileSafe, writeFileAtomic } from './persistence';
+import { idbDelete, idbGet, idbKeys, idbPut } from './idb';
+import { isMediaRef } from './mediaStore';
+
+// Snapshots of each note for the Editor's History panel.
+// Native: Directory.Data/history/<id>.json; web: the "history" IndexedDB store.
+// Hidden notes keep no history: snapshots would sit unencrypted next to the sealed note.
+
+const HISTORY_DIR = 'history';
+const SNAPSHOT_INTERVAL_MS = 5 * 60 * 1000;
+const MAX_VERSIONS = 50;
+
+export interface NoteVersion {
+  savedAt: number;
+  note: Note;
+}
+
+interface HistoryFile {
+  schemaVersion: number;
+  versions: NoteVersion[];
+}
+
+export type BlockChange = 'removed' | 'changed' | 'same';
+
+const historyPath = (id: string) => `${HISTORY_DIR}/${id}.json`;
+
+// Loaded lists, so throttling doesn't re-read storage on every autosave
+const cache = new Map<string, NoteVersion[]>();
+
+const parseHistory = (text: string): NoteVersion[] => {
+  const file: HistoryFile = JSON.parse(text);
+  if (!file || !Array.isArray(file.versions) || file.schemaVersion > SCHEMA_VERSION) return [];
+  return file.versions.flatMap(version => {
+    const note = upgradeNote(version?.note, file.schemaVersion);
+    return typeof note === 'string' || typeof version.savedAt !== 'number' ? [] : [{ savedAt: version.savedAt, note }];
+  });
+};
+
+const readHistory = async (id: string): Promise<NoteVersion[]> => {
+  try {
+    if (Capacitor.isNativePlatform()) return await readFileSafe(historyPath(id), parseHistory) || [];
+    const saved = await idbGet<string>('history', id);
+    return saved ? parseHistory(saved) : [];
+  } catch (e) {
+    console.warn("History: unreadable, starting over", id, e);
+    return [];
+  }
+};
+
+const writeHistory = async (id: string, versions: NoteVersion[]) => {
+  const file: HistoryFile = { schemaVersion: SCHEMA_VERSION, versions };
+  const data = JSON.stringify(file);
+  if (Capacitor.isNativePlatform()) await writeFileAtomic(historyPath(id), data);
+  else await idbPut('history', id, data);
+};
+
+// Oldest first
+export const loadHistory = async (id: string): Promise<NoteVersion[]> => {
+  let versions = cache.get(id);
+  if (!versions) {
+    versions = await readHistory(id);
+    cache.set(id, versions);
+  }
+  return versions;
+};
+
+const sameContent = (a: Note, b: Note) =>
+  a.title === b.title && JSON.stringify(a.blocks) === JSON.stringify(b.blocks);
+
+// Stores a snapshot unless nothing changed since the last one, or (without `force`)
+// the last one is younger than the snapshot interval
+export const recordVersion = async (note: Note, force = false): Promise<void> => {
+  if (note.isHidden) {
+    // Hiding a note discards the plaintext history it had
+    if (cache.get(note.id)?.length !== 0) await clearHistory(note.id);
+    cache.set(note.id, []);
+    return;
+  }
+  const versions = await loadHistory(note.id);
+  const last = versions[versions.length - 1];
+  if (last && sameContent(last.note, note)) return;
+  if (last && !force && Date.now() - last.savedAt < SNAPSHOT_INTERVAL_MS) return;
+
+  const next = [...versions, { savedAt: Date.now(), note }].slice(-MAX_VERSIONS);
+  cache.set(note.id, next);
+  await writeHistory(note.id, next);
+};
+
+export const clearHistory = async (id: string): Promise<void> => {
+  cache.delete(id);
+  if (Capacitor.isNativePlatform()) {
+    for (const path of [historyPath(id), `${historyPath(id)}.bak`, `${historyPath(id)}.tmp`]) {
+      await Filesystem.deleteFile({ path, directory: Directory.Data }).catch(() => undefined);
+    }
+  } else {
+    await idbDelete('history', id);
+  }
+};
+
+const listHistoryIds = async (): Promise<string[]> => {
+  if (!Capacitor.isNativePlatform()) return idbKeys('history');
+  try {
+    const result = await Filesystem.readdir({ path: HISTORY_DIR, directory: Directory.Data });
+    return result.files
+      .map(file => file.name)
+      .filter(name => name.endsWith('.json'))
+      .map(name => name.slice(0, -'.json'.length));
+  } catch (e) {
+    return [];
+  }
+};
+
+// Media GC must keep whatever old versions still show. Histories of notes that
+// no longer exist are dropped here too.
+export const collectHistoryMediaRefs = async (liveIds: Set<string>, into: Set<string>): Promise<void> => {
+  for (const id of await listHistoryIds()) {
+    if (!liveIds.has(id)) {
+      await clearHistory(id);
+      continue;
+    }
+    (await loadHistory(id)).forEach(version => version.note.blocks.forEach(block => {
+      if (isMediaRef(block.content)) into.add(block.content);
+    }));
+  }
+};
+
+// How each block of `version` relates to `current`, matched by block id; `added` counts blocks only `current` has
+export const diffBlocks = (version: Block[], current: Block[]): { changes: Map<string, BlockChange>; added: number } => {
+  const currentById = new Map(current.map(block => [block.id, block]));
+  const changes = new Map<string, BlockChange>();
+  version.forEach(block => {
+    const now = currentById.get(block.id);
+    if (!now) changes.set(block.id, 'removed');
+    else changes.set(block.id, JSON.stringify(now) === JSON.stringify(block) ? 'same' : 'changed');
+  });
+  const versionIds = new Set(version.map(block => block.id));
+  return { changes, added: current.filter(block => !versionIds.has(block.id)).length };
+};
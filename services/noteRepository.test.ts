@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { Note, NoteSummary } from '../types';
+import { createNoteRepository } from './noteRepository';
+import { createMemoryBackend } from './backends/memoryBackend';
+
+const makeNote = (id: string, overrides: Partial<Note> = {}): Note => ({
+  id,
+  title: `Note ${id}`,
+  createdAt: 1,
+  updatedAt: 1,
+  isPinned: false,
+  blocks: [{ id: `${id}-text`, type: 'text', content: `Body of ${id}` }],
+  ...overrides,
+});
+
+const ids = (notes: NoteSummary[] | null) => (notes || []).map(n => n.id).sort();
+
+describe('note repository', () => {
+  it('rebuilds a missing index from the note files', async () => {
+    const backend = createMemoryBackend([makeNote('a'), makeNote('b')]);
+    const repository = createNoteRepository(backend);
+
+    const { notes, quarantined } = await repository.list();
+    expect(ids(notes)).toEqual(['a', 'b']);
+    expect(quarantined).toEqual([]);
+    expect(ids(await backend.readIndex())).toEqual(['a', 'b']);
+  });
+
+  it('leaves notes that fail to read out of a rebuild without removing them', async () => {
+    const backend = createMemoryBackend([makeNote('a'), makeNote('b')]);
+    const readNote = backend.readNote;
+    backend.readNote = id => id === 'a' ? Promise.reject(new Error('I/O error')) : readNote(id);
+    const repository = createNoteRepository(backend);
+
+    expect(ids((await repository.list()).notes)).toEqual(['b']);
+    expect((await backend.listNoteIds()).sort()).toEqual(['a', 'b']);
+  });
+
+  it('lists from a stored index without reading notes', async () => {
+    const backend = createMemoryBackend([makeNote('a')]);
+    await createNoteRepository(backend).list();
+    await backend.removeNote('a');
+
+    // The index is trusted as long as it is readable
+    const { notes } = await createNoteRepository(backend).list();
+    expect(ids(notes)).toEqual(['a']);
+  });
+
+  it('writes the note and its summary on put', async () => {
+    const backend = createMemoryBackend();
+    const repository = createNoteRepository(backend);
+
+    await repository.put(makeNote('a'));
+    await repository.put(makeNote('a', { title: 'Renamed', updatedAt: 2 }));
+
+    const result = await repository.get('a');
+    expect(result.status === 'ok' && result.note.title).toBe('Renamed');
+    const index = await backend.readIndex();
+    expect(index).toHaveLength(1);
+    expect(index![0]).toMatchObject({ id: 'a', title: 'Renamed', updatedAt: 2 });
+  });
+
+  it('removes the note and its summary on delete', async () => {
+    const backend = createMemoryBackend([makeNote('a'), makeNote('b')]);
+    const repository = createNoteRepository(backend);
+
+    await repository.delete('a');
+
+    expect(await repository.get('a')).toEqual({ status: 'missing' });
+    expect(ids((await repository.list()).notes)).toEqual(['b']);
+    expect(ids(await backend.readIndex())).toEqual(['b']);
+    expect(await backend.listNoteIds()).toEqual(['b']);
+  });
+
+  it('keeps the index in step with concurrent deletes', async () => {
+    const backend = createMemoryBackend([makeNote('a'), makeNote('b'), makeNote('c'), makeNote('d')]);
+    const repository = createNoteRepository(backend);
+
+    await Promise.all(['a', 'b', 'c'].map(id => repository.delete(id)));
+
+    expect(ids((await repository.list()).notes)).toEqual(['d']);
+    expect(ids(await backend.readIndex())).toEqual(['d']);
+    expect(await backend.listNoteIds()).toEqual(['d']);
+  });
+
+  it('keeps the index in step with concurrent puts and deletes', async () => {
+    const backend = createMemoryBackend([makeNote('a'), makeNote('b')]);
+    const repository = createNoteRepository(backend);
+
+    await Promise.all([
+      repository.put(makeNote('c')),
+      repository.delete('a'),
+      repository.put(makeNote('b', { title: 'Edited', updatedAt: 2 })),
+      repository.put(makeNote('d')),
+    ]);
+
+    const index = await backend.readIndex();
+    expect(ids(index)).toEqual(['b', 'c', 'd']);
+    expect(index!.find(n => n.id === 'b')?.title).toBe('Edited');
+    expect((await backend.listNoteIds()).sort()).toEqual(['b', 'c', 'd']);
+  });
+
+  it('tells watchers about every change until they unsubscribe', async () => {
+    const repository = createNoteRepository(createMemoryBackend([makeNote('a')]));
+    const seen: string[][] = [];
+    const unwatch = repository.watch(notes => seen.push(ids(notes)));
+
+    await repository.list();
+    await repository.put(makeNote('b'));
+    await repository.delete('a');
+    unwatch();
+    await repository.put(makeNote('c'));
+
+    expect(seen).toEqual([['a'], ['a', 'b'], ['b']]);
+  });
+});
@@ -0,0 +1,133 @@
+import { Capacitor } from '@capacitor/core';
+import { Note, NoteSummary } from '../types';
+import { summarizeNote } from '../utils';
+import { QuarantinedNote } from './schema';
+import { createCoalescingWriter } from './persistence';
+import { createFilesystemBackend } from './backends/filesystemBackend';
+import { createIndexedDbBackend } from './backends/indexedDbBackend';
+
+export type NoteLoadResult =
+  | { status: 'ok'; note: Note }
+  | { status: 'quarantined'; entry: QuarantinedNote }
+  | { status: 'missing' }
+  // Encrypted hidden note while the vault is locked (or its key is unknown)
+  | { status: 'locked' };
+
+export interface NoteListing {
+  notes: NoteSummary[];
+  // Only filled when the index had to be rebuilt and some note files failed validation
+  quarantined: QuarantinedNote[];
+}
+
+// What the app talks to. Summaries come from a small index; full notes are fetched one at a time.
+export interface NoteRepository {
+  list(): Promise<NoteListing>;
+  get(id: string): Promise<NoteLoadResult>;
+  put(note: Note): Promise<void>;
+  delete(id: string): Promise<void>;
+  // Called with the full summary list after every change; returns an unsubscribe function
+  watch(listener: (notes: NoteSummary[]) => void): () => void;
+}
+
+// Raw storage primitives a repository is built on. Backends know nothing about
+// indexes staying in sync, write ordering or change notification.
+export interface NoteBackend {
+  readIndex(): Promise<NoteSummary[] | null>;
+  writeIndex(notes: NoteSummary[]): Promise<void>;
+  readNote(id: string): Promise<NoteLoadResult>;
+  writeNote(note: Note): Promise<void>;
+  removeNote(id: string): Promise<void>;
+  listNoteIds(): Promise<string[]>;
+}
+
+export const createNoteRepository = (backend: NoteBackend): NoteRepository => {
+  let summaries: NoteSummary[] | null = null;
+  const listeners = new Set<(notes: NoteSummary[]) => void>();
+  const indexWriter = createCoalescingWriter(backend.writeIndex);
+  // Per-note queues; `null` deletes, sharing the queue so a late save cannot resurrect a note
+  const noteWriters = new Map<string, (note: Note | null) => Promise<void>>();
+
+  const noteWriter = (id: string) => {
+    let writer = noteWriters.get(id);
+    if (!writer) {
+      writer = createCoalescingWriter<Note | null>(value => value ? backend.writeNote(value) : backend.removeNote(id));
+      noteWriters.set(id, writer);
+    }
+    return writer;
+  };
+
+  const commit = (next: NoteSummary[]): Promise<void> => {
+    summaries = next;
+    listeners.forEach(listener => listener(next));
+    return indexWriter(next);
+  };
+
+  // Recovery path for a missing or damaged index: one full pass over the note files
+  const rebuild = async (): Promise<NoteListing> => {
+    const notes: NoteSummary[] = [];
+    const quarantined: QuarantinedNote[] = [];
+    for (const id of await backend.listNoteIds()) {
+      let result: NoteLoadResult;
+      try {
+        result = await backend.readNote(id);
+      } catch (e) {
+        // Left out of the index but kept on disk; the next rebuild tries again
+        console.warn("Repository: could not read note", id, e);
+        continue;
+      }
+      if (result.status === 'ok') notes.push(summarizeNote(result.note));
+      if (result.status === 'quarantined') quarantined.push({ ...result.entry, id });
+    }
+    await commit(notes);
+    return { notes, quarantined };
+  };
+
+  const ensureLoaded = async (): Promise<void> => {
+    if (!summaries) await repository.list();
+  };
+
+  // Applies a change to the live summaries. Mutations may be in flight together, so the
+  // list is read after the last await; a copy taken earlier would drop their changes.
+  const mutateIndex = async (recipe: (current: NoteSummary[]) => NoteSummary[]): Promise<void> => {
+    await ensureLoaded();
+    return commit(recipe(summaries || []));
+  };
+
+  const repository: NoteRepository = {
+    list: async () => {
+      if (summaries) return { notes: summaries, quarantined: [] };
+      const stored = await backend.readIndex();
+      if (!stored) return rebuild();
+      summaries = stored;
+      listeners.forEach(listener => listener(stored));
+      return { notes: stored, quarantined: [] };
+    },
+
+    get: id => backend.readNote(id),
+
+    put: async note => {
+      const summary = summarizeNote(note);
+      await Promise.all([
+        noteWriter(note.id)(note),
+        mutateIndex(current => current.some(n => n.id === note.id)
+          ? current.map(n => n.id === note.id ? summary : n)
+          : [summary, ...current]),
+      ]);
+    },
+
+    delete: async id => {
+      await Promise.all([noteWriter(id)(null), mutateIndex(current => current.filter(n => n.id !== id))]);
+    },
+
+    watch: listener => {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+  };
+
+  return repository;
+};
+
+// Native builds keep files in Directory.Data; the web build uses IndexedDB to avoid localStorage's quota
+export const createDefaultRepository = (): NoteRepository =>
+  createNoteRepository(Capacitor.isNativePlatform() ? createFilesystemBackend() : createIndexedDbBackend());
@@ -0,0 +1,85 @@
+// Minimal PDF writer: one full-bleed JPEG per page, which is all the frame export needs.
+// JPEG bytes are embedded as-is (DCTDecode), so nothing is re-encoded here.
+
+export interface PdfPage {
+  jpeg: Uint8Array;
+  pixelWidth: number;
+  pixelHeight: number;
+}
+
+export interface PdfOptions {
+  title?: string;
+  pageWidth: number;  // points
+  pageHeight: number; // points
+}
+
+// A4 in points
+export const A4 = { width: 595.28, height: 841.89 };
+
+const encoder = new TextEncoder();
+
+// Info strings are written as UTF-16BE hex so any title survives without escaping rules
+const pdfTextString = (text: string): string => {
+  let hex = 'FEFF';
+  for (let i = 0; i < text.length; i++) {
+    hex += text.charCodeAt(i).toString(16).padStart(4, '0').toUpperCase();
+  }
+  return `<${hex}>`;
+};
+
+export const buildPdf = (pages: PdfPage[], options: PdfOptions): Blob => {
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+
+  const push = (data: string | Uint8Array) => {
+    const bytes = typeof data === 'string' ? encoder.encode(data) : data;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const beginObject = (id: number) => {
+    offsets[id] = length;
+    push(`${id} 0 obj\n`);
+  };
+
+  // Object layout: 1 catalog, 2 page tree, 3 info, then (page, content, image) per page
+  const pageId = (index: number) => 4 + index * 3;
+  const { pageWidth: w, pageHeight: h } = options;
+
+  push('%PDF-1.4\n%âãÏÓ\n');
+
+  beginObject(1);
+  push('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+  beginObject(2);
+  push(`<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+  beginObject(3);
+  push(`<< /Producer (Frame Notes)${options.title ? ` /Title ${pdfTextString(options.title)}` : ''} >>\nendobj\n`);
+
+  pages.forEach((page, i) => {
+    const id = pageId(i);
+    const drawing = `q ${w} 0 0 ${h} 0 0 cm /Im0 Do Q\n`;
+
+    beginObject(id);
+    push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${w} ${h}] /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>\nendobj\n`);
+
+    beginObject(id + 1);
+    push(`<< /Length ${encoder.encode(drawing).length} >>\nstream\n${drawing}endstream\nendobj\n`);
+
+    beginObject(id + 2);
+    push(`<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+    push(page.jpeg);
+    push('\nendstream\nendobj\n');
+  });
+
+  const objectCount = offsets.length;
+  const xrefOffset = length;
+  push(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+  for (let id = 1; id < objectCount; id++) {
+    push(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+  }
+  push(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 3 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
@@ -0,0 +1,151 @@
+import { Filesystem, Directory, Encoding } from '@capacitor/filesystem';
+
+// Crash-safe file writes for the native build.
+// Each save goes to "<file>.tmp" first and is renamed over the real file only once
+// it is complete, with the previous good copy kept as "<file>.bak".
+
+const tmpPath = (path: string) => `${path}.tmp`;
+const backupPath = (path: string) => `${path}.bak`;
+
+// Files whose current on-disk content is known to be complete (read back fine, or written by us).
+// Only those get rotated into the .bak slot, so a damaged file never replaces a good backup.
+const verifiedFiles = new Set<string>();
+
+// Null only when the file doesn't exist; a file that is there but can't be read throws
+const readText = async (path: string): Promise<string | null> => {
+  try {
+    const result = await Filesystem.readFile({ path, directory: Directory.Data, encoding: Encoding.UTF8 });
+    return result.data as string;
+  } catch (e) {
+    const exists = await Filesystem.stat({ path, directory: Directory.Data }).then(() => true, () => false);
+    if (exists) throw e;
+    return null;
+  }
+};
+
+// Keeps an unreadable file around for manual recovery instead of letting the next save overwrite it
+const preserveCorrupt = async (path: string, text: string) => {
+  try {
+    await Filesystem.writeFile({
+      path: `${path}.corrupt-${Date.now()}`,
+      data: text,
+      directory: Directory.Data,
+      encoding: Encoding.UTF8,
+    });
+  } catch (e) {
+    console.error("Persistence: could not preserve corrupt file", path, e);
+  }
+};
+
+export type FileReadResult<T> =
+  | { status: 'ok'; value: T }
+  | { status: 'missing' }
+  // `raw` is the main file's text when it could be read but not parsed, null after an I/O error
+  | { status: 'unreadable'; raw: string | null; error: unknown };
+
+// Reads a file, falling back to the last-known-good copy and then to a finished but
+// never-renamed temp file. 'missing' means no copy exists at all, so a damaged file or a
+// failing read is never mistaken for one that was deleted. Only a throwing `parse` counts
+// as damage; a parser may itself return null for a file that is fine but outdated, which
+// is passed on without falling back or preserving a corrupt copy.
+export const readFileChecked = async <T>(path: string, parse: (text: string) => T): Promise<FileReadResult<T>> => {
+  let found = false;
+  let raw: string | null = null;
+  let error: unknown = null;
+  for (const candidate of [path, backupPath(path), tmpPath(path)]) {
+    let text: string | null;
+    try {
+      text = await readText(candidate);
+    } catch (e) {
+      console.warn(`Persistence: could not read ${candidate}`, e);
+      found = true;
+      error = error || e;
+      continue;
+    }
+    if (text === null) continue;
+    found = true;
+    try {
+      const value = parse(text);
+      if (candidate === path) {
+        verifiedFiles.add(path);
+      } else {
+        console.warn(`Persistence: recovered ${path} from ${candidate}`);
+      }
+      return { status: 'ok', value };
+    } catch (e) {
+      console.warn(`Persistence: ${candidate} is unreadable`, e);
+      error = error || e;
+      if (candidate === path) {
+        raw = text;
+        await preserveCorrupt(path, text);
+      }
+    }
+  }
+  return found ? { status: 'unreadable', raw, error } : { status: 'missing' };
+};
+
+// For files that can simply start over: null when no usable copy exists
+export const readFileSafe = async <T>(path: string, parse: (text: string) => T): Promise<T | null> => {
+  const result = await readFileChecked(path, parse);
+  return result.status === 'ok' ? result.value : null;
+};
+
+export const writeFileAtomic = async (path: string, data: string): Promise<void> => {
+  const directory = Directory.Data;
+  await Filesystem.writeFile({ path: tmpPath(path), data, directory, encoding: Encoding.UTF8, recursive: true });
+
+  if (verifiedFiles.has(path)) {
+    await Filesystem.copy({ from: path, to: backupPath(path), directory, toDirectory: directory });
+  }
+
+  try {
+    await Filesystem.rename({ from: tmpPath(path), to: path, directory, toDirectory: directory });
+  } catch (e) {
+    // Some platforms refuse to rename over an existing file; the .bak copy covers the gap
+    await Filesystem.deleteFile({ path, directory }).catch(() => undefined);
+    await Filesystem.rename({ from: tmpPath(path), to: path, directory, toDirectory: directory });
+  }
+  verifiedFiles.add(path);
+};
+
+// Serializes async writes and coalesces bursts: while one write is in flight only the
+// newest pending value is kept, so saves can never land out of order.
+// Callers whose value was superseded settle together with the value that replaced it.
+export const createCoalescingWriter = <T>(write: (value: T) => Promise<void>) => {
+  let running = false;
+  let next: { value: T; waiters: Array<{ resolve: () => void; reject: (e: unknown) => void }> } | null = null;
+
+  const drain = async () => {
+    running = true;
+    while (next) {
+      const job = next;
+      next = null;
+      try {
+        await write(job.value);
+        job.waiters.forEach(w => w.resolve());
+      } catch (e) {
+        job.waiters.forEach(w => w.reject(e));
+      }
+    }
+    running = false;
+  };
+
+  return (value: T): Promise<void> =>
+    new Promise((resolve, reject) => {
+      if (next) {
+        next.value = value;
+        next.waiters.push({ resolve, reject });
+      } else {
+        next = { value, waiters: [{ resolve, reject }] };
+      }
+      if (!running) drain();
+    });
+};
+
+export const describeSaveError = (e: unknown): string => {
+  const text = (e instanceof Error ? `${e.name} ${e.message}` : String(e)).toLowerCase();
+  if (text.includes('quota') || text.includes('no space') || text.includes('enospc') || text.includes('full')) {
+    return 'Storage is full';
+  }
+  return 'Could not write to storage';
+};
@@ -0,0 +1,329 @@
+import { Block, Note, Theme } from '../types';
+import { APP_NAME, AUTHOR_HANDLE, THEME_PALETTES } from '../constants';
+import { formatDate } from '../utils';
+import { readMedia } from './mediaStore';
+import { canvasToBlob, renderMediaCanvas } from './annotatedMedia';
+import { dateStamp, saveExportFile, slugify } from './exportFile';
+import { A4, PdfPage, buildPdf } from './pdf';
+import { toPlainText } from './richText';
+import { formatDuration } from './audio';
+import { renderSketchCanvas } from './sketch';
+
+// Renders a whole frame the way the editor shows it: one tall PNG poster, or the same
+// layout cut into A4 pages for a PDF. Layout happens in the phone's CSS pixels and is
+// scaled up when painted, so typography matches the app at any output size.
+
+type Palette = typeof THEME_PALETTES[Theme];
+
+type Row =
+  | { kind: 'text'; text: string; font: string; color: string; height: number }
+  | { kind: 'media'; canvas: HTMLCanvasElement | null; type: Block['type']; width: number; height: number }
+  | { kind: 'gap'; height: number };
+
+// Editor metrics (px-6 page, text-[2.5rem] leading-[1.1] title, text-lg leading-relaxed body, gap-6)
+const BASE_WIDTH = 390;
+const PADDING_X = 24;
+const PADDING_Y = 32;
+const CONTENT_WIDTH = BASE_WIDTH - PADDING_X * 2;
+const TITLE_SIZE = 40;
+const TITLE_LINE = 44;
+const TITLE_GAP = 32;
+const BODY_SIZE = 18;
+const BODY_LINE = 29.25;
+const BLOCK_GAP = 24;
+const FOOTER_HEIGHT = 40;
+const FONT_STACK = 'ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, sans-serif';
+
+// Output sizes in device pixels. Mobile WebViews refuse canvases much taller or larger than this.
+// A standard poster is at most MAX_OUTPUT_WIDTH across, which shrinks media to about 1750px;
+// a full-size poster widens to fit the largest media, until the canvas limits step in.
+const MIN_OUTPUT_WIDTH = 1080;
+const MAX_OUTPUT_WIDTH = 2160;
+const FULL_SIZE_MAX_OUTPUT_WIDTH = 8192;
+const MAX_CANVAS_HEIGHT = 16384;
+const MAX_CANVAS_AREA = 16384 * 4096;
+
+const mediaWidthFor = (outputWidth: number) => Math.round(outputWidth * CONTENT_WIDTH / BASE_WIDTH);
+
+const titleFont = `bold ${TITLE_SIZE}px ${FONT_STACK}`;
+const bodyFont = `300 ${BODY_SIZE}px ${FONT_STACK}`;
+
+const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width));
+  canvas.height = Math.max(1, Math.round(height));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas unavailable');
+  return { canvas, ctx };
+};
+
+// Greedy word wrap; words wider than a line are broken by character
+const wrapText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] => {
+  const lines: string[] = [];
+  text.replace(/\r\n/g, '\n').split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/(\s+)/).forEach(token => {
+      const candidate = line + token;
+      if (ctx.measureText(candidate).width <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (line.trim()) lines.push(line.trimEnd());
+      line = token.trim() ? token : '';
+      while (ctx.measureText(line).width > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && ctx.measureText(line.slice(0, cut)).width > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    });
+    lines.push(line.trimEnd());
+  });
+  return lines;
+};
+
+// Caps media at what the largest poster can show, so long frames don't hold dozens of
+// full camera-resolution canvases in memory at once
+const fitCanvas = (source: HTMLCanvasElement, maxWidth: number): HTMLCanvasElement => {
+  if (source.width <= maxWidth) return source;
+  const { canvas, ctx } = createCanvas(maxWidth, source.height * maxWidth / source.width);
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(source, 0, 0, canvas.width, canvas.height);
+  return canvas;
+};
+
+const buildRows = async (note: Note, palette: Palette, maxOutputWidth = MAX_OUTPUT_WIDTH): Promise<Row[]> => {
+  const maxMediaWidth = mediaWidthFor(maxOutputWidth);
+  const { ctx } = createCanvas(1, 1);
+  const rows: Row[] = [];
+  const gap = (height: number) => { if (rows.length) rows.push({ kind: 'gap', height }); };
+
+  if (note.title.trim()) {
+    ctx.font = titleFont;
+    wrapText(ctx, note.title.trim(), CONTENT_WIDTH).forEach(text =>
+      rows.push({ kind: 'text', text, font: titleFont, color: palette.text, height: TITLE_LINE })
+    );
+    rows.push({ kind: 'gap', height: TITLE_GAP - BLOCK_GAP });
+  }
+
+  for (const block of note.blocks) {
+    if (block.type === 'text') {
+      // Posters draw the words only; formatting markers would read as stray symbols
+      const text = toPlainText(block.content).trim();
+      if (!text) continue;
+      gap(BLOCK_GAP);
+      ctx.font = bodyFont;
+      wrapText(ctx, text, CONTENT_WIDTH).forEach(text =>
+        rows.push({ kind: 'text', text, font: bodyFont, color: palette.text, height: BODY_LINE })
+      );
+      continue;
+    }
+
+    if (block.type === 'checklist') {
+      if (!block.items?.length) continue;
+      gap(BLOCK_GAP);
+      ctx.font = bodyFont;
+      block.items.forEach(item => {
+        const indent = item.indent ? '      ' : '';
+        wrapText(ctx, `${indent}${item.checked ? '\u2611' : '\u2610'} ${item.text}`, CONTENT_WIDTH).forEach(text =>
+          rows.push({ kind: 'text', text, font: bodyFont, color: item.checked ? palette.textMuted : palette.text, height: BODY_LINE })
+        );
+      });
+      continue;
+    }
+
+    // Sound can't be printed; the poster notes that the frame has a clip
+    if (block.type === 'audio') {
+      gap(BLOCK_GAP);
+      const label = block.duration ? `\u266A Audio \u00B7 ${formatDuration(block.duration)}` : '\u266A Audio';
+      rows.push({ kind: 'text', text: label, font: bodyFont, color: palette.textMuted, height: BODY_LINE });
+      continue;
+    }
+
+    let canvas: HTMLCanvasElement | null = null;
+    try {
+      if (block.type === 'sketch') {
+        canvas = fitCanvas(renderSketchCanvas(block), maxMediaWidth);
+      } else {
+        const blob = await readMedia(block.content);
+        if (blob) canvas = fitCanvas(await renderMediaCanvas(block, blob), maxMediaWidth);
+      }
+    } catch (e) {
+      console.warn("Poster export: could not render media", block.id, e);
+    }
+    gap(BLOCK_GAP);
+    rows.push({
+      kind: 'media',
+      canvas,
+      type: block.type,
+      width: CONTENT_WIDTH,
+      height: canvas ? CONTENT_WIDTH * canvas.height / canvas.width : CONTENT_WIDTH * 9 / 16,
+    });
+  }
+
+  // Leading title spacer with no blocks after it
+  while (rows.length && rows[rows.length - 1].kind === 'gap') rows.pop();
+  return rows;
+};
+
+// Sharpest output that still fits: as wide as the largest media needs, within limits
+const pickOutputWidth = (rows: Row[], maxOutputWidth = MAX_OUTPUT_WIDTH): number => {
+  const widest = rows.reduce((max, row) =>
+    row.kind === 'media' && row.canvas ? Math.max(max, row.canvas.width * BASE_WIDTH / CONTENT_WIDTH) : max, 0);
+  return Math.min(maxOutputWidth, Math.max(MIN_OUTPUT_WIDTH, Math.round(widest)));
+};
+
+// --- Painting ---
+
+const paintRow = (ctx: CanvasRenderingContext2D, row: Row, y: number, palette: Palette) => {
+  if (row.kind === 'text') {
+    ctx.font = row.font;
+    ctx.fillStyle = row.color;
+    ctx.textBaseline = 'middle';
+    ctx.fillText(row.text, PADDING_X, y + row.height / 2);
+    return;
+  }
+  if (row.kind !== 'media') return;
+
+  const x = PADDING_X + (CONTENT_WIDTH - row.width) / 2;
+  if (!row.canvas) {
+    ctx.fillStyle = palette.surface;
+    ctx.fillRect(x, y, row.width, row.height);
+    ctx.font = `bold 10px ${FONT_STACK}`;
+    ctx.fillStyle = palette.textMuted;
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(`MISSING ${row.type.toUpperCase()}`, x + row.width / 2, y + row.height / 2);
+    ctx.textAlign = 'left';
+    return;
+  }
+
+  ctx.imageSmoothingQuality = 'high';
+  ctx.drawImage(row.canvas, x, y, row.width, row.height);
+
+  // Poster frames get a play badge so a still isn't mistaken for a photo
+  if (row.type === 'video') {
+    const cx = x + row.width / 2;
+    const cy = y + row.height / 2;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+    ctx.beginPath();
+    ctx.arc(cx, cy, 22, 0, Math.PI * 2);
+    ctx.fill();
+    ctx.fillStyle = '#ffffff';
+    ctx.beginPath();
+    ctx.moveTo(cx - 6, cy - 10);
+    ctx.lineTo(cx + 10, cy);
+    ctx.lineTo(cx - 6, cy + 10);
+    ctx.closePath();
+    ctx.fill();
+  }
+};
+
+const paintFooter = (ctx: CanvasRenderingContext2D, y: number, palette: Palette, right: string) => {
+  ctx.font = `bold 10px ${FONT_STACK}`;
+  ctx.fillStyle = palette.textMuted;
+  ctx.textBaseline = 'middle';
+  ctx.fillText(`${APP_NAME} · ${AUTHOR_HANDLE}`, PADDING_X, y + FOOTER_HEIGHT / 2);
+  ctx.textAlign = 'right';
+  ctx.fillText(right.toUpperCase(), BASE_WIDTH - PADDING_X, y + FOOTER_HEIGHT / 2);
+  ctx.textAlign = 'left';
+};
+
+const beginSurface = (cssWidth: number, cssHeight: number, scale: number, palette: Palette) => {
+  const surface = createCanvas(cssWidth * scale, cssHeight * scale);
+  surface.ctx.scale(surface.canvas.width / cssWidth, surface.canvas.height / cssHeight);
+  surface.ctx.fillStyle = palette.bg;
+  surface.ctx.fillRect(0, 0, cssWidth, cssHeight);
+  return surface;
+};
+
+// --- PNG poster ---
+
+export const renderPoster = async (note: Note, theme: Theme, fullSize = false): Promise<Blob> => {
+  const palette = THEME_PALETTES[theme];
+  const maxOutputWidth = fullSize ? FULL_SIZE_MAX_OUTPUT_WIDTH : MAX_OUTPUT_WIDTH;
+  const rows = await buildRows(note, palette, maxOutputWidth);
+
+  const contentHeight = rows.reduce((sum, row) => sum + row.height, 0);
+  const cssHeight = PADDING_Y + contentHeight + PADDING_Y + FOOTER_HEIGHT;
+  const scale = Math.min(
+    pickOutputWidth(rows, maxOutputWidth) / BASE_WIDTH,
+    MAX_CANVAS_HEIGHT / cssHeight,
+    Math.sqrt(MAX_CANVAS_AREA / (BASE_WIDTH * cssHeight))
+  );
+
+  const { canvas, ctx } = beginSurface(BASE_WIDTH, cssHeight, scale, palette);
+  let y = PADDING_Y;
+  rows.forEach(row => {
+    paintRow(ctx, row, y, palette);
+    y += row.height;
+  });
+  paintFooter(ctx, cssHeight - FOOTER_HEIGHT - PADDING_Y / 2, palette, formatDate(note.updatedAt));
+
+  return canvasToBlob(canvas);
+};
+
+// --- Paginated PDF ---
+
+const PAGE_HEIGHT = BASE_WIDTH * A4.height / A4.width;
+const PAGE_CONTENT_HEIGHT = PAGE_HEIGHT - PADDING_Y - FOOTER_HEIGHT;
+
+// Splits rows into pages. Text moves line by line; media never splits and is shrunk
+// when taller than a whole page. Gaps are dropped at page breaks.
+const paginate = (rows: Row[]): Row[][] => {
+  const pages: Row[][] = [[]];
+  let used = 0;
+
+  rows.forEach(row => {
+    let placed = row;
+    if (placed.kind === 'media' && placed.height > PAGE_CONTENT_HEIGHT) {
+      const shrink = PAGE_CONTENT_HEIGHT / placed.height;
+      placed = { ...placed, width: placed.width * shrink, height: PAGE_CONTENT_HEIGHT };
+    }
+
+    if (used + placed.height > PAGE_CONTENT_HEIGHT && used > 0) {
+      pages.push([]);
+      used = 0;
+    }
+    if (placed.kind === 'gap' && used === 0) return;
+
+    pages[pages.length - 1].push(placed);
+    used += placed.height;
+  });
+
+  return pages;
+};
+
+export const renderPdf = async (note: Note, theme: Theme): Promise<Blob> => {
+  const palette = THEME_PALETTES[theme];
+  const rows = await buildRows(note, palette);
+  const pages = paginate(rows);
+  const scale = pickOutputWidth(rows) / BASE_WIDTH;
+
+  const pdfPages: PdfPage[] = [];
+  for (let i = 0; i < pages.length; i++) {
+    const { canvas, ctx } = beginSurface(BASE_WIDTH, PAGE_HEIGHT, scale, palette);
+    let y = PADDING_Y;
+    pages[i].forEach(row => {
+      paintRow(ctx, row, y, palette);
+      y += row.height;
+    });
+    paintFooter(ctx, PAGE_HEIGHT - FOOTER_HEIGHT, palette, `${i + 1} / ${pages.length}`);
+
+    const jpeg = await canvasToBlob(canvas, 'image/jpeg', 0.92);
+    pdfPages.push({ jpeg: new Uint8Array(await jpeg.arrayBuffer()), pixelWidth: canvas.width, pixelHeight: canvas.height });
+  }
+
+  return buildPdf(pdfPages, { title: note.title || undefined, pageWidth: A4.width, pageHeight: A4.height });
+};
+
+// --- Saving ---
+
+export const exportNoteAsPoster = async (note: Note, theme: Theme, fullSize = false): Promise<string> =>
+  saveExportFile(
+    `${slugify(note.title)}-${dateStamp(note.updatedAt)}${fullSize ? '-full' : ''}.png`,
+    await renderPoster(note, theme, fullSize)
+  );
+
+export const exportNoteAsPdf = async (note: Note, theme: Theme): Promise<string> =>
+  saveExportFile(`${slugify(note.title)}-${dateStamp(note.updatedAt)}.pdf`, await renderPdf(note, theme));
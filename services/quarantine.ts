@@ -0,0 +1,30 @@
+import { Capacitor } from '@capacitor/core';
+import { QuarantinedNote } from './schema';
+import { readFileSafe, writeFileAtomic } from './persistence';
+
+// Notes that failed validation on load. They are kept verbatim, outside the
+// vault, until the user inspects and dismisses them.
+
+const QUARANTINE_FILENAME = 'frame_notes_quarantine.json';
+const QUARANTINE_KEY = 'frame_notes_quarantine';
+
+export const loadQuarantine = async (): Promise<QuarantinedNote[]> => {
+  try {
+    if (Capacitor.isNativePlatform()) {
+      return await readFileSafe(QUARANTINE_FILENAME, text => JSON.parse(text) as QuarantinedNote[]) || [];
+    }
+    const saved = localStorage.getItem(QUARANTINE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveQuarantine = async (entries: QuarantinedNote[]): Promise<void> => {
+  const data = JSON.stringify(entries);
+  if (Capacitor.isNativePlatform()) {
+    await writeFileAtomic(QUARANTINE_FILENAME, data);
+  } else {
+    localStorage.setItem(QUARANTINE_KEY, data);
+  }
+};
@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { parseRichText, toPlainText } from './richText';
+
+const spansOf = (content: string) => parseRichText(content)[0].spans;
+
+describe('parseRichText', () => {
+  it('keeps several spans of the same kind on one line apart', () => {
+    expect(spansOf('*a* and *b*')).toEqual([
+      { text: 'a', italic: true },
+      { text: ' and ' },
+      { text: 'b', italic: true },
+    ]);
+    expect(spansOf('**a** and **b**')).toEqual([
+      { text: 'a', bold: true },
+      { text: ' and ' },
+      { text: 'b', bold: true },
+    ]);
+    expect(spansOf('~~a~~ and ~~b~~')).toEqual([
+      { text: 'a', strike: true },
+      { text: ' and ' },
+      { text: 'b', strike: true },
+    ]);
+  });
+
+  it('keeps mixed spans on one line apart', () => {
+    expect(spansOf('***a*** x **b** *c* `d`')).toEqual([
+      { text: 'a', bold: true, italic: true },
+      { text: ' x ' },
+      { text: 'b', bold: true },
+      { text: ' ' },
+      { text: 'c', italic: true },
+      { text: ' ' },
+      { text: 'd', code: true },
+    ]);
+  });
+
+  it('nests italic inside bold', () => {
+    expect(spansOf('**bold *it* bold**')).toEqual([
+      { text: 'bold ', bold: true },
+      { text: 'it', bold: true, italic: true },
+      { text: ' bold', bold: true },
+    ]);
+  });
+
+  it('leaves markers that do not hug text alone', () => {
+    expect(spansOf('5 * 3 * 2')).toEqual([{ text: '5 * 3 * 2' }]);
+  });
+
+  it('allows balanced parentheses in link URLs', () => {
+    expect(spansOf('[x](https://en.wikipedia.org/wiki/Foo_(bar)) and [y](https://example.com)')).toEqual([
+      { text: 'x', href: 'https://en.wikipedia.org/wiki/Foo_(bar)' },
+      { text: ' and ' },
+      { text: 'y', href: 'https://example.com' },
+    ]);
+  });
+
+  it('drops unsafe link targets but keeps their text', () => {
+    expect(spansOf('[x](javascript:alert(1))')).toEqual([{ text: 'x' }]);
+  });
+});
+
+describe('toPlainText', () => {
+  it('strips the markers of every span on a line', () => {
+    expect(toPlainText('# *a* and **b** and ~~c~~\n- [d](https://e.com/f_(g))')).toBe('a and b and c\nd');
+  });
+});
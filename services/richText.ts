@@ -0,0 +1,200 @@
+// Text blocks store a small Markdown subset in Block.content, so the stored string is
+// always the source of truth and formatting round-trips without conversion.
+//
+//   lines:  # / ## / ### headings, "- " bullets, "1. " numbered items, "> " quotes
+//   inline: **bold**, *italic*, ~~strike~~, `code`, [text](https://link)
+//
+// Markers only count when they hug non-space text ("5 * 3 * 2" stays plain) and a
+// backslash escapes any marker character. Anything else is plain text.
+
+export type LineKind = 'paragraph' | 'h1' | 'h2' | 'h3' | 'bullet' | 'ordered' | 'quote';
+
+export interface InlineSpan {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+  code?: boolean;
+  href?: string;
+}
+
+export interface RichLine {
+  kind: LineKind;
+  // Number of an ordered item, as written
+  number?: number;
+  spans: InlineSpan[];
+}
+
+export type InlineFormat = 'bold' | 'italic' | 'strike' | 'code';
+
+// Content plus the selection to restore after a formatting edit
+export interface FormatResult {
+  content: string;
+  start: number;
+  end: number;
+}
+
+const LINE_PREFIX = /^(#{1,3} |[-*] |\d+\. |> )/;
+
+// Emphasis bodies are lazy so two spans on one line stay two spans; link URLs may hold
+// one level of balanced parentheses, as Wikipedia links often do
+const INLINE = /\\([\\`*~[\]()#>.-])|`([^`]+)`|\[([^\]]+)\]\(((?:[^()\s]|\([^()\s]*\))+)\)|\*\*\*(\S|\S.*?\S)\*\*\*|\*\*(\S|\S.*?\S)\*\*|~~(\S|\S.*?\S)~~|\*(\S|\S.*?\S)\*/g;
+
+// Only links that open somewhere harmless become anchors
+export const isSafeHref = (href: string): boolean => /^(https?:\/\/|mailto:)/i.test(href);
+
+const parseInline = (text: string, marks: Omit<InlineSpan, 'text'> = {}): InlineSpan[] => {
+  const spans: InlineSpan[] = [];
+  const push = (value: string) => {
+    if (!value) return;
+    const last = spans[spans.length - 1];
+    if (last && !last.code && !last.href && last.bold === marks.bold && last.italic === marks.italic && last.strike === marks.strike) {
+      last.text += value;
+    } else {
+      spans.push({ text: value, ...marks });
+    }
+  };
+
+  let cursor = 0;
+  for (const match of text.matchAll(INLINE)) {
+    const index = match.index || 0;
+    push(text.slice(cursor, index));
+    cursor = index + match[0].length;
+    const [, escaped, code, linkText, href, boldItalic, bold, strike, italic] = match;
+    if (escaped !== undefined) push(escaped);
+    else if (code !== undefined) spans.push({ text: code, ...marks, code: true });
+    else if (linkText !== undefined) {
+      if (isSafeHref(href)) spans.push(...parseInline(linkText, marks).map(span => ({ ...span, href })));
+      else spans.push(...parseInline(linkText, marks));
+    }
+    else if (boldItalic !== undefined) spans.push(...parseInline(boldItalic, { ...marks, bold: true, italic: true }));
+    else if (bold !== undefined) spans.push(...parseInline(bold, { ...marks, bold: true }));
+    else if (strike !== undefined) spans.push(...parseInline(strike, { ...marks, strike: true }));
+    else if (italic !== undefined) spans.push(...parseInline(italic, { ...marks, italic: true }));
+  }
+  push(text.slice(cursor));
+  return spans;
+};
+
+const splitPrefix = (line: string): { kind: LineKind; number?: number; prefix: string } => {
+  const prefix = line.match(LINE_PREFIX)?.[1] || '';
+  if (!prefix) return { kind: 'paragraph', prefix };
+  if (prefix.startsWith('#')) return { kind: `h${prefix.length - 1}` as LineKind, prefix };
+  if (prefix === '> ') return { kind: 'quote', prefix };
+  if (prefix === '- ' || prefix === '* ') return { kind: 'bullet', prefix };
+  return { kind: 'ordered', number: parseInt(prefix, 10), prefix };
+};
+
+export const parseRichText = (content: string): RichLine[] =>
+  content.replace(/\r\n/g, '\n').split('\n').map(line => {
+    const { kind, number, prefix } = splitPrefix(line);
+    return { kind, number, spans: parseInline(line.slice(prefix.length)) };
+  });
+
+// What search, previews and plain exports see: the words without any markers
+export const toPlainText = (content: string): string =>
+  parseRichText(content).map(line => line.spans.map(span => span.text).join('')).join('\n');
+
+// --- Editing helpers for the selection toolbar ---
+
+const MARKERS: Record<InlineFormat, string> = { bold: '**', italic: '*', strike: '~~', code: '`' };
+
+// Bold and italic share "*", so whether a run of stars around the selection means
+// either is decided by its length: 1 = italic, 2 = bold, 3 = both
+const hasFormat = (format: InlineFormat, before: string, after: string): boolean => {
+  if (format === 'bold' || format === 'italic') {
+    const run = Math.min(before.match(/\**$/)![0].length, after.match(/^\**/)![0].length);
+    return format === 'bold' ? run >= 2 : run % 2 === 1;
+  }
+  const marker = MARKERS[format];
+  return before.endsWith(marker) && after.startsWith(marker);
+};
+
+// Wraps the selection in the format's markers, or removes them when the selection
+// already has that format. Multi-line selections are formatted line by line, since
+// markers never span a line break. An empty selection inserts a pair to type into.
+export const toggleInline = (content: string, start: number, end: number, format: InlineFormat): FormatResult => {
+  const marker = MARKERS[format];
+  const before = content.slice(0, start);
+  const after = content.slice(end);
+
+  if (hasFormat(format, before, after)) {
+    return {
+      content: before.slice(0, -marker.length) + content.slice(start, end) + after.slice(marker.length),
+      start: start - marker.length,
+      end: end - marker.length,
+    };
+  }
+  if (start === end) {
+    return { content: before + marker + marker + after, start: start + marker.length, end: start + marker.length };
+  }
+
+  const wrapped = content.slice(start, end).split('\n').map(line => {
+    const trimmed = line.trim();
+    if (!trimmed) return line;
+    const lead = line.slice(0, line.indexOf(trimmed));
+    return lead + marker + trimmed + marker + line.slice(lead.length + trimmed.length);
+  }).join('\n');
+  const single = !content.slice(start, end).includes('\n');
+  // A single wrapped line keeps its text selected so a second format can stack on it
+  return {
+    content: before + wrapped + after,
+    start: single ? start + wrapped.indexOf(marker) + marker.length : start,
+    end: single ? start + wrapped.lastIndexOf(marker) : start + wrapped.length,
+  };
+};
+
+// Turns the selection into link text and selects the placeholder URL to type over
+export const insertLink = (content: string, start: number, end: number): FormatResult => {
+  const text = content.slice(start, end).replace(/\n/g, ' ') || 'link';
+  const url = 'https://';
+  const link = `[${text}](${url})`;
+  const urlStart = start + text.length + 3;
+  return { content: content.slice(0, start) + link + content.slice(end), start: urlStart, end: urlStart + url.length };
+};
+
+// lastIndexOf treats a negative position as 0, which would find a break at index 0
+const lineStartAt = (content: string, position: number): number =>
+  position === 0 ? 0 : content.lastIndexOf('\n', position - 1) + 1;
+
+const PREFIXES: Record<Exclude<LineKind, 'paragraph' | 'ordered'>, string> = {
+  h1: '# ',
+  h2: '## ',
+  h3: '### ',
+  bullet: '- ',
+  quote: '> ',
+};
+
+// Applies a line kind to every line the selection touches; if they all have it already,
+// they go back to paragraphs. Numbered items are renumbered from 1.
+export const toggleLineKind = (content: string, start: number, end: number, kind: Exclude<LineKind, 'paragraph'>): FormatResult => {
+  const lineStart = lineStartAt(content, start);
+  const nextBreak = content.indexOf('\n', end);
+  const lineEnd = nextBreak === -1 ? content.length : nextBreak;
+  const lines = content.slice(lineStart, lineEnd).split('\n');
+
+  const allMatch = lines.every(line => splitPrefix(line).kind === kind);
+  let number = 0;
+  const next = lines.map(line => {
+    const body = line.slice(splitPrefix(line).prefix.length);
+    if (allMatch) return body;
+    if (kind === 'ordered') return `${++number}. ${body}`;
+    return PREFIXES[kind] + body;
+  });
+
+  const replaced = next.join('\n');
+  // Keep the caret on the same text when the prefix in front of it changes length
+  const shift = next[0].length - lines[0].length;
+  return {
+    content: content.slice(0, lineStart) + replaced + content.slice(lineEnd),
+    start: Math.max(lineStart, start + shift),
+    end: start === end ? Math.max(lineStart, start + shift) : lineStart + replaced.length,
+  };
+};
+
+// The line kind at the caret, to light up the matching toolbar button
+export const lineKindAt = (content: string, position: number): LineKind => {
+  const lineStart = lineStartAt(content, position);
+  const lineEnd = content.indexOf('\n', position);
+  return splitPrefix(content.slice(lineStart, lineEnd === -1 ? content.length : lineEnd)).kind;
+};
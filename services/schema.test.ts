@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest';
+import { DrawingElement } from '../types';
+import { SCHEMA_VERSION, parseNoteFile, upgradeNote } from './schema';
+
+const stroke = (x: number, y: number): DrawingElement => ({ points: [{ x: 0, y: 0 }, { x, y }], color: '#fff', width: 4 });
+
+const imageBlock = (fields: Record<string, unknown>) => ({ id: 'b1', type: 'image', content: 'media://photo', ...fields });
+const noteWith = (block: Record<string, unknown>) => ({ id: 'n1', title: 'Old', createdAt: 1, updatedAt: 1, isPinned: false, blocks: [block] });
+
+const loadBlock = (schemaVersion: number, block: Record<string, unknown>) =>
+  parseNoteFile(JSON.stringify({ schemaVersion, note: noteWith(block) })).notes[0].blocks[0];
+
+describe('v3 to v4 migration', () => {
+  it('records the frame legacy drawings were made in', () => {
+    expect(loadBlock(3, imageBlock({ drawings: [stroke(200, 120)] }))).toMatchObject({ width: 310, height: 310 });
+
+    // Too wide for a phone's square frame, so it was a 16:9 one
+    expect(loadBlock(3, imageBlock({ drawings: [stroke(700, 300)] }))).toMatchObject({ width: 700, height: 700 * 9 / 16 });
+  });
+
+  it('keeps frames and coordinate spaces that were already recorded', () => {
+    expect(loadBlock(3, imageBlock({ drawings: [stroke(50, 50)], width: 360, height: 200 }))).toMatchObject({ width: 360, height: 200 });
+
+    const spaced = loadBlock(3, imageBlock({ drawings: [stroke(50, 50)], drawingSpace: { width: 4000, height: 3000 } }));
+    expect(spaced.width).toBeUndefined();
+    expect(spaced.drawingSpace).toEqual({ width: 4000, height: 3000 });
+  });
+
+  it('runs only once', () => {
+    const block = loadBlock(SCHEMA_VERSION, imageBlock({ drawings: [stroke(200, 120)] }));
+    expect(block.width).toBeUndefined();
+    expect(block.drawings).toHaveLength(1);
+  });
+
+  it('upgrades notes stored outside the note files', () => {
+    const note = upgradeNote(noteWith(imageBlock({ drawings: [stroke(200, 120)] })), 3);
+    expect(typeof note !== 'string' && note.blocks[0]).toMatchObject({ width: 310, height: 310 });
+
+    expect(upgradeNote(noteWith(imageBlock({})), SCHEMA_VERSION + 1)).toMatch(/newer version/);
+  });
+});
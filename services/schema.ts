@@ -0,0 +1,375 @@
+import { Block, BlockType, ChecklistItem, DrawingElement, DrawingLabel, DrawingPath, DrawingShape, Note, NoteSummary, Point, ShapeKind, Size, SketchAspect, SketchBackground, Theme } from '../types';
+import { generateId } from '../utils';
+
+// Versioned on-disk format for the vault.
+//   v1: bare Note[] (everything written before versioning existed)
+//   v2: { schemaVersion, notes } in a single database file
+//   v3: one { schemaVersion, note } file per note plus a { schemaVersion, notes } index of summaries
+//   v4: drawings carry a coordinate space (Block.drawingSpace); older ones record the frame they were drawn in
+
+export const SCHEMA_VERSION = 4;
+
+// Legacy single-file database, still read once to migrate old installs
+export interface VaultFile {
+  schemaVersion: number;
+  notes: Note[];
+}
+
+export interface NoteFile {
+  schemaVersion: number;
+  note: Note;
+}
+
+export interface IndexFile {
+  schemaVersion: number;
+  notes: NoteSummary[];
+}
+
+export interface QuarantinedNote {
+  id: string;
+  reason: string;
+  raw: unknown;
+  schemaVersion: number;
+  quarantinedAt: number;
+}
+
+export interface LoadedVault {
+  notes: Note[];
+  quarantined: QuarantinedNote[];
+}
+
+const BLOCK_TYPES: BlockType[] = ['text', 'image', 'video', 'audio', 'checklist', 'sketch'];
+const SKETCH_ASPECTS: SketchAspect[] = ['1:1', '4:3', '3:4', '16:9'];
+const SKETCH_BACKGROUNDS: SketchBackground[] = ['transparent', 'surface', 'grid', 'dots'];
+const SHAPE_KINDS: ShapeKind[] = ['line', 'arrow', 'rect', 'ellipse'];
+const THEME_IDS: Theme[] = ['dark', 'pink', 'royal'];
+
+// --- Migrations ---
+// MIGRATIONS[n] upgrades a version-n payload to version n + 1.
+// Migrations operate on raw JSON; validation runs afterwards on the result.
+
+// The earliest drawings recorded no frame at all. Media frames are square below the `sm`
+// breakpoint and 16:9 from it on, so the ink's extent tells which one it was drawn in:
+// anything too big for a phone's square frame was made in a wide one.
+const LEGACY_FRAME_WIDTH = 310;
+const SM_BREAKPOINT = 640;
+
+// Raw anchor points of a drawing element; malformed ones are left for validation to report
+const rawPoints = (element: any): any[] => {
+  if (!element || typeof element !== 'object') return [];
+  if (Array.isArray(element.points)) return element.points;
+  return [element.from, element.to, element.at];
+};
+
+const guessLegacyFrame = (drawings: any[]): Size => {
+  let maxX = 0;
+  let maxY = 0;
+  drawings.forEach(element => rawPoints(element).forEach(p => {
+    if (isFiniteNumber(p?.x)) maxX = Math.max(maxX, p.x);
+    if (isFiniteNumber(p?.y)) maxY = Math.max(maxY, p.y);
+  }));
+  const square = Math.max(LEGACY_FRAME_WIDTH, maxX, maxY);
+  if (square < SM_BREAKPOINT) return { width: square, height: square };
+  const width = Math.max(SM_BREAKPOINT, maxX, maxY * 16 / 9);
+  return { width, height: width * 9 / 16 };
+};
+
+const recordLegacyFrames = (note: any): any => {
+  if (!isObject(note) || !Array.isArray(note.blocks)) return note;
+  return {
+    ...note,
+    blocks: note.blocks.map((block: any) => {
+      if (!isObject(block) || !Array.isArray(block.drawings) || block.drawings.length === 0) return block;
+      if (isSize(block.drawingSpace) || (isPositive(block.width) && isPositive(block.height))) return block;
+      return { ...block, ...guessLegacyFrame(block.drawings) };
+    }),
+  };
+};
+
+const MIGRATIONS: Record<number, (data: any) => any> = {
+  1: (data: any[]) => ({ schemaVersion: 2, notes: data }),
+  // Storage layout change only; note contents are unchanged
+  2: (data: any) => ({ ...data, schemaVersion: 3 }),
+  // Drawings keep their CSS pixels; blocks that never recorded the frame they were drawn in
+  // get it now, so the renderers can map them into the media's space
+  3: (data: any) => ({
+    ...data,
+    schemaVersion: 4,
+    notes: Array.isArray(data.notes) ? data.notes.map(recordLegacyFrames) : data.notes,
+  }),
+};
+
+const detectVersion = (data: any): number => {
+  if (Array.isArray(data)) return 1;
+  if (data && typeof data === 'object' && typeof data.schemaVersion === 'number') return data.schemaVersion;
+  throw new Error('Unrecognised vault format');
+};
+
+// Runs the migration chain over a { schemaVersion, notes } envelope
+const migrate = (data: any, storedVersion: number): any => {
+  for (let version = storedVersion; version < SCHEMA_VERSION; version++) {
+    const step = MIGRATIONS[version];
+    if (!step) throw new Error(`No migration from schema v${version}`);
+    data = step(data);
+  }
+  return data;
+};
+
+// --- Validation ---
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const isFiniteNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+const isPositive = (value: unknown): value is number => isFiniteNumber(value) && value > 0;
+
+const isSize = (value: unknown): value is Size => isObject(value) && isPositive(value.width) && isPositive(value.height);
+
+const validatePoint = (raw: unknown): Point | null => {
+  if (!isObject(raw) || !isFiniteNumber(raw.x) || !isFiniteNumber(raw.y)) return null;
+  const point: Point = { ...raw, x: raw.x, y: raw.y };
+  // Stylus extras are optional, so bad values are dropped rather than rejected
+  if (raw.pressure !== undefined && !(isFiniteNumber(raw.pressure) && raw.pressure >= 0 && raw.pressure <= 1)) delete point.pressure;
+  if (raw.tiltX !== undefined && !isFiniteNumber(raw.tiltX)) delete point.tiltX;
+  if (raw.tiltY !== undefined && !isFiniteNumber(raw.tiltY)) delete point.tiltY;
+  return point;
+};
+
+const dropBadOpacity = (element: DrawingPath | DrawingShape) => {
+  if (element.opacity !== undefined && !(isFiniteNumber(element.opacity) && element.opacity > 0 && element.opacity <= 1)) delete element.opacity;
+};
+
+const dropBadRotation = (element: DrawingShape | DrawingLabel) => {
+  if (element.rotation !== undefined && !isFiniteNumber(element.rotation)) delete element.rotation;
+};
+
+const validateShape = (raw: Record<string, any>): DrawingShape | string => {
+  const from = validatePoint(raw.from);
+  const to = validatePoint(raw.to);
+  if (!from || !to) return 'shape has malformed endpoints';
+  if (typeof raw.color !== 'string') return 'shape has no color';
+  const shape: DrawingShape = { ...raw, kind: raw.kind, from, to, color: raw.color, width: isFiniteNumber(raw.width) ? raw.width : 3 };
+  dropBadOpacity(shape);
+  dropBadRotation(shape);
+  return shape;
+};
+
+const validateLabel = (raw: Record<string, any>): DrawingLabel | string => {
+  const at = validatePoint(raw.at);
+  if (!at) return 'label has no position';
+  if (typeof raw.text !== 'string') return 'label has no text';
+  if (typeof raw.color !== 'string') return 'label has no color';
+  const label: DrawingLabel = { ...raw, kind: 'text', at, text: raw.text, color: raw.color, fontSize: isFiniteNumber(raw.fontSize) && raw.fontSize > 0 ? raw.fontSize : 20 };
+  dropBadRotation(label);
+  return label;
+};
+
+const validateDrawing = (raw: unknown): DrawingElement | string => {
+  if (!isObject(raw)) return 'drawing is not an object';
+  if (SHAPE_KINDS.includes(raw.kind)) return validateShape(raw);
+  if (raw.kind === 'text') return validateLabel(raw);
+  if (raw.kind !== undefined) return `unknown drawing kind "${raw.kind}"`;
+  if (!Array.isArray(raw.points)) return 'drawing has no points';
+  const points = raw.points.map(validatePoint);
+  if (points.some(p => !p)) return 'drawing has malformed points';
+  if (typeof raw.color !== 'string') return 'drawing has no color';
+  const path: DrawingPath = { ...raw, points: points as Point[], color: raw.color, width: isFiniteNumber(raw.width) ? raw.width : 3 };
+  dropBadOpacity(path);
+  return path;
+};
+
+const validateChecklistItem = (raw: unknown): ChecklistItem | null =>
+  isObject(raw) && typeof raw.text === 'string'
+    ? {
+        ...raw,
+        id: typeof raw.id === 'string' && raw.id ? raw.id : generateId(),
+        text: raw.text,
+        checked: raw.checked === true,
+        indent: raw.indent === 1 ? 1 : 0,
+      }
+    : null;
+
+const validateBlock = (raw: unknown): Block | string => {
+  if (!isObject(raw)) return 'block is not an object';
+  if (!BLOCK_TYPES.includes(raw.type)) return `unknown block type "${raw.type}"`;
+  if (typeof raw.content !== 'string') {
+    if (raw.content !== undefined && raw.content !== null) return 'block content is not a string';
+  }
+
+  const block: Block = {
+    ...raw,
+    id: typeof raw.id === 'string' && raw.id ? raw.id : generateId(),
+    type: raw.type,
+    content: typeof raw.content === 'string' ? raw.content : '',
+  };
+
+  if (raw.drawings !== undefined) {
+    if (!Array.isArray(raw.drawings)) return 'block drawings is not a list';
+    const drawings: DrawingElement[] = [];
+    for (const element of raw.drawings) {
+      const result = validateDrawing(element);
+      if (typeof result === 'string') return result;
+      drawings.push(result);
+    }
+    block.drawings = drawings;
+  }
+
+  if (raw.type === 'checklist') {
+    if (raw.items !== undefined && !Array.isArray(raw.items)) return 'checklist items is not a list';
+    const items = (raw.items || []).map(validateChecklistItem);
+    if (items.some((item: ChecklistItem | null) => !item)) return 'checklist has malformed items';
+    block.items = items;
+    block.collapseChecked = raw.collapseChecked === true;
+  }
+
+  // Both are derived from the clip, so bad values are dropped rather than rejected
+  if (raw.duration !== undefined && !(isFiniteNumber(raw.duration) && raw.duration >= 0)) delete block.duration;
+  if (raw.waveform !== undefined && !(Array.isArray(raw.waveform) && raw.waveform.every(isFiniteNumber))) delete block.waveform;
+  if (raw.aspect !== undefined && !SKETCH_ASPECTS.includes(raw.aspect)) delete block.aspect;
+  if (raw.background !== undefined && !SKETCH_BACKGROUNDS.includes(raw.background)) delete block.background;
+
+  if (raw.drawingSpace !== undefined && !isSize(raw.drawingSpace)) delete block.drawingSpace;
+
+  return block;
+};
+
+// Repairs what can be repaired without guessing at user content; anything else
+// is reported so the caller can quarantine the note instead of dropping it.
+export const validateNote = (raw: unknown): Note | string => {
+  if (!isObject(raw)) return 'note is not an object';
+  if (typeof raw.id !== 'string' || !raw.id) return 'note has no id';
+  if (raw.blocks !== undefined && !Array.isArray(raw.blocks)) return 'note blocks is not a list';
+
+  const blocks: Block[] = [];
+  for (const rawBlock of raw.blocks || []) {
+    const result = validateBlock(rawBlock);
+    if (typeof result === 'string') return result;
+    blocks.push(result);
+  }
+
+  const createdAt = isFiniteNumber(raw.createdAt) ? raw.createdAt : isFiniteNumber(raw.updatedAt) ? raw.updatedAt : Date.now();
+  const note: Note = {
+    ...raw,
+    id: raw.id,
+    title: typeof raw.title === 'string' ? raw.title : '',
+    createdAt,
+    updatedAt: isFiniteNumber(raw.updatedAt) ? raw.updatedAt : createdAt,
+    blocks,
+    isPinned: raw.isPinned === true,
+  };
+
+  if (raw.isHidden !== undefined) note.isHidden = raw.isHidden === true;
+  if (!THEME_IDS.includes(raw.theme)) delete note.theme;
+  if (raw.deletedAt !== undefined && !isFiniteNumber(raw.deletedAt)) delete note.deletedAt;
+  if (raw.tags !== undefined) {
+    if (Array.isArray(raw.tags)) note.tags = Array.from(new Set(raw.tags.filter((tag: unknown) => typeof tag === 'string' && tag)));
+    else delete note.tags;
+  }
+
+  return note;
+};
+
+// --- Load / Save ---
+
+// Runs the migration chain over a { schemaVersion, notes } envelope and validates the result
+const loadVersioned = (data: any): LoadedVault => {
+  const storedVersion = detectVersion(data);
+  const now = Date.now();
+
+  if (storedVersion > SCHEMA_VERSION) {
+    // Written by a newer app: we cannot safely interpret it, but we must not lose it either
+    const rawNotes: unknown[] = Array.isArray(data.notes) ? data.notes : [data];
+    return {
+      notes: [],
+      quarantined: rawNotes.map(raw => ({
+        id: isObject(raw) && typeof raw.id === 'string' ? raw.id : generateId(),
+        reason: `Saved by a newer version of the app (schema v${storedVersion})`,
+        raw,
+        schemaVersion: storedVersion,
+        quarantinedAt: now,
+      })),
+    };
+  }
+
+  data = migrate(data, storedVersion);
+
+  const rawNotes: unknown[] = Array.isArray(data.notes) ? data.notes : [];
+  const notes: Note[] = [];
+  const quarantined: QuarantinedNote[] = [];
+  const seenIds = new Set<string>();
+
+  rawNotes.forEach(raw => {
+    const result = validateNote(raw);
+    if (typeof result !== 'string' && seenIds.has(result.id)) {
+      quarantined.push({ id: result.id, reason: 'duplicate note id', raw, schemaVersion: storedVersion, quarantinedAt: now });
+      return;
+    }
+    if (typeof result === 'string') {
+      quarantined.push({
+        id: isObject(raw) && typeof raw.id === 'string' ? raw.id : generateId(),
+        reason: result,
+        raw,
+        schemaVersion: storedVersion,
+        quarantinedAt: now,
+      });
+      return;
+    }
+    seenIds.add(result.id);
+    notes.push(result);
+  });
+
+  return { notes, quarantined };
+};
+
+// Legacy single-file database (v1/v2)
+export const parseVault = (text: string): LoadedVault => loadVersioned(JSON.parse(text));
+
+export const parseNoteFile = (text: string): LoadedVault => {
+  const data = JSON.parse(text);
+  if (!isObject(data) || !('note' in data)) throw new Error('Unrecognised note file');
+  // Reuse the vault migration chain by wrapping the single note in a vault envelope
+  return loadVersioned({ schemaVersion: data.schemaVersion, notes: [data.note] });
+};
+
+// Notes kept outside the note files (sealed payloads, history versions) record the schema
+// they were written with and come through the same migrations
+export const upgradeNote = (raw: unknown, storedVersion: number): Note | string => {
+  if (storedVersion > SCHEMA_VERSION) return `saved by a newer version of the app (schema v${storedVersion})`;
+  const data = migrate({ schemaVersion: storedVersion, notes: [raw] }, storedVersion);
+  return validateNote(data.notes[0]);
+};
+
+export const serializeNote = (note: Note): string => {
+  const file: NoteFile = { schemaVersion: SCHEMA_VERSION, note };
+  return JSON.stringify(file);
+};
+
+const validateSummary = (raw: unknown): NoteSummary | null => {
+  if (!isObject(raw) || typeof raw.id !== 'string' || typeof raw.title !== 'string') return null;
+  if (!isFiniteNumber(raw.createdAt) || !isFiniteNumber(raw.updatedAt)) return null;
+  if (typeof raw.previewText !== 'string' || !Array.isArray(raw.media)) return null;
+  if (!Array.isArray(raw.blockTypes) || typeof raw.hasDrawings !== 'boolean' || !Array.isArray(raw.tags)) return null;
+  if (raw.checklist !== null && !(isObject(raw.checklist) && isFiniteNumber(raw.checklist.done) && isFiniteNumber(raw.checklist.total))) return null;
+  return raw as NoteSummary;
+};
+
+// The index is derived data: anything off means the caller should rebuild it from the note files.
+// A well-formed index from another schema version is merely stale and comes back as null;
+// only data that fails to parse throws, so readers can tell it apart from corruption.
+export const parseIndex = (text: string): NoteSummary[] | null => {
+  const data = JSON.parse(text);
+  if (!isObject(data) || !isFiniteNumber(data.schemaVersion) || !Array.isArray(data.notes)) {
+    throw new Error('Unrecognised index format');
+  }
+  if (data.schemaVersion !== SCHEMA_VERSION) return null;
+  const summaries = data.notes.map(validateSummary);
+  if (summaries.some(s => !s)) throw new Error('Index has malformed entries');
+  return summaries as NoteSummary[];
+};
+
+export const serializeIndex = (notes: NoteSummary[]): string => {
+  const file: IndexFile = { schemaVersion: SCHEMA_VERSION, notes };
+  return JSON.stringify(file);
+};
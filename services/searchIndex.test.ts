@@ -0,0 +1,127 @@
+import { describe, expect, it } from 'vitest';
+import { NoteSummary } from '../types';
+import { HighlightPart, SearchIndex, createSearchIndex } from './searchIndex';
+
+const summary = (id: string, title: string, updatedAt = 1) => ({ id, title, updatedAt }) as NoteSummary;
+
+// Indexes each [id, title, text] as current
+const indexOf = (docs: [string, string, string][]): SearchIndex => {
+  const index = createSearchIndex();
+  index.sync(docs.map(([id, title]) => summary(id, title)));
+  docs.forEach(([id, title, text]) => index.put({ id, title, text, updatedAt: 1 }));
+  return index;
+};
+
+const ids = (index: SearchIndex, query: string) => index.search(query).map(hit => hit.id);
+const marked = (parts: HighlightPart[] | null) => (parts || []).filter(p => p.match).map(p => p.text);
+const joined = (parts: HighlightPart[] | null) => (parts || []).map(p => p.text).join('');
+
+describe('search ranking', () => {
+  it('ranks title hits above body hits', () => {
+    const index = indexOf([
+      ['body', 'Groceries', 'remember the harbor walk'],
+      ['title', 'Harbor', 'fish market'],
+    ]);
+    expect(ids(index, 'harbor')).toEqual(['title', 'body']);
+  });
+
+  it('ranks repeated terms higher, with diminishing returns', () => {
+    const index = indexOf([
+      ['once', 'A', 'kayak day'],
+      ['thrice', 'B', 'kayak kayak kayak'],
+      ['other', 'C', 'nothing here'],
+    ]);
+    const [first, second] = index.search('kayak');
+    expect([first.id, second.id]).toEqual(['thrice', 'once']);
+    expect(first.score / second.score).toBeLessThan(3);
+  });
+
+  it('weighs rare terms above common ones', () => {
+    const index = indexOf([
+      ['common', 'Trip', 'beach beach'],
+      ['rare', 'Trip', 'lighthouse lighthouse'],
+      ['filler1', 'Trip', 'beach'],
+      ['filler2', 'Trip', 'beach'],
+    ]);
+    // Same term frequency in both top notes; only how many notes share the term differs
+    expect(index.search('lighthouse')[0].score).toBeGreaterThan(index.search('beach')[0].score);
+  });
+
+  it('prefers exact words to prefixes, and prefixes to typos', () => {
+    const index = indexOf([
+      ['typo', 'A', 'grade'],
+      ['prefix', 'B', 'gardening'],
+      ['exact', 'C', 'garde'],
+    ]);
+    expect(ids(index, 'garde')).toEqual(['exact', 'prefix', 'typo']);
+  });
+
+  it('requires every query term to match', () => {
+    const index = indexOf([
+      ['both', 'Paris', 'museum day'],
+      ['one', 'Paris', 'rainy day'],
+    ]);
+    expect(ids(index, 'paris museum')).toEqual(['both']);
+    expect(ids(index, 'paris zebra')).toEqual([]);
+  });
+
+  it('folds case and accents', () => {
+    const index = indexOf([['n1', 'Café Crème', '']]);
+    expect(ids(index, 'cafe CREME')).toEqual(['n1']);
+    expect(marked(index.search('cafe')[0].title)).toEqual(['Café']);
+  });
+});
+
+describe('search snippets', () => {
+  it('starts a little before the first hit on a word boundary and highlights the match', () => {
+    const text = 'We walked along the old pier for hours before the rain came and the lighthouse lit up over the bay';
+    const [hit] = indexOf([['n1', 'Evening', text]]).search('lighthouse');
+
+    expect(hit.snippet![0]).toEqual({ text: '…', match: false });
+    expect(marked(hit.snippet)).toEqual(['lighthouse']);
+    expect(joined(hit.snippet)).toBe('…the rain came and the lighthouse lit up over the bay');
+  });
+
+  it('collapses line breaks and marks cut-off text', () => {
+    const text = `first\n\nsecond line ${'word '.repeat(30)}`;
+    const [hit] = indexOf([['n1', 'Notes', text]]).search('second');
+
+    expect(joined(hit.snippet).startsWith('first second line word')).toBe(true);
+    expect(hit.snippet![hit.snippet!.length - 1]).toEqual({ text: '…', match: false });
+  });
+
+  it('has no snippet when only the title matched', () => {
+    const [hit] = indexOf([['n1', 'Harbor', 'fish market']]).search('harbor');
+    expect(hit.snippet).toBeNull();
+  });
+});
+
+describe('keeping the index in step', () => {
+  it('reports notes whose text is missing or older than their summary', () => {
+    const index = createSearchIndex();
+    expect(index.sync([summary('a', 'A'), summary('b', 'B')])).toEqual(['a', 'b']);
+
+    index.put({ id: 'a', title: 'A', text: 'alpha', updatedAt: 1 });
+    expect(index.sync([summary('a', 'A'), summary('b', 'B')])).toEqual(['b']);
+    expect(index.sync([summary('a', 'A', 2), summary('b', 'B')])).toEqual(['a', 'b']);
+  });
+
+  it('drops notes that are gone and text under a changed title', () => {
+    const index = indexOf([['a', 'A', 'alpha'], ['b', 'B', 'beta']]);
+
+    index.sync([summary('a', 'Renamed')]);
+    expect(ids(index, 'beta')).toEqual([]);
+    expect(ids(index, 'alpha')).toEqual([]);
+    expect(ids(index, 'renamed')).toEqual(['a']);
+  });
+
+  it('ignores text older than what it already has', () => {
+    const index = createSearchIndex();
+    index.sync([summary('a', 'A', 2)]);
+    index.put({ id: 'a', title: 'A', text: 'newer', updatedAt: 2 });
+    index.put({ id: 'a', title: 'A', text: 'older', updatedAt: 1 });
+
+    expect(ids(index, 'newer')).toEqual(['a']);
+    expect(ids(index, 'older')).toEqual([]);
+  });
+});
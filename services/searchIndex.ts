@@ -0,0 +1,260 @@
+import { Note, NoteSummary } from '../types';
+import { getSearchText } from '../utils';
+
+// In-memory inverted index over note titles and text, kept in step with the summary list.
+// Titles come from the summaries; body text isn't part of the persisted index, so the caller
+// puts it in as notes are saved, or read back from searchTextStore or the note files.
+//   Terms:   lower-cased, accent-folded runs of letters/digits ("Café" -> "cafe")
+//   Matches: exact term, then prefix, then a small edit distance for typos
+//   Score:   BM25-style per field, title hits weighted above body hits
+
+const TITLE_WEIGHT = 3;
+const BODY_WEIGHT = 1;
+const PREFIX_FACTOR = 0.7;
+const FUZZY_FACTOR = 0.4;
+const SATURATION = 1.2;
+
+const SNIPPET_LEAD = 24;   // characters shown before the first hit
+const SNIPPET_LENGTH = 90;
+
+export interface HighlightPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  title: HighlightPart[];
+  snippet: HighlightPart[] | null; // null when only the title matched
+}
+
+// A note's searchable words as of `updatedAt`
+export interface IndexedText {
+  id: string;
+  title: string;
+  text: string;
+  updatedAt: number;
+}
+
+export interface SearchIndex {
+  // Reindexes titles that changed and drops notes that are gone. Returns the ids whose body
+  // text is missing or older than their summary, for the caller to load and put.
+  sync(notes: NoteSummary[]): string[];
+  put(entry: IndexedText): void;
+  remove(id: string): void;
+  // Best match first; every query term has to match somewhere in the note
+  search(query: string): SearchHit[];
+}
+
+interface IndexedDoc {
+  title: string;
+  text: string;
+  textAt: number | null; // updatedAt of the note the text came from
+  terms: Set<string>;
+}
+
+interface Posting {
+  title: number; // term frequency per field
+  body: number;
+}
+
+const WORD = /[\p{L}\p{N}]+/gu;
+
+export const textOf = (note: Note): IndexedText =>
+  ({ id: note.id, title: note.title, text: getSearchText(note.blocks), updatedAt: note.updatedAt });
+
+export const foldText = (text: string): string =>
+  text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+export const tokenize = (text: string): string[] => foldText(text).match(WORD) || [];
+
+// Typos allowed for a query term of this length
+const maxEdits = (length: number) => length >= 8 ? 2 : length >= 4 ? 1 : 0;
+
+// Edit distance counting swapped neighbours as one typo, with an early exit once it exceeds `limit`
+const editDistance = (a: string, b: string, limit: number): number => {
+  if (Math.abs(a.length - b.length) > limit) return limit + 1;
+  let beforePrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        current[j] = Math.min(current[j], beforePrevious[j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, current[j]);
+    }
+    if (rowMin > limit) return limit + 1;
+    beforePrevious = previous;
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// Splits text into plain and highlighted runs; a word is highlighted when its folded form was matched
+export const highlight = (text: string, matched: Set<string>): HighlightPart[] => {
+  const parts: HighlightPart[] = [];
+  let last = 0;
+  for (const word of text.matchAll(WORD)) {
+    if (!matched.has(foldText(word[0]))) continue;
+    const start = word.index!;
+    if (start > last) parts.push({ text: text.slice(last, start), match: false });
+    parts.push({ text: word[0], match: true });
+    last = start + word[0].length;
+  }
+  if (last < text.length) parts.push({ text: text.slice(last), match: false });
+  return parts;
+};
+
+const buildSnippet = (text: string, matched: Set<string>): HighlightPart[] | null => {
+  let first = -1;
+  for (const word of text.matchAll(WORD)) {
+    if (matched.has(foldText(word[0]))) {
+      first = word.index!;
+      break;
+    }
+  }
+  if (first < 0) return null;
+
+  // Start on a word boundary a little before the hit, and collapse line breaks
+  let start = Math.max(0, first - SNIPPET_LEAD);
+  if (start > 0) {
+    const boundary = text.slice(start, first).search(/\s/);
+    if (boundary >= 0) start += boundary + 1;
+  }
+  const end = Math.min(text.length, start + SNIPPET_LENGTH);
+  const excerpt = text.slice(start, end).replace(/\s+/g, ' ').trim();
+  const parts = highlight(excerpt, matched);
+  if (start > 0) parts.unshift({ text: '…', match: false });
+  if (end < text.length) parts.push({ text: '…', match: false });
+  return parts;
+};
+
+export const createSearchIndex = (): SearchIndex => {
+  const docs = new Map<string, IndexedDoc>();
+  const postings = new Map<string, Map<string, Posting>>();
+
+  const unindex = (id: string) => {
+    const doc = docs.get(id);
+    if (!doc) return;
+    doc.terms.forEach(term => {
+      const list = postings.get(term);
+      list?.delete(id);
+      if (list && list.size === 0) postings.delete(term);
+    });
+    docs.delete(id);
+  };
+
+  const index = (id: string, title: string, text: string, textAt: number | null) => {
+    unindex(id);
+    const terms = new Set<string>();
+    const count = (tokens: string[], field: keyof Posting) => {
+      tokens.forEach(term => {
+        let list = postings.get(term);
+        if (!list) {
+          list = new Map();
+          postings.set(term, list);
+        }
+        const posting = list.get(id) || { title: 0, body: 0 };
+        posting[field]++;
+        list.set(id, posting);
+        terms.add(term);
+      });
+    };
+    count(tokenize(title), 'title');
+    count(tokenize(text), 'body');
+    docs.set(id, { title, text, textAt, terms });
+  };
+
+  // Vocabulary terms a query term stands for, with how much each match counts
+  const expand = (queryTerm: string): Map<string, number> => {
+    const expansions = new Map<string, number>();
+    const limit = maxEdits(queryTerm.length);
+    postings.forEach((_, term) => {
+      if (term === queryTerm) {
+        expansions.set(term, 1);
+      } else if (term.startsWith(queryTerm)) {
+        // Shorter completions are closer to what was typed
+        expansions.set(term, PREFIX_FACTOR * (0.5 + 0.5 * queryTerm.length / term.length));
+      } else if (limit > 0 && editDistance(queryTerm, term, limit) <= limit) {
+        expansions.set(term, FUZZY_FACTOR);
+      }
+    });
+    return expansions;
+  };
+
+  const searchIndex: SearchIndex = {
+    sync: notes => {
+      const seen = new Set<string>();
+      const stale: string[] = [];
+      notes.forEach(note => {
+        seen.add(note.id);
+        // A new title means text from before can't be trusted: locking the vault swaps
+        // hidden notes for untitled stubs, and their text must go with it
+        if (docs.get(note.id)?.title !== note.title) index(note.id, note.title, '', null);
+        if (docs.get(note.id)!.textAt !== note.updatedAt) stale.push(note.id);
+      });
+      Array.from(docs.keys()).forEach(id => { if (!seen.has(id)) unindex(id); });
+      return stale;
+    },
+
+    put: ({ id, title, text, updatedAt }) => {
+      const current = docs.get(id);
+      // A file read in the background can finish after a newer save was indexed
+      if (current && current.textAt !== null && current.textAt > updatedAt) return;
+      if (current && current.title === title && current.text === text) {
+        current.textAt = updatedAt;
+        return;
+      }
+      index(id, title, text, updatedAt);
+    },
+
+    remove: unindex,
+
+    search: query => {
+      const queryTerms = Array.from(new Set(tokenize(query)));
+      if (queryTerms.length === 0) return [];
+
+      const total = docs.size;
+      const scores = new Map<string, number>();
+      const matchedTerms = new Map<string, Set<string>>();
+
+      for (let i = 0; i < queryTerms.length; i++) {
+        const termScores = new Map<string, number>();
+        expand(queryTerms[i]).forEach((factor, term) => {
+          const list = postings.get(term)!;
+          const idf = Math.log(1 + (total - list.size + 0.5) / (list.size + 0.5));
+          list.forEach((posting, id) => {
+            if (i > 0 && !scores.has(id)) return;
+            const weighted = TITLE_WEIGHT * posting.title / (posting.title + SATURATION)
+              + BODY_WEIGHT * posting.body / (posting.body + SATURATION);
+            termScores.set(id, Math.max(termScores.get(id) || 0, factor * idf * weighted));
+            if (!matchedTerms.has(id)) matchedTerms.set(id, new Set());
+            matchedTerms.get(id)!.add(term);
+          });
+        });
+        // All terms must match: keep only notes that matched this one too
+        Array.from(i === 0 ? termScores.keys() : scores.keys()).forEach(id => {
+          const score = termScores.get(id);
+          if (score === undefined) scores.delete(id);
+          else scores.set(id, (scores.get(id) || 0) + score);
+        });
+        if (scores.size === 0) return [];
+      }
+
+      return Array.from(scores.entries())
+        .map(([id, score]) => {
+          const doc = docs.get(id)!;
+          const matched = matchedTerms.get(id)!;
+          return { id, score, title: highlight(doc.title, matched), snippet: buildSnippet(doc.text, matched) };
+        })
+        .sort((a, b) => b.score - a.score);
+    },
+  };
+
+  return searchIndex;
+};
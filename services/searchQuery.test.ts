@@ -0,0 +1,116 @@
+import { describe, expect, it } from 'vitest';
+import { NoteSummary } from '../types';
+import { createSearchIndex } from './searchIndex';
+import { applyCompletion, createQueryMatcher, parseQuery, queryScopesHidden, suggestCompletions } from './searchQuery';
+
+const note = (id: string, fields: Partial<NoteSummary> = {}) => ({
+  id,
+  title: id,
+  createdAt: new Date(2024, 5, 15).getTime(),
+  updatedAt: 1,
+  isPinned: false,
+  blockTypes: [],
+  hasDrawings: false,
+  ...fields,
+}) as NoteSummary;
+
+describe('parseQuery', () => {
+  it('reads operators, quoted values and free text', () => {
+    const { terms, errors } = parseQuery('is:pinned has:IMAGE theme:pink title:"road trip" sunset ');
+    expect(errors).toEqual([]);
+    expect(terms).toEqual([
+      { kind: 'is', value: 'pinned', negated: false },
+      { kind: 'has', value: 'image', negated: false },
+      { kind: 'theme', value: 'pink', negated: false },
+      { kind: 'title', value: 'road trip', negated: false },
+      { kind: 'text', value: 'sunset', negated: false },
+    ]);
+  });
+
+  it('negates any term with a leading dash', () => {
+    expect(parseQuery('-is:hidden -beach -title:"old draft" ').terms).toEqual([
+      { kind: 'is', value: 'hidden', negated: true },
+      { kind: 'text', value: 'beach', negated: true },
+      { kind: 'title', value: 'old draft', negated: true },
+    ]);
+  });
+
+  it('turns dates into the start or end of the period they name', () => {
+    const { terms } = parseQuery('before:2024-03 after:2023 ');
+    expect(terms).toEqual([
+      { kind: 'before', value: new Date(2024, 2, 1).getTime(), negated: false },
+      { kind: 'after', value: new Date(2024, 0, 1).getTime(), negated: false },
+    ]);
+  });
+
+  it('reports mistakes once the token is finished', () => {
+    expect(parseQuery('colour:red ').errors).toEqual(['Unknown operator "colour:"']);
+    expect(parseQuery('has:sound ').errors[0]).toMatch(/^"has:sound" isn't valid/);
+    expect(parseQuery('before:2024-02-30 ').errors).toEqual(['"before:2024-02-30" isn\'t a date · use YYYY-MM-DD']);
+    expect(parseQuery('title: ').errors).toEqual(['"title:" needs a value']);
+    expect(parseQuery('title:"open x').errors).toEqual([]);
+    expect(parseQuery('title:"open x ').errors).toEqual(['Missing closing quote']);
+  });
+
+  it('stays quiet about the token still being typed', () => {
+    expect(parseQuery('is:pin').errors).toEqual([]);
+    expect(parseQuery('is:pin').terms).toEqual([]);
+    expect(parseQuery('befo').errors).toEqual([]);
+    expect(parseQuery('before:2024-0').errors).toEqual([]);
+  });
+
+  it('knows when a query decides on hidden notes itself', () => {
+    expect(queryScopesHidden(parseQuery('is:hidden'))).toBe(true);
+    expect(queryScopesHidden(parseQuery('-is:hidden'))).toBe(true);
+    expect(queryScopesHidden(parseQuery('is:pinned hidden'))).toBe(false);
+  });
+});
+
+describe('createQueryMatcher', () => {
+  const notes = [
+    note('beach', { title: 'Beach day', isPinned: true, blockTypes: ['image'] }),
+    note('city', { title: 'City walk', blockTypes: ['image', 'video'], hasDrawings: true }),
+    note('old', { title: 'Beach in winter', createdAt: new Date(2023, 0, 10).getTime(), theme: 'royal' }),
+  ];
+  const index = createSearchIndex();
+  index.sync(notes);
+  notes.forEach(n => index.put({ id: n.id, title: n.title, text: n.id === 'city' ? 'sand and sea' : '', updatedAt: 1 }));
+
+  const matching = (query: string) => notes.filter(createQueryMatcher(parseQuery(query), index).matches).map(n => n.id);
+
+  it('filters on summary fields', () => {
+    expect(matching('is:pinned')).toEqual(['beach']);
+    expect(matching('has:image -has:video')).toEqual(['beach']);
+    expect(matching('has:drawing')).toEqual(['city']);
+    expect(matching('theme:royal')).toEqual(['old']);
+    expect(matching('before:2024')).toEqual(['old']);
+    expect(matching('after:2023')).toEqual(['beach', 'city']);
+    expect(matching('title:beach -title:winter')).toEqual(['beach']);
+  });
+
+  it('keeps free text ranked and combines it with the filters', () => {
+    const matcher = createQueryMatcher(parseQuery('beach -is:pinned'), index);
+    expect(Array.from(matcher.hits!.keys())).toEqual(['beach', 'old']);
+    expect(notes.filter(matcher.matches).map(n => n.id)).toEqual(['old']);
+  });
+
+  it('excludes whatever negated free text would have found', () => {
+    expect(matching('-sea')).toEqual(['beach', 'old']);
+    expect(matching('-beach')).toEqual(['city']);
+    expect(createQueryMatcher(parseQuery('-beach'), index).hits).toBeNull();
+  });
+});
+
+describe('completions', () => {
+  it('suggests operators and their values for the last token', () => {
+    expect(suggestCompletions('th')).toEqual(['theme:']);
+    expect(suggestCompletions('sunset -ha')).toEqual(['-has:']);
+    expect(suggestCompletions('has:v')).toEqual(['has:video']);
+    expect(suggestCompletions('title:')).toEqual(['title:"']);
+  });
+
+  it('replaces only the token being typed', () => {
+    expect(applyCompletion('sunset -ha', '-has:')).toBe('sunset -has:');
+    expect(applyCompletion('sunset has:v', 'has:video')).toBe('sunset has:video ');
+  });
+});
@@ -0,0 +1,227 @@
+import { NoteSummary, Theme } from '../types';
+import { THEMES } from '../constants';
+import { SearchHit, SearchIndex, foldText } from './searchIndex';
+
+// Query language for the Home search bar. Free text goes through the ranked index,
+// operators filter on summary fields:
+//   is:pinned  is:hidden  has:image|video|drawing|audio|checklist  theme:<id>
+//   before:YYYY[-MM[-DD]]  after:...  (creation date)  title:word  title:"a phrase"
+// Any term can be negated with a leading "-".
+
+export type QueryTerm =
+  | { kind: 'text'; value: string; negated: boolean }
+  | { kind: 'is'; value: 'pinned' | 'hidden'; negated: boolean }
+  | { kind: 'has'; value: 'image' | 'video' | 'drawing' | 'audio' | 'checklist'; negated: boolean }
+  | { kind: 'theme'; value: Theme; negated: boolean }
+  | { kind: 'before' | 'after'; value: number; negated: boolean } // epoch ms boundary
+  | { kind: 'title'; value: string; negated: boolean };
+
+export interface ParsedQuery {
+  terms: QueryTerm[];
+  errors: string[];
+}
+
+export interface QueryMatcher {
+  // Ranked hits for the free text; null when the query has none
+  hits: Map<string, SearchHit> | null;
+  matches(note: NoteSummary): boolean;
+}
+
+const IS_VALUES = ['pinned', 'hidden'] as const;
+const HAS_VALUES = ['image', 'video', 'drawing', 'audio', 'checklist'] as const;
+const THEME_VALUES = Object.keys(THEMES) as Theme[];
+
+export const OPERATORS = ['is', 'has', 'theme', 'before', 'after', 'title'] as const;
+type Operator = typeof OPERATORS[number];
+
+const VALUES: Partial<Record<Operator, readonly string[]>> = {
+  is: IS_VALUES,
+  has: HAS_VALUES,
+  theme: THEME_VALUES,
+};
+
+interface RawToken {
+  negated: boolean;
+  operator: string | null;
+  value: string;
+  quoted: boolean;
+  unterminated: boolean;
+}
+
+// Whitespace-separated tokens; double quotes keep spaces inside a value
+const lex = (input: string): RawToken[] => {
+  const tokens: RawToken[] = [];
+  let i = 0;
+  while (i < input.length) {
+    if (/\s/.test(input[i])) { i++; continue; }
+
+    let negated = false;
+    if (input[i] === '-' && i + 1 < input.length && !/\s/.test(input[i + 1])) {
+      negated = true;
+      i++;
+    }
+    const operatorMatch = /^([a-zA-Z]+):/.exec(input.slice(i));
+    const operator = operatorMatch ? operatorMatch[1].toLowerCase() : null;
+    if (operatorMatch) i += operatorMatch[0].length;
+
+    if (input[i] === '"') {
+      const close = input.indexOf('"', i + 1);
+      const end = close < 0 ? input.length : close;
+      tokens.push({ negated, operator, value: input.slice(i + 1, end), quoted: true, unterminated: close < 0 });
+      i = end + 1;
+    } else {
+      const start = i;
+      while (i < input.length && !/\s/.test(input[i])) i++;
+      tokens.push({ negated, operator, value: input.slice(start, i), quoted: false, unterminated: false });
+    }
+  }
+  return tokens;
+};
+
+// Local-time range covered by YYYY, YYYY-MM or YYYY-MM-DD
+const parseDateRange = (value: string): { start: number; end: number } | null => {
+  const match = /^(\d{4})(?:-(\d{1,2})(?:-(\d{1,2}))?)?$/.exec(value);
+  if (!match) return null;
+  const year = Number(match[1]);
+  const month = match[2] ? Number(match[2]) - 1 : null;
+  const day = match[3] ? Number(match[3]) : null;
+  if (month !== null && (month < 0 || month > 11)) return null;
+
+  const start = new Date(year, month ?? 0, day ?? 1);
+  if (day !== null && start.getDate() !== day) return null;
+  const end = day !== null
+    ? new Date(year, month!, day + 1)
+    : month !== null ? new Date(year, month + 1, 1) : new Date(year + 1, 0, 1);
+  return { start: start.getTime(), end: end.getTime() };
+};
+
+export const parseQuery = (input: string): ParsedQuery => {
+  const terms: QueryTerm[] = [];
+  const errors: string[] = [];
+  const tokens = lex(input);
+  // The token still being typed shouldn't flash errors for half-written values
+  const typing = input.length > 0 && !/\s$/.test(input) ? tokens[tokens.length - 1] : null;
+
+  tokens.forEach(token => {
+    const { negated, operator, value } = token;
+    const label = `${operator}:${value}`;
+
+    if (token.unterminated && token !== typing) errors.push('Missing closing quote');
+
+    if (!operator) {
+      if (value) terms.push({ kind: 'text', value, negated });
+      return;
+    }
+    if (!(OPERATORS as readonly string[]).includes(operator)) {
+      if (token !== typing || !OPERATORS.some(op => op.startsWith(operator))) errors.push(`Unknown operator "${operator}:"`);
+      return;
+    }
+    if (!value) {
+      if (token !== typing) errors.push(`"${operator}:" needs a value`);
+      return;
+    }
+
+    const options = VALUES[operator as Operator];
+    if (options) {
+      const option = value.toLowerCase();
+      if (!options.includes(option)) {
+        const partial = token === typing && options.some(o => o.startsWith(option));
+        if (!partial) errors.push(`"${label}" isn't valid · try ${options.map(o => `${operator}:${o}`).join(', ')}`);
+        return;
+      }
+      terms.push({ kind: operator, value: option, negated } as QueryTerm);
+      return;
+    }
+
+    if (operator === 'before' || operator === 'after') {
+      const range = parseDateRange(value);
+      if (!range) {
+        if (token !== typing) errors.push(`"${label}" isn't a date · use YYYY-MM-DD`);
+        return;
+      }
+      terms.push({ kind: operator, value: operator === 'before' ? range.start : range.end, negated });
+      return;
+    }
+
+    terms.push({ kind: 'title', value, negated });
+  });
+
+  return { terms, errors };
+};
+
+// True when the query itself decides whether hidden notes are in scope
+export const queryScopesHidden = (query: ParsedQuery): boolean =>
+  query.terms.some(term => term.kind === 'is' && term.value === 'hidden');
+
+const matchesTerm = (note: NoteSummary, term: QueryTerm, textMatches: Set<string> | undefined): boolean => {
+  switch (term.kind) {
+    case 'text': return !!textMatches?.has(note.id);
+    case 'is': return term.value === 'pinned' ? note.isPinned : !!note.isHidden;
+    case 'has': return term.value === 'drawing' ? note.hasDrawings : note.blockTypes.includes(term.value);
+    case 'theme': return note.theme === term.value;
+    case 'before': return note.createdAt < term.value;
+    case 'after': return note.createdAt >= term.value;
+    case 'title': return foldText(note.title).includes(foldText(term.value));
+  }
+};
+
+export const createQueryMatcher = (query: ParsedQuery, index: SearchIndex): QueryMatcher => {
+  const freeText = query.terms
+    .filter(term => term.kind === 'text' && !term.negated)
+    .map(term => term.value)
+    .join(' ');
+  const hits = freeText ? new Map(index.search(freeText).map(hit => [hit.id, hit])) : null;
+
+  // Negated free text is looked up on its own: the notes it would have found are excluded
+  const textMatches = new Map<QueryTerm, Set<string>>();
+  query.terms.forEach(term => {
+    if (term.kind === 'text' && term.negated) {
+      textMatches.set(term, new Set(index.search(term.value).map(hit => hit.id)));
+    }
+  });
+
+  return {
+    hits,
+    matches: note => {
+      if (hits && !hits.has(note.id)) return false;
+      return query.terms.every(term => {
+        if (term.kind === 'text' && !term.negated) return true;
+        const matched = matchesTerm(note, term, textMatches.get(term));
+        return term.negated ? !matched : matched;
+      });
+    },
+  };
+};
+
+// Completions for the token at the end of the input, as the full replacement text for that token
+export const suggestCompletions = (input: string): string[] => {
+  if (/\s$/.test(input) || !input) return OPERATORS.map(op => `${op}:`);
+  const tokens = lex(input);
+  const last = tokens[tokens.length - 1];
+  if (!last || last.quoted) return [];
+  const prefix = last.negated ? '-' : '';
+
+  if (!last.operator) {
+    const typed = last.value.toLowerCase();
+    return OPERATORS.filter(op => op.startsWith(typed)).map(op => `${prefix}${op}:`);
+  }
+  const options = VALUES[last.operator as Operator];
+  if (options) {
+    const typed = last.value.toLowerCase();
+    return options.filter(o => o.startsWith(typed) && o !== typed).map(o => `${prefix}${last.operator}:${o}`);
+  }
+  if ((last.operator === 'before' || last.operator === 'after') && !last.value) {
+    const today = new Date();
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return [`${prefix}${last.operator}:${today.getFullYear()}-${pad(today.getMonth() + 1)}-${pad(today.getDate())}`];
+  }
+  if (last.operator === 'title' && !last.value) return [`${prefix}title:"`];
+  return [];
+};
+
+// Swaps the token being typed for a chosen completion
+export const applyCompletion = (input: string, completion: string): string => {
+  const start = /\s$/.test(input) ? input.length : input.search(/\S*$/);
+  const closesValue = !completion.endsWith(':') && !completion.endsWith('"');
+  return input.slice(0, start) + completion + (closesValue ? ' ' : '');
+};
@@ -0,0 +1,85 @@
+import { Capacitor } from '@capacitor/core';
+import { idbGet, idbPut } from './idb';
+import { readFileSafe, writeFileAtomic } from './persistence';
+import { IndexedText } from './searchIndex';
+
+// Body text of visible notes, kept beside the note index so search is ready at launch without
+// reading every note file. An entry only counts while its updatedAt matches the note's summary.
+// Hidden notes never get an entry: their text stays encrypted at rest.
+//   Native: Directory.Data/frame_notes_search.json
+//   Web:    IndexedDB "meta" store, key frame_notes_search
+
+const SEARCH_FILENAME = 'frame_notes_search.json';
+const SEARCH_KEY = 'frame_notes_search';
+// Entries arrive one note at a time while the index catches up; they are written together
+const SAVE_DELAY = 2000;
+
+export interface SearchTextStore {
+  load(): Promise<void>;
+  get(id: string): IndexedText | undefined;
+  set(entry: IndexedText): void;
+  // Forgets every note not in `ids`, e.g. deleted or hidden ones
+  retain(ids: Set<string>): void;
+}
+
+const isEntry = (value: unknown): value is IndexedText => {
+  const entry = value as IndexedText;
+  return !!entry && typeof entry.id === 'string' && typeof entry.title === 'string'
+    && typeof entry.text === 'string' && typeof entry.updatedAt === 'number';
+};
+
+const readEntries = async (): Promise<unknown> => {
+  if (Capacitor.isNativePlatform()) return readFileSafe(SEARCH_FILENAME, text => JSON.parse(text));
+  return idbGet('meta', SEARCH_KEY);
+};
+
+const writeEntries = async (entries: IndexedText[]): Promise<void> => {
+  if (Capacitor.isNativePlatform()) await writeFileAtomic(SEARCH_FILENAME, JSON.stringify(entries));
+  else await idbPut('meta', SEARCH_KEY, entries);
+};
+
+export const createSearchTextStore = (): SearchTextStore => {
+  const entries = new Map<string, IndexedText>();
+  let saveTimer: ReturnType<typeof setTimeout> | null = null;
+  let saving: Promise<void> = Promise.resolve();
+
+  const scheduleSave = () => {
+    if (saveTimer) return;
+    saveTimer = setTimeout(() => {
+      saveTimer = null;
+      const snapshot = Array.from(entries.values());
+      saving = saving
+        .then(() => writeEntries(snapshot))
+        .catch(e => console.warn("Search: could not save note text", e));
+    }, SAVE_DELAY);
+  };
+
+  return {
+    load: async () => {
+      try {
+        const saved = await readEntries();
+        if (Array.isArray(saved)) saved.filter(isEntry).forEach(entry => entries.set(entry.id, entry));
+      } catch (e) {
+        // Only a cache: notes without an entry are read from their files instead
+        console.warn("Search: could not read saved note text", e);
+      }
+    },
+
+    get: id => entries.get(id),
+
+    set: entry => {
+      const current = entries.get(entry.id);
+      if (current && current.updatedAt > entry.updatedAt) return;
+      if (current && current.updatedAt === entry.updatedAt && current.title === entry.title && current.text === entry.text) return;
+      entries.set(entry.id, entry);
+      scheduleSave();
+    },
+
+    retain: ids => {
+      const gone = Array.from(entries.keys()).filter(id => !ids.has(id));
+      if (gone.length === 0) return;
+      gone.forEach(id => entries.delete(id));
+      scheduleSave();
+    },
+  };
+};
@@ -0,0 +1,101 @@
+import { Block, Size, SketchAspect, SketchBackground } from '../types';
+import { coverTransform, drawElements, drawingSpaceOf, drawingsInSpace, OVERLAY_STYLE } from './drawing';
+import { canvasToBlob } from './annotatedMedia';
+import { putMedia } from './mediaStore';
+
+// Sketch blocks: a blank canvas drawn with the same strokes, shapes and labels as
+// media annotations. The drawing stays the source of truth; a PNG render is stored as the
+// block's media so Home covers and exports can treat a sketch like an image.
+
+export const SKETCH_ASPECTS: SketchAspect[] = ['1:1', '4:3', '3:4', '16:9'];
+export const SKETCH_BACKGROUNDS: SketchBackground[] = ['transparent', 'surface', 'grid', 'dots'];
+
+export const DEFAULT_ASPECT: SketchAspect = '4:3';
+export const DEFAULT_BACKGROUND: SketchBackground = 'grid';
+
+// Width over height
+export const aspectRatio = (aspect: SketchAspect = DEFAULT_ASPECT): number => {
+  const [w, h] = aspect.split(':').map(Number);
+  return w / h;
+};
+
+// Sketch drawings live on a virtual canvas this wide, whatever size the frame has; changing
+// the aspect only moves the bottom edge, so existing ink stays where it was
+const SPACE_WIDTH = 1000;
+
+export const sketchSpace = (aspect?: SketchAspect): Size =>
+  ({ width: SPACE_WIDTH, height: SPACE_WIDTH / aspectRatio(aspect) });
+
+// Neutral tints read on every theme, so the stored render doesn't depend on one
+const SURFACE_FILL = 'rgba(255, 255, 255, 0.05)';
+const GUIDE_COLOR = 'rgba(255, 255, 255, 0.12)';
+// Guides per canvas width; spacing scales with the canvas so renders match at any size
+const GUIDE_COLUMNS = 16;
+
+export const drawSketchBackground = (ctx: CanvasRenderingContext2D, background: SketchBackground, width: number, height: number) => {
+  if (background === 'transparent') return;
+  ctx.fillStyle = SURFACE_FILL;
+  ctx.fillRect(0, 0, width, height);
+  if (background === 'surface') return;
+
+  const step = width / GUIDE_COLUMNS;
+  ctx.fillStyle = GUIDE_COLOR;
+  ctx.strokeStyle = GUIDE_COLOR;
+  ctx.lineWidth = Math.max(0.5, step / 40);
+  if (background === 'grid') {
+    ctx.beginPath();
+    for (let x = step; x < width; x += step) { ctx.moveTo(x, 0); ctx.lineTo(x, height); }
+    for (let y = step; y < height; y += step) { ctx.moveTo(0, y); ctx.lineTo(width, y); }
+    ctx.stroke();
+  } else {
+    const radius = Math.max(0.75, step / 20);
+    for (let x = step; x < width; x += step) {
+      for (let y = step; y < height; y += step) {
+        ctx.beginPath();
+        ctx.arc(x, y, radius, 0, Math.PI * 2);
+        ctx.fill();
+      }
+    }
+  }
+};
+
+// Sketches that were never drawn on have no recorded surface yet
+const FALLBACK_WIDTH = 320;
+
+// Size of the frame the sketch was last edited in, in CSS pixels
+export const getSketchSurface = (block: Block): { width: number; height: number } => {
+  const width = block.width || FALLBACK_WIDTH;
+  return { width, height: block.height || width / aspectRatio(block.aspect) };
+};
+
+// Background plus strokes at `scale` times the drawing surface
+export const renderSketchCanvas = (block: Block, scale = 2): HTMLCanvasElement => {
+  const { width, height } = getSketchSurface(block);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(width * scale));
+  canvas.height = Math.max(1, Math.round(height * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas unavailable');
+  ctx.scale(scale, scale);
+  drawSketchBackground(ctx, block.background || DEFAULT_BACKGROUND, width, height);
+
+  // Strokes get their own layer so eraser strokes never cut into the background
+  const layer = document.createElement('canvas');
+  layer.width = canvas.width;
+  layer.height = canvas.height;
+  const layerCtx = layer.getContext('2d');
+  if (layerCtx) {
+    const media = sketchSpace(block.aspect);
+    const t = coverTransform(drawingSpaceOf(block, media), { width, height });
+    layerCtx.setTransform(scale * t.scale, 0, 0, scale * t.scale, scale * t.x, scale * t.y);
+    drawElements(layerCtx, drawingsInSpace(block, media), OVERLAY_STYLE);
+    ctx.setTransform(1, 0, 0, 1, 0, 0);
+    ctx.drawImage(layer, 0, 0);
+  }
+  return canvas;
+};
+
+export const renderSketchBlob = (block: Block): Promise<Blob> => canvasToBlob(renderSketchCanvas(block));
+
+// Stores the current render and returns its media:// reference
+export const storeSketchPreview = async (block: Block): Promise<string> => putMedia(await renderSketchBlob(block));
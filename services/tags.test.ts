@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { NoteSummary } from '../types';
+import { countTags, hasAllTags, normalizeTag, renameTag } from './tags';
+
+const tagged = (...tags: string[]) => ({ tags }) as NoteSummary;
+
+describe('normalizeTag', () => {
+  it('drops hashes, lower-cases and joins words with dashes', () => {
+    expect(normalizeTag('  #Road Trip ')).toBe('road-trip');
+    expect(normalizeTag('##Food')).toBe('food');
+    expect(normalizeTag('a  b\tc')).toBe('a-b-c');
+  });
+
+  it('is empty when nothing usable is left', () => {
+    expect(normalizeTag(' # ')).toBe('');
+  });
+
+  it('caps the length', () => {
+    expect(normalizeTag('x'.repeat(50))).toHaveLength(32);
+  });
+});
+
+describe('countTags', () => {
+  it('lists the most used first, then alphabetically', () => {
+    expect(countTags([tagged('work', 'ideas'), tagged('travel', 'work'), tagged('art'), tagged('travel')])).toEqual([
+      { tag: 'travel', count: 2 },
+      { tag: 'work', count: 2 },
+      { tag: 'art', count: 1 },
+      { tag: 'ideas', count: 1 },
+    ]);
+  });
+});
+
+describe('renameTag', () => {
+  it('renames in place', () => {
+    expect(renameTag(['a', 'old', 'b'], 'old', 'new')).toEqual(['a', 'new', 'b']);
+  });
+
+  it('merges onto a tag the list already has', () => {
+    expect(renameTag(['food', 'recipes', 'dinner'], 'recipes', 'food')).toEqual(['food', 'dinner']);
+  });
+});
+
+describe('hasAllTags', () => {
+  it('needs every tag of the filter', () => {
+    expect(hasAllTags(tagged('a', 'b', 'c'), ['a', 'c'])).toBe(true);
+    expect(hasAllTags(tagged('a'), ['a', 'c'])).toBe(false);
+    expect(hasAllTags(tagged(), [])).toBe(true);
+  });
+});
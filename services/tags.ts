@@ -0,0 +1,51 @@
+import { Capacitor } from '@capacitor/core';
+import { Collection, NoteSummary } from '../types';
+import { readFileSafe, writeFileAtomic } from './persistence';
+
+// Tags live on each note; collections are saved tag filters kept next to the vault.
+
+const COLLECTIONS_FILENAME = 'frame_notes_collections.json';
+const COLLECTIONS_KEY = 'frame_notes_collections';
+const MAX_TAG_LENGTH = 32;
+
+export interface TagCount {
+  tag: string;
+  count: number;
+}
+
+// "#Road Trip " -> "road-trip"; empty when nothing usable is left
+export const normalizeTag = (raw: string): string =>
+  raw.trim().replace(/^#+/, '').trim().toLowerCase().replace(/\s+/g, '-').slice(0, MAX_TAG_LENGTH);
+
+// Most used first, then alphabetical
+export const countTags = (notes: NoteSummary[]): TagCount[] => {
+  const counts = new Map<string, number>();
+  notes.forEach(note => note.tags.forEach(tag => counts.set(tag, (counts.get(tag) || 0) + 1)));
+  return Array.from(counts.entries())
+    .map(([tag, count]) => ({ tag, count }))
+    .sort((a, b) => b.count - a.count || a.tag.localeCompare(b.tag));
+};
+
+// Renaming onto a tag the list already has merges the two
+export const renameTag = (tags: string[], from: string, to: string): string[] =>
+  Array.from(new Set(tags.map(tag => tag === from ? to : tag)));
+
+export const hasAllTags = (note: NoteSummary, tags: string[]): boolean =>
+  tags.every(tag => note.tags.includes(tag));
+
+export const loadCollections = async (): Promise<Collection[]> => {
+  try {
+    if (Capacitor.isNativePlatform()) return await readFileSafe(COLLECTIONS_FILENAME, text => JSON.parse(text) as Collection[]) || [];
+    const saved = localStorage.getItem(COLLECTIONS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.warn("Collections: could not read", e);
+    return [];
+  }
+};
+
+export const saveCollections = async (collections: Collection[]): Promise<void> => {
+  const data = JSON.stringify(collections);
+  if (Capacitor.isNativePlatform()) await writeFileAtomic(COLLECTIONS_FILENAME, data);
+  else localStorage.setItem(COLLECTIONS_KEY, data);
+};
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { NoteSummary } from '../types';
+import { daysUntilPurge, findExpired, isTrashed } from './trash';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date(2024, 5, 15, 12).getTime();
+
+const deleted = (id: string, daysAgo?: number) =>
+  ({ id, ...(daysAgo !== undefined && { deletedAt: NOW - daysAgo * DAY }) }) as NoteSummary;
+
+describe('findExpired', () => {
+  it('purges notes trashed at least the retention period ago', () => {
+    const notes = [deleted('kept'), deleted('recent', 29), deleted('due', 30), deleted('old', 45)];
+    expect(findExpired(notes, 30, NOW).map(n => n.id)).toEqual(['due', 'old']);
+  });
+
+  it('cuts off to the millisecond', () => {
+    const justBefore = { id: 'a', deletedAt: NOW - 7 * DAY + 1 } as NoteSummary;
+    const exactly = { id: 'b', deletedAt: NOW - 7 * DAY } as NoteSummary;
+    expect(findExpired([justBefore, exactly], 7, NOW).map(n => n.id)).toEqual(['b']);
+  });
+
+  it('follows the chosen retention', () => {
+    const notes = [deleted('a', 10), deleted('b', 60), deleted('c', 100)];
+    expect(findExpired(notes, 7, NOW).map(n => n.id)).toEqual(['a', 'b', 'c']);
+    expect(findExpired(notes, 30, NOW).map(n => n.id)).toEqual(['b', 'c']);
+    expect(findExpired(notes, 90, NOW).map(n => n.id)).toEqual(['c']);
+  });
+});
+
+describe('daysUntilPurge', () => {
+  it('counts whole days left, rounding up', () => {
+    expect(daysUntilPurge(deleted('a', 0), 30, NOW)).toBe(30);
+    expect(daysUntilPurge(deleted('a', 29.5), 30, NOW)).toBe(1);
+    expect(daysUntilPurge(deleted('a', 30), 30, NOW)).toBe(0);
+  });
+
+  it('never goes below zero for notes past due', () => {
+    expect(daysUntilPurge(deleted('a', 45), 30, NOW)).toBe(0);
+  });
+});
+
+describe('isTrashed', () => {
+  it('only counts notes with a deletion stamp', () => {
+    expect(isTrashed(deleted('a', 1))).toBe(true);
+    expect(isTrashed(deleted('b'))).toBe(false);
+  });
+});
@@ -0,0 +1,28 @@
+import { NoteSummary } from '../types';
+
+// Deleted notes stay in the vault with a `deletedAt` stamp until they are restored,
+// removed for good from the Trash view, or purged on startup after the retention period.
+
+const RETENTION_KEY = 'frame_notes_trash_retention';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90];
+export const DEFAULT_RETENTION_DAYS = 30;
+
+export const loadRetentionDays = (): number => {
+  const saved = Number(localStorage.getItem(RETENTION_KEY));
+  return TRASH_RETENTION_OPTIONS.includes(saved) ? saved : DEFAULT_RETENTION_DAYS;
+};
+
+export const saveRetentionDays = (days: number) => {
+  localStorage.setItem(RETENTION_KEY, String(days));
+};
+
+export const isTrashed = (note: { deletedAt?: number }): boolean => !!note.deletedAt;
+
+// Whole days until the purge; 0 means it goes on the next startup
+export const daysUntilPurge = (note: NoteSummary, retentionDays: number, now = Date.now()): number =>
+  Math.max(0, Math.ceil((note.deletedAt! + retentionDays * DAY_MS - now) / DAY_MS));
+
+export const findExpired = (notes: NoteSummary[], retentionDays: number, now = Date.now()): NoteSummary[] =>
+  notes.filter(note => isTrashed(note) && now - note.deletedAt! >= retentionDays * DAY_MS);
@@ -0,0 +1,97 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Note } from '../types';
+import { createNoteRepository } from './noteRepository';
+import { createMemoryBackend } from './backends/memoryBackend';
+import { exportVault, importVault, readVaultArchive } from './vaultArchive';
+
+// The real store needs IndexedDB or the native filesystem; this one keeps blobs in a map.
+// `rehash` lets a test make the store file bytes under a different ref than the archive used.
+const media = vi.hoisted(() => ({ blobs: new Map<string, Blob>(), rehash: (ref: string) => ref }));
+
+vi.mock('./mediaStore', async importOriginal => ({
+  ...(await importOriginal<typeof import('./mediaStore')>()),
+  readMedia: async (ref: string) => media.blobs.get(ref) || null,
+  putMedia: async (blob: Blob) => {
+    const ref = media.rehash(`media://${await blob.text()}`);
+    media.blobs.set(ref, blob);
+    return ref;
+  },
+}));
+
+const plainNote: Note = {
+  id: 'plain',
+  title: 'Trip',
+  createdAt: 1,
+  updatedAt: 2,
+  isPinned: false,
+  blocks: [{ id: 'b1', type: 'image', content: 'media://photo' }],
+};
+
+const hiddenStub: Note = {
+  id: 'hidden',
+  title: '',
+  createdAt: 1,
+  updatedAt: 2,
+  isPinned: false,
+  isHidden: true,
+  blocks: [],
+  sealed: { version: 1, salt: 'salt', iterations: 1, data: 'ciphertext', summary: 'summary', media: ['media://sealed'] },
+};
+
+const exportNotes = async (notes: Note[]) => {
+  const source = createNoteRepository(createMemoryBackend(notes));
+  const chunks: Uint8Array[] = [];
+  await exportVault(source, async chunk => { chunks.push(chunk); });
+  return readVaultArchive(new Blob(chunks));
+};
+
+describe('vault archive round trip', () => {
+  beforeEach(() => {
+    media.blobs = new Map([
+      ['media://photo', new Blob(['photo'], { type: 'image/png' })],
+      ['media://sealed', new Blob(['sealed'], { type: 'application/octet-stream' })],
+    ]);
+    media.rehash = ref => ref;
+  });
+
+  it('brings back plain notes, hidden stubs and their media', async () => {
+    const archive = await exportNotes([plainNote, hiddenStub]);
+    expect(Array.from(archive.media.keys()).sort()).toEqual(['media://photo', 'media://sealed']);
+
+    const target = createNoteRepository(createMemoryBackend());
+    const summary = await importVault(target, archive, 'newer');
+    expect(summary).toMatchObject({ added: 2, updated: 0, skipped: 0 });
+
+    const plain = await target.get('plain');
+    const hidden = await target.get('hidden');
+    expect(plain.status === 'ok' && plain.note.blocks[0].content).toBe('media://photo');
+    expect(hidden.status === 'ok' && hidden.note.sealed?.media).toEqual(['media://sealed']);
+  });
+
+  it('remaps media refs in blocks and hidden stubs when the store files bytes under new refs', async () => {
+    const archive = await exportNotes([plainNote, hiddenStub]);
+    media.rehash = ref => `${ref}-rehashed`;
+
+    const target = createNoteRepository(createMemoryBackend());
+    await importVault(target, archive, 'newer');
+
+    const plain = await target.get('plain');
+    const hidden = await target.get('hidden');
+    expect(plain.status === 'ok' && plain.note.blocks[0].content).toBe('media://photo-rehashed');
+    expect(hidden.status === 'ok' && hidden.note.sealed?.media).toEqual(['media://sealed-rehashed']);
+    const { notes } = await target.list();
+    expect(notes.find(n => n.id === 'hidden')?.media).toEqual(['media://sealed-rehashed']);
+  });
+
+  it('streams media larger than one slice without corrupting it', async () => {
+    const bytes = new Uint8Array(2.5 * 1024 * 1024);
+    for (let i = 0; i < bytes.length; i++) bytes[i] = i % 251;
+    media.blobs.set('media://photo', new Blob([bytes], { type: 'image/png' }));
+
+    const archive = await exportNotes([plainNote]);
+
+    const restored = new Uint8Array(await archive.media.get('media://photo')!.arrayBuffer());
+    expect(restored.length).toBe(bytes.length);
+    expect(restored.every((byte, i) => byte === bytes[i])).toBe(true);
+  });
+});
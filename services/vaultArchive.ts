@@ -0,0 +1,222 @@
+import { Zip, ZipDeflate, ZipPassThrough, unzipSync, strToU8, strFromU8 } from 'fflate';
+import { Note } from '../types';
+import { generateId } from '../utils';
+import { NoteRepository } from './noteRepository';
+import { QuarantinedNote, SCHEMA_VERSION, parseNoteFile, serializeNote } from './schema';
+import { MEDIA_SCHEME, extensionForMime, isMediaRef, mimeForFileName, putMedia, readMedia } from './mediaStore';
+
+// Whole-vault backup as a single zip:
+//   manifest.json        format marker, counts, media table
+//   notes/<id>.json      the same versioned note files the app stores
+//   media/<hash>.<ext>   raw media bytes
+
+const ARCHIVE_FORMAT = 'frame-notes-vault';
+const ARCHIVE_VERSION = 1;
+
+interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  schemaVersion: number;
+  exportedAt: number;
+  noteCount: number;
+  media: Record<string, string>; // media ref -> path inside the archive
+}
+
+export interface VaultArchive {
+  exportedAt: number;
+  notes: Note[];
+  quarantined: QuarantinedNote[];
+  media: Map<string, Blob>; // media ref -> bytes
+}
+
+export type ImportConflictStrategy = 'newer' | 'keep-both';
+
+export interface ImportSummary {
+  added: number;
+  updated: number;
+  skipped: number;
+  quarantined: number;
+}
+
+// --- Export ---
+
+// Media is read and zipped in slices of this size
+const MEDIA_SLICE_SIZE = 1024 * 1024;
+
+// Streams the archive to `write` entry by entry; only one media slice is held at a time
+export const exportVault = async (
+  repository: NoteRepository,
+  write: (chunk: Uint8Array) => Promise<void>
+): Promise<void> => {
+  const { notes: summaries } = await repository.list();
+  const mediaTable: Record<string, string> = {};
+  let noteCount = 0;
+
+  // fflate hands output over synchronously; it is queued and written out after every push
+  const output: Uint8Array[] = [];
+  let zipError: Error | null = null;
+  const zip = new Zip((err, chunk) => {
+    if (err) zipError = err;
+    else output.push(chunk);
+  });
+  const drain = async () => {
+    if (zipError) throw zipError;
+    while (output.length > 0) await write(output.shift()!);
+  };
+
+  const addText = async (path: string, text: string) => {
+    const entry = new ZipDeflate(path);
+    zip.add(entry);
+    entry.push(strToU8(text), true);
+    await drain();
+  };
+
+  const addBlob = async (path: string, blob: Blob) => {
+    // Media is already compressed; storing it avoids burning CPU for nothing
+    const entry = new ZipPassThrough(path);
+    zip.add(entry);
+    let offset = 0;
+    do {
+      const end = Math.min(offset + MEDIA_SLICE_SIZE, blob.size);
+      entry.push(new Uint8Array(await blob.slice(offset, end).arrayBuffer()), end === blob.size);
+      offset = end;
+      await drain();
+    } while (offset < blob.size);
+  };
+
+  for (const summary of summaries) {
+    const result = await repository.get(summary.id);
+    if (result.status !== 'ok') continue;
+    const note = result.note;
+    await addText(`notes/${note.id}.json`, serializeNote(note));
+    noteCount++;
+
+    // Hidden notes travel encrypted: their stub and encrypted media blobs, never plaintext
+    const refs = [...note.blocks.map(block => block.content), ...(note.sealed?.media || [])];
+    for (const ref of refs) {
+      if (!isMediaRef(ref) || mediaTable[ref]) continue;
+      const blob = await readMedia(ref);
+      if (!blob) {
+        console.warn("Export: media missing", ref);
+        continue;
+      }
+      const path = `media/${ref.slice(MEDIA_SCHEME.length)}.${extensionForMime(blob.type)}`;
+      await addBlob(path, blob);
+      mediaTable[ref] = path;
+    }
+  }
+
+  const manifest: ArchiveManifest = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: Date.now(),
+    noteCount,
+    media: mediaTable,
+  };
+  await addText('manifest.json', JSON.stringify(manifest, null, 2));
+  zip.end();
+  await drain();
+};
+
+// --- Import ---
+
+export const readVaultArchive = async (file: Blob): Promise<VaultArchive> => {
+  let entries: Record<string, Uint8Array>;
+  try {
+    entries = unzipSync(new Uint8Array(await file.arrayBuffer()));
+  } catch (e) {
+    throw new Error('This file is not a zip archive');
+  }
+
+  const manifestBytes = entries['manifest.json'];
+  if (!manifestBytes) throw new Error('Archive has no manifest');
+  const manifest = JSON.parse(strFromU8(manifestBytes)) as ArchiveManifest;
+  if (manifest.format !== ARCHIVE_FORMAT) throw new Error('Not a Frame Notes vault archive');
+  if (manifest.version > ARCHIVE_VERSION) throw new Error('Archive was made by a newer version of the app');
+
+  const archive: VaultArchive = { exportedAt: manifest.exportedAt, notes: [], quarantined: [], media: new Map() };
+
+  Object.keys(entries)
+    .filter(path => path.startsWith('notes/') && path.endsWith('.json'))
+    .forEach(path => {
+      const text = strFromU8(entries[path]);
+      try {
+        const parsed = parseNoteFile(text);
+        archive.notes.push(...parsed.notes);
+        archive.quarantined.push(...parsed.quarantined);
+      } catch (e) {
+        archive.quarantined.push({
+          id: path.slice('notes/'.length, -'.json'.length),
+          reason: 'archived note is unreadable',
+          raw: text,
+          schemaVersion: 0,
+          quarantinedAt: Date.now(),
+        });
+      }
+    });
+
+  Object.entries(manifest.media || {}).forEach(([ref, path]) => {
+    const bytes = entries[path];
+    if (bytes) archive.media.set(ref, new Blob([bytes], { type: mimeForFileName(path) }));
+  });
+
+  return archive;
+};
+
+const remapMedia = (note: Note, refMap: Map<string, string>): Note => ({
+  ...note,
+  blocks: note.blocks.map(block => refMap.has(block.content) ? { ...block, content: refMap.get(block.content)! } : block),
+  // A hidden note's stub lists its encrypted blobs for export and GC. The table inside the
+  // ciphertext can't be rewritten, but it only disagrees when the bytes aren't the ones
+  // that were sealed, and decryption rejects those anyway.
+  ...(note.sealed && { sealed: { ...note.sealed, media: note.sealed.media.map(ref => refMap.get(ref) || ref) } }),
+});
+
+// Merges an archive into the repository. Notes match on id; `strategy` decides what happens
+// when both sides changed: keep whichever was updated last, or keep both as separate frames.
+export const importVault = async (
+  repository: NoteRepository,
+  archive: VaultArchive,
+  strategy: ImportConflictStrategy
+): Promise<ImportSummary> => {
+  const summary: ImportSummary = { added: 0, updated: 0, skipped: 0, quarantined: archive.quarantined.length };
+
+  // Media first, so no imported note ever points at an asset that isn't there yet.
+  // The store re-hashes everything; remap in case an archive's refs don't match its bytes.
+  const refMap = new Map<string, string>();
+  for (const [ref, blob] of archive.media) {
+    const stored = await putMedia(blob);
+    if (stored !== ref) refMap.set(ref, stored);
+  }
+
+  const { notes: existing } = await repository.list();
+  const existingById = new Map(existing.map(n => [n.id, n]));
+
+  for (const incoming of archive.notes) {
+    const note = remapMedia(incoming, refMap);
+    const current = existingById.get(note.id);
+
+    if (!current) {
+      await repository.put(note);
+      summary.added++;
+    } else if (current.updatedAt === note.updatedAt) {
+      summary.skipped++;
+    } else if (strategy === 'keep-both') {
+      // A sealed note's title is inside its ciphertext, so it is copied as is
+      const title = note.sealed ? note.title : note.title ? `${note.title} (imported)` : 'Imported';
+      await repository.put({ ...note, id: generateId(), title });
+      summary.added++;
+    } else if (note.updatedAt > current.updatedAt) {
+      await repository.put(note);
+      summary.updated++;
+    } else {
+      summary.skipped++;
+    }
+  }
+
+  return summary;
+};
+
+export const countConflicts = (archive: VaultArchive, existingIds: Set<string>): number =>
+  archive.notes.filter(note => existingIds.has(note.id)).length;
@@ -0,0 +1,61 @@
+import { pbkdf2Sync } from 'node:crypto';
+import { describe, expect, it } from 'vitest';
+import { base64ToBytes, bytesToBase64, decryptBytes, decryptText, deriveHash, deriveKey, encryptBytes, encryptText, randomSalt } from './vaultCrypto';
+
+// Real iteration counts take seconds per key; the primitives don't care
+const ITERATIONS = 1000;
+
+describe('base64', () => {
+  it('round-trips data longer than one fromCharCode chunk', () => {
+    const bytes = new Uint8Array(0x8000 * 2 + 5);
+    for (let i = 0; i < bytes.length; i++) bytes[i] = (i * 7) % 256;
+
+    const base64 = bytesToBase64(bytes);
+    expect(base64).toBe(Buffer.from(bytes).toString('base64'));
+    expect(base64ToBytes(base64)).toEqual(bytes);
+  });
+});
+
+describe('keys and hashes', () => {
+  it('derives the PBKDF2-SHA256 hash of the normalized secret', async () => {
+    const salt = randomSalt();
+    const expected = pbkdf2Sync('café', Buffer.from(salt, 'base64'), ITERATIONS, 32, 'sha256').toString('base64');
+
+    expect(await deriveHash('café', salt, ITERATIONS)).toBe(expected);
+    // Decomposed input, as some keyboards type it
+    expect(await deriveHash('cafe\u0301', salt, ITERATIONS)).toBe(expected);
+    expect(await deriveHash('café', randomSalt(), ITERATIONS)).not.toBe(expected);
+  });
+
+  it('derives keys that read each other\'s ciphertext only for the same passphrase and salt', async () => {
+    const salt = randomSalt();
+    const sealed = await encryptText(await deriveKey('cafe\u0301', salt, ITERATIONS), 'secret');
+
+    expect(await decryptText(await deriveKey('café', salt, ITERATIONS), sealed)).toBe('secret');
+    await expect(decryptText(await deriveKey('wrong', salt, ITERATIONS), sealed)).rejects.toThrow();
+    await expect(decryptText(await deriveKey('café', randomSalt(), ITERATIONS), sealed)).rejects.toThrow();
+  });
+});
+
+describe('encryption', () => {
+  it('round-trips text and bytes with a fresh IV every time', async () => {
+    const key = await deriveKey('passphrase', randomSalt(), ITERATIONS);
+    const first = await encryptText(key, 'Hidden frame \u{1F512}');
+    const second = await encryptText(key, 'Hidden frame \u{1F512}');
+
+    expect(first).not.toBe(second);
+    expect(await decryptText(key, first)).toBe('Hidden frame \u{1F512}');
+    expect(await decryptText(key, second)).toBe('Hidden frame \u{1F512}');
+
+    const bytes = new Uint8Array([0, 1, 2, 253, 254, 255]);
+    expect(await decryptBytes(key, await encryptBytes(key, bytes))).toEqual(bytes);
+  });
+
+  it('rejects tampered ciphertext', async () => {
+    const key = await deriveKey('passphrase', randomSalt(), ITERATIONS);
+    const sealed = await encryptBytes(key, new TextEncoder().encode('do not touch'));
+    sealed[sealed.length - 1] ^= 1;
+
+    await expect(decryptBytes(key, sealed)).rejects.toThrow();
+  });
+});
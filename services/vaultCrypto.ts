@@ -0,0 +1,67 @@
+// WebCrypto primitives for hidden notes and the app lock.
+//   Key:     PBKDF2-SHA256(passphrase, salt) -> AES-256-GCM, non-extractable
+//   Payload: 12-byte random IV followed by the AES-GCM ciphertext (tag included)
+//   Hash:    PBKDF2-SHA256(secret, salt), 256 bits, for secrets that are only ever verified
+
+export const PBKDF2_ITERATIONS = 600000;
+const IV_BYTES = 12;
+const SALT_BYTES = 16;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder();
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so large media doesn't blow the argument limit of fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array<ArrayBuffer> => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+export const randomSalt = (): string => bytesToBase64(crypto.getRandomValues(new Uint8Array(SALT_BYTES)));
+
+export const deriveKey = async (passphrase: string, salt: string, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(passphrase.normalize('NFC')), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt: base64ToBytes(salt), iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+export const deriveHash = async (secret: string, salt: string, iterations: number): Promise<string> => {
+  const material = await crypto.subtle.importKey('raw', encoder.encode(secret.normalize('NFC')), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt: base64ToBytes(salt), iterations, hash: 'SHA-256' }, material, 256);
+  return bytesToBase64(new Uint8Array(bits));
+};
+
+export const encryptBytes = async (key: CryptoKey, plain: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const cipher = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plain));
+  const sealed = new Uint8Array(IV_BYTES + cipher.length);
+  sealed.set(iv);
+  sealed.set(cipher, IV_BYTES);
+  return sealed;
+};
+
+// Rejects (OperationError) when the key is wrong or the data was tampered with
+export const decryptBytes = async (key: CryptoKey, sealed: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> => {
+  const iv = sealed.subarray(0, IV_BYTES);
+  return new Uint8Array(await crypto.subtle.decrypt({ name: 'AES-GCM', iv }, key, sealed.subarray(IV_BYTES)));
+};
+
+export const encryptText = async (key: CryptoKey, text: string): Promise<string> =>
+  bytesToBase64(await encryptBytes(key, encoder.encode(text)));
+
+export const decryptText = async (key: CryptoKey, base64: string): Promise<string> =>
+  decoder.decode(await decryptBytes(key, base64ToBytes(base64)));
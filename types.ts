@@ -1,25 +1,90 @@
 export type Theme = 'dark' | 'pink' | 'royal';
 
-export type BlockType = 'text' | 'image' | 'video';
+export type BlockType = 'text' | 'image' | 'video' | 'audio' | 'checklist' | 'sketch';
+
+export type SketchAspect = '1:1' | '4:3' | '3:4' | '16:9';
+
+export type SketchBackground = 'transparent' | 'surface' | 'grid' | 'dots';
+
+export interface Size {
+  width: number;
+  height: number;
+}
 
 export interface Point {
   x: number;
   y: number;
+  pressure?: number; // 0..1, stylus input only
+  tiltX?: number;    // degrees, stylus input only
+  tiltY?: number;
 }
 
+// Freehand stroke; color 'eraser' marks an eraser stroke
 export interface DrawingPath {
   points: Point[];
   color: string;
   width: number;
+  opacity?: number; // 0..1, below 1 for highlighter-style ink
+}
+
+export type ShapeKind = 'line' | 'arrow' | 'rect' | 'ellipse';
+
+export interface DrawingShape {
+  kind: ShapeKind;
+  from: Point;
+  to: Point; // rect and ellipse: opposite corners of the box before rotation
+  color: string;
+  width: number;
+  opacity?: number;
+  rotation?: number; // rect and ellipse: radians about the box's center
+}
+
+export interface DrawingLabel {
+  kind: 'text';
+  at: Point; // top-left corner of the first line
+  text: string;
+  color: string;
+  fontSize: number;
+  rotation?: number; // radians about `at`
+}
+
+// Freehand paths carry no kind, so drawings saved before shapes existed stay valid
+export type DrawingElement = DrawingPath | DrawingShape | DrawingLabel;
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  checked: boolean;
+  indent: number; // 0 or 1
 }
 
 export interface Block {
   id: string;
   type: BlockType;
-  content: string; // Text content or Base64 media
-  width?: number;
+  content: string; // Text content or media:// reference (legacy notes may still hold Base64); sketches keep a rendered preview here
+  width?: number;  // CSS size of the frame the drawings were last edited in
   height?: number;
-  drawings?: DrawingPath[]; // Annotations overlay
+  drawings?: DrawingElement[]; // Annotations overlay, in drawing order
+  // Coordinate space of `drawings`: the media's intrinsic pixels, or a sketch's virtual canvas.
+  // Absent on older drawings, which are CSS pixels of the width × height frame they were made in.
+  drawingSpace?: Size;
+  items?: ChecklistItem[]; // Checklist blocks only; their content stays empty
+  collapseChecked?: boolean; // Checklist: completed items gather, folded, at the bottom
+  duration?: number; // Audio: length in seconds
+  waveform?: number[]; // Audio: peak per bar, 0..1, computed once when the clip is added
+  aspect?: SketchAspect; // Sketch: shape of the blank canvas
+  background?: SketchBackground;
+}
+
+// Encrypted form of a hidden note. The stored note around it keeps only ids,
+// timestamps and flags; title, blocks and media live in the ciphertext.
+export interface SealedNote {
+  version: number;
+  salt: string;       // PBKDF2 salt (base64) the key was derived with
+  iterations: number;
+  data: string;       // base64 IV + AES-GCM ciphertext of the note and its media table
+  summary: string;    // same, for the Home card, so the grid can open without decrypting whole notes
+  media: string[];    // media:// refs of the encrypted asset blobs, for garbage collection
 }
 
 export interface Note {
@@ -31,6 +96,36 @@ export interface Note {
   isPinned: boolean;
   isHidden?: boolean;
   theme?: Theme;
+  tags?: string[]; // Normalized (see services/tags), no duplicates
+  deletedAt?: number; // Set while the note sits in the Trash
+  sealed?: SealedNote;
+}
+
+// A saved tag filter, opened from Home like the HIDDEN view
+export interface Collection {
+  id: string;
+  name: string;
+  tags: string[]; // Notes must carry every one of them
+}
+
+// Lightweight per-note entry kept in the vault index so Home never has to load blocks
+export interface NoteSummary {
+  id: string;
+  title: string;
+  createdAt: number;
+  updatedAt: number;
+  isPinned: boolean;
+  isHidden?: boolean;
+  theme?: Theme;
+  previewText: string;
+  blockTypes: BlockType[]; // Distinct block types present, for search filters
+  hasDrawings: boolean;
+  tags: string[];
+  checklist: { done: number; total: number } | null; // Items across every checklist block
+  deletedAt?: number;
+  cover: { ref: string; type: BlockType } | null;
+  media: string[]; // Every media reference in the note, for garbage collection
+  sealed?: Omit<SealedNote, 'data' | 'media'>; // Encrypted summary of a hidden note
 }
 
 export interface ThemeColors {
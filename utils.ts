@@ -1,3 +1,7 @@
+import { Block, Note, NoteSummary } from './types';
+import { isMediaRef } from './services/mediaStore';
+import { toPlainText } from './services/richText';
+
 export const generateId = (): string => {
   return Math.random().toString(36).substring(2, 9) + Date.now().toString(36);
 };
@@ -9,12 +13,70 @@ export const formatDate = (timestamp: number): string => {
   }).format(new Date(timestamp));
 };
 
-export const getFirstImage = (blocks: any[]): string | null => {
-  const imgBlock = blocks.find(b => b.type === 'image' || b.type === 'video');
-  return imgBlock ? imgBlock.content : null;
+// Returns the first visual block so callers know both the reference and whether it is a video.
+// Sketches count once their preview has been rendered.
+export const getFirstImage = (blocks: Block[]): Block | null => {
+  return blocks.find(b => b.type === 'image' || b.type === 'video' || (b.type === 'sketch' && isMediaRef(b.content))) || null;
+};
+
+// Text blocks hold formatting markers; previews and search work on the words only
+const plainTexts = (blocks: Block[]): string[] =>
+  blocks.filter(b => b.type === 'text').map(b => toPlainText(b.content)).filter(text => text.trim());
+
+export const getPreviewText = (blocks: Block[]): string => {
+  const text = plainTexts(blocks)[0];
+  return text ? text.substring(0, 60) + (text.length > 60 ? '...' : '') : 'New Frame';
+};
+
+export const getSearchText = (blocks: Block[]): string => [
+  ...plainTexts(blocks),
+  ...blocks.flatMap(b => b.items || []).map(item => item.text).filter(text => text.trim()),
+].join('\n');
+
+// Progress across every checklist in a note, for the Home card; null when it has none
+export const countChecklistItems = (blocks: Block[]): { done: number; total: number } | null => {
+  const items = blocks.filter(b => b.type === 'checklist').flatMap(b => b.items || []);
+  return items.length ? { done: items.filter(item => item.checked).length, total: items.length } : null;
 };
 
-export const getPreviewText = (blocks: any[]): string => {
-  const textBlock = blocks.find(b => b.type === 'text' && b.content.trim().length > 0);
-  return textBlock ? textBlock.content.substring(0, 60) + (textBlock.content.length > 60 ? '...' : '') : 'New Frame';
+export const summarizeNote = (note: Note): NoteSummary => {
+  if (note.sealed) {
+    const { data, media, ...sealed } = note.sealed;
+    return {
+      id: note.id,
+      title: '',
+      createdAt: note.createdAt,
+      updatedAt: note.updatedAt,
+      isPinned: note.isPinned,
+      isHidden: true,
+      deletedAt: note.deletedAt,
+      previewText: '',
+      blockTypes: [],
+      hasDrawings: false,
+      tags: [],
+      checklist: null,
+      cover: null,
+      media,
+      sealed,
+    };
+  }
+
+  const cover = getFirstImage(note.blocks);
+  return {
+    id: note.id,
+    title: note.title,
+    createdAt: note.createdAt,
+    updatedAt: note.updatedAt,
+    isPinned: note.isPinned,
+    isHidden: note.isHidden,
+    theme: note.theme,
+    deletedAt: note.deletedAt,
+    previewText: getPreviewText(note.blocks),
+    blockTypes: Array.from(new Set(note.blocks.map(b => b.type))),
+    hasDrawings: note.blocks.some(b => (b.drawings?.length || 0) > 0),
+    tags: note.tags || [],
+    checklist: countChecklistItems(note.blocks),
+    cover: cover ? { ref: cover.content, type: cover.type } : null,
+    media: note.blocks.filter(b => isMediaRef(b.content)).map(b => b.content),
+  };
 };